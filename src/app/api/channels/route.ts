@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { ChannelService, MAX_BACKFILL_VIDEOS } from "@/lib/services/ChannelService";
+import { JobService } from "@/lib/services/JobService";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+
+// Request validation schema
+const subscribeChannelSchema = z.object({
+  url: z.string().url(),
+  limit: z.number().int().min(1).max(MAX_BACKFILL_VIDEOS).optional(),
+});
+
+/**
+ * Subscribe to a YouTube channel and summarize its latest uploads in a background job
+ * POST /api/channels
+ *
+ * Responds with the channel, its uploads and the job once the channel is
+ * saved; the summaries appear with the user's other summaries as they are
+ * generated, and GET /api/jobs/:id reports when the backfill has finished.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/channels' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Subscribing to channel');
+    const body = await req.json();
+
+    const result = subscribeChannelSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { url, limit } = result.data;
+    const backfill = await new ChannelService().subscribeToChannel(url, user.id, limit);
+    const job = await new JobService().submitChannelJob(user.id, {
+      channel_id: backfill.channel.id,
+      videos: backfill.videos,
+    });
+
+    routeLogger.info('Subscribed to channel', {
+      channelId: backfill.channel.id,
+      jobId: job.id,
+      videos: backfill.videos.length
+    });
+
+    return NextResponse.json({ data: { ...backfill, job } }, { status: HttpStatus.CREATED });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while subscribing to channel', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while subscribing to channel', error as Error);
+    const appError = new AppError(
+      "Failed to subscribe to channel",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobService } from "@/lib/services/JobService";
+import { LinkImportService } from "@/lib/services/LinkImportService";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+
+// Request validation schema
+const importLinksSchema = z.object({
+  // Pasted links or the text of an imported file, at most 1 MB
+  content: z.string().min(1).max(1024 * 1024),
+  fileName: z.string().optional(),
+});
+
+/**
+ * Import many links at once and summarize the new ones in a background job
+ * POST /api/imports
+ *
+ * `content` is a list of links, one per line, a CSV file with a link column
+ * or an OPML file of feeds; `fileName` helps tell which. The response lists
+ * each link as accepted, duplicate or invalid, along with the job; accepted
+ * links then show up among the user's summaries as they are processed, and
+ * GET /api/jobs/:id reports when the import has finished.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/imports' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Importing links');
+    const body = await req.json();
+
+    const result = importLinksSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const imported = await new LinkImportService().importLinks(
+      result.data.content,
+      user.id,
+      result.data.fileName
+    );
+
+    const accepted = imported.results
+      .filter(link => link.status === "accepted" && link.url)
+      .map(link => link.url as string);
+    const job = await new JobService().submitImportJob(user.id, { urls: accepted });
+
+    routeLogger.info('Imported links', {
+      format: imported.format,
+      accepted: imported.accepted,
+      jobId: job.id
+    });
+
+    return NextResponse.json({ data: { ...imported, job } }, { status: HttpStatus.CREATED });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while importing links', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while importing links', error as Error);
+    const appError = new AppError(
+      "Failed to import links",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
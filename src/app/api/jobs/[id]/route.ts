@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobService } from "@/lib/services/JobService";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
+
+/**
+ * Get a job's status, current stage and error, with the resulting summary
+ * once it has completed
+ * GET /api/jobs/:id
+ *
+ * With `?stream=true` the response is a server-sent event stream that
+ * follows the job: `progress` events report each stage (fetching the
+ * transcript, each chunk summarized, generating tags, saving), `token`
+ * events stream the summary as it is generated (starting with the tokens
+ * streamed before the client connected), and a final `job` event holds the
+ * finished job, or an `error` event the failure.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  const routeLogger = logger.withContext({ route: 'api/jobs/[id]' });
+
+  try {
+    const user = await requireUser();
+    const jobs = new JobService();
+
+    if (req.nextUrl.searchParams.get('stream') === 'true') {
+      // Fail before the stream starts when the job is missing or not the user's
+      await jobs.getJob(user.id, params.id);
+
+      const events = createEventStream(
+        async send => {
+          const job = await jobs.watchJob(
+            user.id,
+            params.id,
+            {
+              onProgress: progress => send('progress', progress),
+              onToken: token => send('token', { text: token }),
+            },
+            req.signal
+          );
+          send('job', job);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming job', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to fetch job",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
+
+      return new Response(events, { headers: SSE_HEADERS });
+    }
+
+    const job = await jobs.getJob(user.id, params.id);
+
+    return NextResponse.json({ data: job });
+  } catch (error) {
+    routeLogger.error('Error while fetching job', error as Error);
+    const appError = error instanceof AppError
+      ? error
+      : new AppError(
+          "Failed to fetch job",
+          ErrorCode.API_SERVICE_UNAVAILABLE,
+          HttpStatus.INTERNAL_ERROR,
+          { details: error }
+        );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobService } from "@/lib/services/JobService";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+
+// Request validation schema
+const submitJobSchema = z.object({
+  url: z.string().url(),
+  refresh: z.boolean().optional(),
+  detailed_summary: z.string().optional(),
+});
+
+/**
+ * Submit a video to be summarized in the background
+ * POST /api/jobs
+ *
+ * Responds straight away with the pending job. Its progress, error and
+ * resulting summary are read from `GET /api/jobs/:id`.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/jobs' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Submitting job');
+    const body = await req.json();
+
+    const result = submitJobSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const job = await new JobService().submitVideoJob(user.id, result.data);
+
+    return NextResponse.json({ data: job }, { status: HttpStatus.CREATED });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while submitting job', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while submitting job', error as Error);
+    const appError = new AppError(
+      "Failed to submit job",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
+
+/**
+ * List the user's jobs, newest first
+ * GET /api/jobs?active=true&type=video
+ *
+ * With `active=true` only jobs that are pending or processing are listed,
+ * and with `type` only jobs of that kind.
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/jobs' });
+
+  try {
+    const user = await requireUser();
+    const active = req.nextUrl.searchParams.get('active') === 'true';
+    const type = req.nextUrl.searchParams.get('type');
+    routeLogger.info('Fetching jobs', { active, type });
+    const jobs = (await new JobService().getJobs(user.id, active))
+      .filter(job => !type || job.type === type);
+
+    return NextResponse.json({ data: jobs });
+  } catch (error) {
+    routeLogger.error('Error while fetching jobs', error as Error);
+    const appError = error instanceof AppError
+      ? error
+      : new AppError(
+          "Failed to fetch jobs",
+          ErrorCode.API_SERVICE_UNAVAILABLE,
+          HttpStatus.INTERNAL_ERROR,
+          { details: error }
+        );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
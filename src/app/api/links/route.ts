@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { LoadingProgress } from "@/lib/types/loading";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { LinkService } from "@/lib/services/LinkService";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
+
+// Request validation schema
+const processLinkSchema = z.object({
+  url: z.string().url(),
+  episode: z.string().optional(),
+  stream: z.boolean().optional(),
+  refresh: z.boolean().optional(),
+});
+
+/**
+ * Summarize any link outside YouTube
+ * POST /api/links
+ *
+ * Podcast feeds, episode pages and audio files are handled as in
+ * POST /api/podcasts (including `episode`); any other web page is summarized
+ * as an article from its readable text. Only public http(s) hosts are
+ * fetched, with size limits and timeouts.
+ *
+ * With `stream: true` the response is a server-sent event stream with the
+ * same `progress`, `token`, `summary` and `error` events as
+ * POST /api/videos/process.
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  const routeLogger = logger.withContext({ route: 'api/links' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Processing link request');
+    const body = await req.json();
+
+    const result = processLinkSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { url, episode, stream, refresh } = result.data;
+    const links = new LinkService();
+
+    const processLink = async (
+      onToken?: (token: string) => void,
+      onProgress?: (progress: LoadingProgress) => void
+    ) => {
+      routeLogger.info('Processing link', { url, episode, stream: !!stream, refresh: !!refresh });
+      const summary = await links.processLink(url, user.id, { episode, onToken, onProgress, refresh });
+
+      routeLogger.info('Link processed successfully', {
+        summaryId: summary.id,
+        contentId: summary.video_id
+      });
+      return summary;
+    };
+
+    if (stream) {
+      const events = createEventStream(
+        async send => {
+          const summary = await processLink(
+            token => send('token', { text: token }),
+            progress => send('progress', progress)
+          );
+          send('summary', summary);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming link summary', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to process link",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
+
+      return new Response(events, { headers: SSE_HEADERS });
+    }
+
+    const summary = await processLink();
+
+    return NextResponse.json({ data: summary });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while processing link', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while processing link', error as Error);
+    const appError = new AppError(
+      "Failed to process link",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
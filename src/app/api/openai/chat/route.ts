@@ -1,51 +1,106 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
 import { OpenAIService } from "@/lib/services/openai";
+import { getLLMTaskConfig } from "@/lib/services/LLMService";
+import { DEFAULT_LLM_MODELS, LLMCompletionOptions, LLMMessage, LLMTask } from "@/lib/types/llm";
+import { estimateTokens } from "@/lib/utils/tokens";
+import { z } from "zod";
+import { requireUser } from "@/lib/utils/auth";
 
 // Initialize OpenAI service
 const openaiService = new OpenAIService();
 
-// Request validation schema
-const validateRequest = (body: any) => {
-  if (!body.messages || !Array.isArray(body.messages)) {
+
+// Per-request caps
+const MAX_COMPLETION_TOKENS = 1000;
+const MAX_PROMPT_TOKENS = 8000;
+const MAX_MESSAGES = 50;
+
+// System prompt managed by the server; clients cannot send their own
+const SYSTEM_PROMPT =
+  "You are a helpful assistant in a video and podcast summarizer app. Answer clearly and concisely.";
+
+// Request validation schema. Unknown keys are rejected so clients cannot
+// pass through parameters such as `n`, `tools` or `logit_bias`.
+const chatRequestSchema = z.object({
+  messages: z.array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      content: z.string().min(1),
+    }).strict()
+  ).min(1).max(MAX_MESSAGES),
+  options: z.object({
+    model: z.string().optional(),
+    temperature: z.number().min(0).max(1).optional(),
+    top_p: z.number().min(0).max(1).optional(),
+    max_tokens: z.number().int().min(1).max(MAX_COMPLETION_TOKENS).optional(),
+  }).strict().optional(),
+}).strict();
+
+/**
+ * Models clients may request: the configured chat model and the default
+ * models of the provider it runs on
+ */
+const getAllowedModels = (): string[] => {
+  const { provider, model } = getLLMTaskConfig(LLMTask.CHAT);
+  return Array.from(new Set([model, ...Object.values(DEFAULT_LLM_MODELS[provider])]));
+};
+
+const validateRequest = (body: unknown) => {
+  const result = chatRequestSchema.safeParse(body);
+  if (!result.success) {
     throw new AppError(
-      "Messages array is required",
+      "Invalid request data",
       ErrorCode.VALIDATION_INVALID_FORMAT,
-      HttpStatus.BAD_REQUEST
+      HttpStatus.BAD_REQUEST,
+      { details: result.error.format() }
     );
   }
 
-  for (const message of body.messages) {
-    if (!message.role || !message.content) {
-      throw new AppError(
-        "Each message must have a role and content",
-        ErrorCode.VALIDATION_INVALID_FORMAT,
-        HttpStatus.BAD_REQUEST
-      );
-    }
+  const { messages, options = {} } = result.data;
 
-    if (!["system", "user", "assistant", "function"].includes(message.role)) {
-      throw new AppError(
-        "Invalid message role",
-        ErrorCode.VALIDATION_INVALID_FORMAT,
-        HttpStatus.BAD_REQUEST
-      );
-    }
+  const allowedModels = getAllowedModels();
+  if (options.model && !allowedModels.includes(options.model)) {
+    throw new AppError(
+      `Model ${options.model} is not allowed`,
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      HttpStatus.BAD_REQUEST,
+      { allowedModels }
+    );
+  }
+
+  const promptTokens = estimateTokens(messages.map(message => message.content).join("\n"));
+  if (promptTokens > MAX_PROMPT_TOKENS) {
+    throw new AppError(
+      `Messages exceed the limit of ${MAX_PROMPT_TOKENS} tokens`,
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      HttpStatus.BAD_REQUEST,
+      { promptTokens, maxPromptTokens: MAX_PROMPT_TOKENS }
+    );
   }
 
-  return body as {
-    messages: OpenAI.Chat.ChatCompletionMessageParam[];
-    options?: Partial<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming>;
+  return {
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      ...messages,
+    ] as LLMMessage[],
+    options: {
+      ...options,
+      max_tokens: options.max_tokens ?? MAX_COMPLETION_TOKENS,
+    } satisfies LLMCompletionOptions,
   };
 };
 
 /**
  * Handle chat completion request
  * POST /api/openai/chat
+ *
+ * Responds with `{ data: { content, model, provider } }`: the reply, and the
+ * model and provider that generated it.
  */
 export async function POST(req: NextRequest): Promise<NextResponse> {
   try {
+    await requireUser();
     const body = await req.json();
     const { messages, options } = validateRequest(body);
 
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
 import { OpenAIService } from "@/lib/services/openai";
+import { LLMMessage } from "@/lib/types/llm";
 import { z } from "zod";
 import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { StreamingTextResponse } from "ai";
 
 // Initialize OpenAI service
 const openaiService = new OpenAIService();
@@ -14,16 +17,20 @@ const requestSchema = z.object({
     maxLength: z.number().min(1).max(4000).optional(),
     format: z.enum(["paragraph", "bullets"]).optional(),
   }).optional(),
+  stream: z.boolean().optional(),
 });
 
 /**
- * Generate detailed summary using OpenAI
+ * Generate detailed summary of a text
  * POST /api/openai/summarize
+ *
+ * With `stream: true` the summary is returned as a plain text stream.
  */
-export async function POST(req: NextRequest): Promise<NextResponse> {
+export async function POST(req: NextRequest): Promise<Response> {
   const routeLogger = logger.withContext({ route: 'api/openai/summarize' });
 
   try {
+    await requireUser();
     routeLogger.info('Generating detailed summary');
     const body = await req.json();
     
@@ -41,10 +48,9 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const { text, options = {} } = result.data;
+    const { text, options = {}, stream } = result.data;
 
-    // Generate detailed summary using OpenAI
-    const response = await openaiService.generateChatCompletion([
+    const messages: LLMMessage[] = [
       {
         role: "system",
         content: "You are a helpful assistant that creates detailed summaries. Include important details, examples, and explanations while maintaining clarity. Structure your response with clear sections and bullet points where appropriate."
@@ -53,12 +59,25 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
         role: "user",
         content: `Please create a detailed summary of this text, including key points, examples, and explanations. Format the response with clear sections and bullet points where appropriate:\n\n${text}`
       }
-    ], {
+    ];
+    const completionOptions = {
       temperature: 0.7,
       max_tokens: options.maxLength || 2000,
-    });
+    };
 
-    const summary = response.choices[0].message.content;
+    if (stream) {
+      const summaryStream = await openaiService.streamChatCompletion(
+        messages,
+        completionOptions,
+        () => routeLogger.info('Finished streaming detailed summary')
+      );
+      return new StreamingTextResponse(summaryStream);
+    }
+
+    // Generate detailed summary with the configured chat provider
+    const response = await openaiService.generateChatCompletion(messages, completionOptions);
+
+    const summary = response.content;
     routeLogger.info('Successfully generated detailed summary');
 
     return NextResponse.json({ data: { summary } });
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobService } from "@/lib/services/JobService";
+import { PlaylistService } from "@/lib/services/PlaylistService";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+
+/**
+ * Get a playlist with the status and summary of each video
+ * GET /api/playlists/:id
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/playlists/[id]' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Fetching playlist', { id: params.id });
+    // A playlist whose job was interrupted is shown as failed
+    await new JobService().failInterruptedJobs(user.id);
+    const playlist = await new PlaylistService().getPlaylist(params.id, user.id);
+
+    return NextResponse.json({ data: playlist });
+  } catch (error) {
+    routeLogger.error('Error while fetching playlist', error as Error);
+    const appError = error instanceof AppError
+      ? error
+      : new AppError(
+          "Failed to fetch playlist",
+          ErrorCode.API_SERVICE_UNAVAILABLE,
+          HttpStatus.INTERNAL_ERROR,
+          { details: error }
+        );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobService } from "@/lib/services/JobService";
+import { PlaylistService } from "@/lib/services/PlaylistService";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+
+// Request validation schema
+const importPlaylistSchema = z.object({
+  url: z.string().url(),
+});
+
+/**
+ * Import a YouTube playlist and summarize its videos in a background job
+ * POST /api/playlists
+ *
+ * Responds with the playlist and its job as soon as the playlist's videos
+ * are listed; poll GET /api/playlists/:id for per-video status and the
+ * playlist overview, or GET /api/jobs/:id for the job.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/playlists' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Importing playlist');
+    const body = await req.json();
+
+    const result = importPlaylistSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const playlist = await new PlaylistService().importPlaylist(result.data.url, user.id);
+    const job = await new JobService().submitPlaylistJob(user.id, { playlist_id: playlist.id });
+
+    routeLogger.info('Imported playlist', { id: playlist.id, jobId: job.id, videos: playlist.items.length });
+
+    return NextResponse.json({ data: { ...playlist, job } }, { status: HttpStatus.CREATED });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while importing playlist', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while importing playlist', error as Error);
+    const appError = new AppError(
+      "Failed to import playlist",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
+
+/**
+ * List the user's imported playlists
+ * GET /api/playlists
+ */
+export async function GET(): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/playlists' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Fetching playlists');
+    // Playlists whose job was interrupted are shown as failed
+    await new JobService().failInterruptedJobs(user.id);
+    const playlists = await new PlaylistService().getUserPlaylists(user.id);
+
+    return NextResponse.json({ data: playlists });
+  } catch (error) {
+    routeLogger.error('Error while fetching playlists', error as Error);
+    const appError = error instanceof AppError
+      ? error
+      : new AppError(
+          "Failed to fetch playlists",
+          ErrorCode.API_SERVICE_UNAVAILABLE,
+          HttpStatus.INTERNAL_ERROR,
+          { details: error }
+        );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { LoadingProgress } from "@/lib/types/loading";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { PodcastService } from "@/lib/services/PodcastService";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
+
+// Request validation schema
+const processPodcastSchema = z.object({
+  url: z.string().url(),
+  episode: z.string().optional(),
+  stream: z.boolean().optional(),
+  refresh: z.boolean().optional(),
+});
+
+/**
+ * Summarize a podcast episode
+ * POST /api/podcasts
+ *
+ * `url` may be a podcast RSS feed, an episode page that links to its feed or
+ * the episode's audio file. From a feed the latest episode is summarized
+ * unless `episode` names another one by GUID, page link or audio URL.
+ *
+ * With `stream: true` the response is a server-sent event stream with the
+ * same `progress`, `token`, `summary` and `error` events as
+ * POST /api/videos/process, with `progress` also reporting the transcription.
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  const routeLogger = logger.withContext({ route: 'api/podcasts' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Processing podcast request');
+    const body = await req.json();
+
+    const result = processPodcastSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { url, episode, stream, refresh } = result.data;
+    const podcasts = new PodcastService();
+
+    const processEpisode = async (
+      onToken?: (token: string) => void,
+      onProgress?: (progress: LoadingProgress) => void
+    ) => {
+      routeLogger.info('Processing podcast episode', { url, episode, stream: !!stream, refresh: !!refresh });
+      const summary = await podcasts.processEpisode(url, user.id, { episode, onToken, onProgress, refresh });
+
+      routeLogger.info('Podcast episode processed successfully', {
+        summaryId: summary.id,
+        contentId: summary.video_id
+      });
+      return summary;
+    };
+
+    if (stream) {
+      const events = createEventStream(
+        async send => {
+          const summary = await processEpisode(
+            token => send('token', { text: token }),
+            progress => send('progress', progress)
+          );
+          send('summary', summary);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming podcast summary', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to process podcast episode",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
+
+      return new Response(events, { headers: SSE_HEADERS });
+    }
+
+    const summary = await processEpisode();
+
+    return NextResponse.json({ data: summary });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while processing podcast', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while processing podcast', error as Error);
+    const appError = new AppError(
+      "Failed to process podcast episode",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { readdirSync } from "fs";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { DatabaseService } from "@/lib/services/DatabaseService";
+import { ErrorCode, HttpStatus } from "@/lib/types/errors";
+
+// Requests come without a session unless a test signs a user in
+const session = vi.hoisted(() => ({ userId: null as string | null }));
+vi.mock("@/lib/utils/supabase/server", () => ({
+  createServerSupabaseClient: () => ({
+    auth: {
+      getUser: async () => ({
+        data: { user: session.userId ? { id: session.userId, email: `${session.userId}@example.com`, user_metadata: {} } : null },
+        error: null,
+      }),
+    },
+  }),
+}));
+
+const API_DIR = path.join(process.cwd(), "src/app/api");
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+type RouteHandler = (req: NextRequest, context: { params: Record<string, string> }) => Promise<Response>;
+
+const routeFiles = (readdirSync(API_DIR, { recursive: true }) as string[])
+  .filter(file => path.basename(file) === "route.ts")
+  .sort();
+
+describe("API routes", () => {
+  // Each refused request is logged as an error
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("are found", () => {
+    expect(routeFiles.length).toBeGreaterThan(10);
+  });
+
+  it.each(routeFiles)("%s answers 401 to every method without a session", async file => {
+    const route: Record<string, unknown> = await import(path.join(API_DIR, file));
+    const methods = HTTP_METHODS.filter(method => typeof route[method] === "function");
+    expect(methods.length).toBeGreaterThan(0);
+
+    for (const method of methods) {
+      const handler = route[method] as RouteHandler;
+      const response = await handler(
+        new NextRequest(`http://localhost/api/${path.dirname(file)}?id=1&videoId=dQw4w9WgXcQ`, {
+          method,
+          body: method === "GET" ? undefined : "{}",
+          headers: { "content-type": "application/json" },
+        }),
+        { params: { id: "1" } }
+      );
+
+      expect(response.status, `${method} /api/${path.dirname(file)}`).toBe(HttpStatus.UNAUTHORIZED);
+      expect((await response.json()).error.code).toBe(ErrorCode.AUTH_UNAUTHORIZED);
+    }
+  });
+});
+
+describe("API routes asked for another user's records", () => {
+  const db = new DatabaseService("Test");
+
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    session.userId = null;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Call a route handler as `userId`
+   */
+  async function request(
+    userId: string,
+    file: string,
+    method: string,
+    url: string,
+    options: { body?: object; params?: Record<string, string> } = {}
+  ): Promise<Response> {
+    session.userId = userId;
+    const route: Record<string, unknown> = await import(path.join(API_DIR, file));
+    const handler = route[method] as RouteHandler;
+    return handler(
+      new NextRequest(`http://localhost${url}`, {
+        method,
+        body: options.body ? JSON.stringify(options.body) : undefined,
+        headers: { "content-type": "application/json" },
+      }),
+      { params: options.params || {} }
+    );
+  }
+
+  it("refuses another user's job", async () => {
+    const job = await db.createJob({
+      user_id: "owner",
+      type: "video",
+      input: { url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+      status: "completed",
+      stage: null,
+      error: null,
+      result_id: null,
+      heartbeat_at: null,
+    });
+
+    const response = await request("intruder", "jobs/[id]/route.ts", "GET", `/api/jobs/${job.id}`, {
+      params: { id: job.id },
+    });
+    expect(response.status).toBe(HttpStatus.FORBIDDEN);
+
+    const missing = await request("intruder", "jobs/[id]/route.ts", "GET", "/api/jobs/missing", {
+      params: { id: "missing" },
+    });
+    expect(missing.status).toBe(HttpStatus.NOT_FOUND);
+  });
+
+  it("refuses another user's playlist", async () => {
+    const playlist = await db.createPlaylist({
+      user_id: "owner",
+      playlist_id: "PLprivate",
+      title: "Private playlist",
+      url: "https://www.youtube.com/playlist?list=PLprivate",
+      provider: "youtube",
+      status: "completed",
+      synthesis: null,
+    });
+
+    const response = await request("intruder", "playlists/[id]/route.ts", "GET", `/api/playlists/${playlist.id}`, {
+      params: { id: playlist.id },
+    });
+    expect(response.status).toBe(HttpStatus.FORBIDDEN);
+  });
+
+  it("refuses to delete another user's question", async () => {
+    const question = await db.createContentQuestion({
+      user_id: "owner",
+      content_id: "dQw4w9WgXcQ",
+      question: "What happens?",
+      response: "Something",
+      citations: null,
+    });
+
+    const response = await request(
+      "intruder",
+      "videos/chat/route.ts",
+      "DELETE",
+      `/api/videos/chat?videoId=dQw4w9WgXcQ&id=${question.id}`
+    );
+    expect(response.status).toBe(HttpStatus.FORBIDDEN);
+    expect(await db.getContentQuestions("owner", "dQw4w9WgXcQ")).toHaveLength(1);
+  });
+
+  it("does not update another user's summary of the same video", async () => {
+    const summary = await db.createUserSummary({
+      user_id: "owner",
+      video_id: "dQw4w9WgXcQ",
+      summary: "Private summary",
+      detailed_summary: null,
+      tags: [],
+      content_summary_id: null,
+    });
+
+    const response = await request("intruder", "videos/summaries/update/route.ts", "PUT", "/api/videos/summaries/update", {
+      body: { videoId: "dQw4w9WgXcQ", detailed_summary: "Overwritten" },
+    });
+    expect(response.status).toBe(HttpStatus.NOT_FOUND);
+    expect((await db.findUserSummaryById("owner", summary.id))?.detailed_summary).toBeNull();
+  });
+});
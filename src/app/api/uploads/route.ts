@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { LoadingProgress } from "@/lib/types/loading";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { UploadService } from "@/lib/services/UploadService";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
+
+// Request validation schema, applied to the multipart form fields
+const uploadSchema = z.object({
+  file: z.instanceof(File),
+  title: z.string().max(200).optional(),
+  stream: z.boolean(),
+  refresh: z.boolean(),
+});
+
+/**
+ * Transcribe and summarize an uploaded audio or video file
+ * POST /api/uploads
+ *
+ * Expects multipart form data with a `file` (mp3, m4a, wav or mp4) and an
+ * optional `title`. Files over the Whisper size limit are transcribed in parts.
+ *
+ * With `stream=true` the response is a server-sent event stream: `progress`
+ * events report the transcription, followed by the `token`, `summary` and
+ * `error` events of POST /api/videos/process.
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  const routeLogger = logger.withContext({ route: 'api/uploads' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Processing upload request');
+    const form = await req.formData();
+
+    const result = uploadSchema.safeParse({
+      file: form.get('file'),
+      title: form.get('title') ?? undefined,
+      stream: form.get('stream') === 'true',
+      refresh: form.get('refresh') === 'true',
+    });
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { file, title, stream, refresh } = result.data;
+    const uploads = new UploadService();
+
+    const processUpload = async (
+      onToken?: (token: string) => void,
+      onProgress?: (progress: LoadingProgress) => void
+    ) => {
+      routeLogger.info('Processing upload', { name: file.name, size: file.size, stream, refresh });
+      const summary = await uploads.processUpload(file, user.id, { title, onToken, onProgress, refresh });
+
+      routeLogger.info('Upload processed successfully', {
+        summaryId: summary.id,
+        contentId: summary.video_id
+      });
+      return summary;
+    };
+
+    if (stream) {
+      const events = createEventStream(
+        async send => {
+          const summary = await processUpload(
+            token => send('token', { text: token }),
+            progress => send('progress', progress)
+          );
+          send('summary', summary);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming upload summary', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to process upload",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
+
+      return new Response(events, { headers: SSE_HEADERS });
+    }
+
+    const summary = await processUpload();
+
+    return NextResponse.json({ data: summary });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while processing upload', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while processing upload', error as Error);
+    const appError = new AppError(
+      "Failed to process upload",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { LoadingProgress } from "@/lib/types/loading";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { UploadService } from "@/lib/services/UploadService";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
+
+// Request validation schema, applied to the multipart form fields
+const importSubtitlesSchema = z.object({
+  file: z.instanceof(File),
+  title: z.string().max(200).optional(),
+  stream: z.boolean(),
+  refresh: z.boolean(),
+});
+
+/**
+ * Import an SRT or WebVTT subtitle file as a transcript and summarize it
+ * POST /api/uploads/subtitles
+ *
+ * Expects multipart form data with a `file` (srt or vtt) and an optional
+ * `title`. No network fetch is made besides the summary and tag generation.
+ *
+ * With `stream=true` the response is a server-sent event stream with the
+ * `progress`, `token`, `summary` and `error` events of POST /api/videos/process.
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  const routeLogger = logger.withContext({ route: 'api/uploads/subtitles' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Processing subtitle import request');
+    const form = await req.formData();
+
+    const result = importSubtitlesSchema.safeParse({
+      file: form.get('file'),
+      title: form.get('title') ?? undefined,
+      stream: form.get('stream') === 'true',
+      refresh: form.get('refresh') === 'true',
+    });
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { file, title, stream, refresh } = result.data;
+    const uploads = new UploadService();
+
+    const importSubtitles = async (
+      onToken?: (token: string) => void,
+      onProgress?: (progress: LoadingProgress) => void
+    ) => {
+      routeLogger.info('Importing subtitles', { name: file.name, size: file.size, stream, refresh });
+      const summary = await uploads.importSubtitles(file, user.id, { title, onToken, onProgress, refresh });
+
+      routeLogger.info('Subtitles imported successfully', {
+        summaryId: summary.id,
+        contentId: summary.video_id
+      });
+      return summary;
+    };
+
+    if (stream) {
+      const events = createEventStream(
+        async send => {
+          const summary = await importSubtitles(
+            token => send('token', { text: token }),
+            progress => send('progress', progress)
+          );
+          send('summary', summary);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming subtitle summary', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to import subtitles",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
+
+      return new Response(events, { headers: SSE_HEADERS });
+    }
+
+    const summary = await importSubtitles();
+
+    return NextResponse.json({ data: summary });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while importing subtitles', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while importing subtitles', error as Error);
+    const appError = new AppError(
+      "Failed to import subtitles",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { VideoChatService } from "@/lib/services/VideoChatService";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+
+// Request validation schema
+const videoChatSchema = z.object({
+  videoId: z.string().min(1),
+  question: z.string().trim().min(1).max(4000),
+});
+
+/**
+ * Build the JSON error response for a failed request
+ */
+function errorResponse(error: unknown, message: string): NextResponse {
+  const appError = error instanceof AppError
+    ? error
+    : new AppError(
+        message,
+        ErrorCode.API_SERVICE_UNAVAILABLE,
+        HttpStatus.INTERNAL_ERROR,
+        { details: error }
+      );
+  return NextResponse.json(
+    { error: appError.toResponse() },
+    { status: appError.statusCode }
+  );
+}
+
+/**
+ * Get the videoId query parameter or fail validation
+ */
+function requireVideoId(req: NextRequest): string {
+  const videoId = req.nextUrl.searchParams.get('videoId');
+  if (!videoId) {
+    throw new AppError(
+      "Video ID is required",
+      ErrorCode.VALIDATION_REQUIRED_FIELD,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+  return videoId;
+}
+
+/**
+ * Answer a question about a video from its transcript
+ * POST /api/videos/chat
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/videos/chat' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Answering video question');
+    const body = await req.json();
+
+    const result = videoChatSchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { videoId, question } = result.data;
+    const chat = new VideoChatService();
+    const answer = await chat.askQuestion(videoId, user.id, question);
+
+    routeLogger.info('Successfully answered video question', { videoId });
+
+    return NextResponse.json({ data: answer });
+  } catch (error) {
+    routeLogger.error('Error while answering question', error as Error);
+    return errorResponse(error, "Failed to answer question");
+  }
+}
+
+/**
+ * List the earlier questions about a video
+ * GET /api/videos/chat?videoId=...
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/videos/chat' });
+
+  try {
+    const user = await requireUser();
+    const videoId = requireVideoId(req);
+    routeLogger.info('Fetching video questions', { videoId });
+
+    const chat = new VideoChatService();
+    const history = await chat.getHistory(videoId, user.id);
+
+    return NextResponse.json({ data: history });
+  } catch (error) {
+    routeLogger.error('Error while fetching video questions', error as Error);
+    return errorResponse(error, "Failed to fetch questions");
+  }
+}
+
+/**
+ * Delete one question, or the whole conversation when no id is given
+ * DELETE /api/videos/chat?videoId=...&id=...
+ */
+export async function DELETE(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/videos/chat' });
+
+  try {
+    const user = await requireUser();
+    const videoId = requireVideoId(req);
+    const questionId = req.nextUrl.searchParams.get('id');
+    routeLogger.info('Deleting video questions', { videoId, questionId });
+
+    const chat = new VideoChatService();
+    if (questionId) {
+      await chat.deleteContentQuestion(user.id, questionId);
+    } else {
+      await chat.deleteContentQuestions(user.id, videoId);
+    }
+
+    return NextResponse.json({ data: { deleted: questionId || videoId } });
+  } catch (error) {
+    routeLogger.error('Error while deleting video questions', error as Error);
+    return errorResponse(error, "Failed to delete questions");
+  }
+}
\ No newline at end of file
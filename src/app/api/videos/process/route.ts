@@ -1,32 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
-import { OpenAIService } from "@/lib/services/openai";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { LoadingProgress } from "@/lib/types/loading";
 import { z } from "zod";
 import { logger } from "@/lib/utils/logger";
-import { DatabaseService } from "@/lib/services/DatabaseService";
+import { requireUser } from "@/lib/utils/auth";
+import { VideoProcessingService } from "@/lib/services/VideoProcessingService";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
 
 // Request validation schema
 const processVideoSchema = z.object({
   url: z.string().url(),
   detailed_summary: z.string().optional(),
+  stream: z.boolean().optional(),
+  refresh: z.boolean().optional(),
 });
 
 /**
  * Process a video URL
  * POST /api/videos/process
+ *
+ * With `stream: true` the response is a server-sent event stream:
+ * `progress` events report each stage (fetching the transcript, each chunk
+ * summarized, generating tags, saving), `token` events carry summary text as
+ * it is generated, and a final `summary` event holds the saved record, or an
+ * `error` event the failure.
+ *
+ * A video that was already summarized reuses the shared summary;
+ * `refresh: true` regenerates it.
  */
-export async function POST(req: NextRequest): Promise<NextResponse> {
+export async function POST(req: NextRequest): Promise<Response> {
   const routeLogger = logger.withContext({ route: 'api/videos/process' });
-  
+
   try {
+    const user = await requireUser();
     routeLogger.info('Processing video request');
     const body = await req.json();
-    
+
     routeLogger.info('Validating request body', { body });
     const result = processVideoSchema.safeParse(body);
     if (!result.success) {
-      routeLogger.warn('Invalid request data', { 
-        errors: result.error.format() 
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
       });
       throw new AppError(
         "Invalid request data",
@@ -36,70 +50,53 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Process video using OpenAI service
-    routeLogger.info('Processing video', { url: result.data.url });
-    const openai = new OpenAIService();
-    const videoSummary = await openai.processYouTubeVideo(result.data.url);
+    const { url, detailed_summary, stream, refresh } = result.data;
+    const videoProcessing = new VideoProcessingService();
 
-    // Get video metadata from YouTube oEmbed
-    const oembedResponse = await fetch(
-      `https://www.youtube.com/oembed?url=${encodeURIComponent(result.data.url)}&format=json`
-    );
-    if (!oembedResponse.ok) {
-      throw new AppError(
-        "Failed to fetch video metadata",
-        ErrorCode.API_SERVICE_UNAVAILABLE,
-        HttpStatus.INTERNAL_ERROR
-      );
-    }
-    const videoData = await oembedResponse.json();
+    const processVideo = async (
+      onToken?: (token: string) => void,
+      onProgress?: (progress: LoadingProgress) => void
+    ) => {
+      routeLogger.info('Processing video', { url, stream: !!stream, refresh: !!refresh });
+      let summary = await videoProcessing.processVideo(url, user.id, { onToken, onProgress, refresh });
 
-    // Store the summary in the database
-    const db = new DatabaseService('VideoProcessing');
-    
-    // Create or update channel
-    const channelId = videoSummary.channelId || 'anonymous';
-    await db.upsertChannel({
-      id: channelId,
-      name: videoData.author_name || 'Unknown Channel',
-      url: videoData.author_url || '',
-      subscriber_count: 0,
-    });
+      if (detailed_summary) {
+        summary = await videoProcessing.updateUserSummary(user.id, summary.id, { detailed_summary });
+      }
 
-    // Create video record if it doesn't exist
-    const existingVideo = await db.findVideoById(videoSummary.videoId);
-    if (!existingVideo) {
-      await db.createVideo({
-        id: videoSummary.videoId,
-        channel_id: channelId,
-        unique_identifier: videoSummary.videoId,
-        title: videoData.title || 'Unknown',
-        url: result.data.url,
-        transcript_path: `transcripts/${videoSummary.videoId}.json`,
-        language: 'en',
-        metadata: {
-          author_name: videoData.author_name,
-          author_url: videoData.author_url,
-          thumbnail_url: videoData.thumbnail_url
-        },
-        published_at: new Date().toISOString(),
-        last_updated: new Date().toISOString(),
+      routeLogger.info('Video processed successfully', {
+        summaryId: summary.id,
+        videoId: summary.video_id
       });
-    }
+      return summary;
+    };
+
+    if (stream) {
+      const events = createEventStream(
+        async send => {
+          const summary = await processVideo(
+            token => send('token', { text: token }),
+            progress => send('progress', progress)
+          );
+          send('summary', summary);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming video summary', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to process video",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
 
-    // Create the summary
-    const summary = await db.createUserSummary({
-      user_id: 'anonymous',
-      video_id: videoSummary.videoId,
-      summary: videoSummary.summary,
-      detailed_summary: result.data.detailed_summary || videoSummary.detailed_summary,
-      tags: videoSummary.tags,
-    });
+      return new Response(events, { headers: SSE_HEADERS });
+    }
 
-    routeLogger.info('Video processed successfully', { 
-      summaryId: summary.id,
-      videoId: videoSummary.videoId 
-    });
+    const summary = await processVideo();
 
     return NextResponse.json({ data: summary });
   } catch (error) {
@@ -110,7 +107,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
         { status: error.statusCode }
       );
     }
-    
+
     routeLogger.error('Unexpected error while processing video', error as Error);
     const appError = new AppError(
       "Failed to process video",
@@ -123,4 +120,4 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       { status: appError.statusCode }
     );
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
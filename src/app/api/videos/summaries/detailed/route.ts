@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { VideoProcessingService } from "@/lib/services/VideoProcessingService";
+import { z } from "zod";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { createEventStream, SSE_HEADERS } from "@/lib/utils/sse";
+
+// Request validation schema
+const detailedSummarySchema = z.object({
+  videoId: z.string().min(1),
+  stream: z.boolean().optional(),
+});
+
+/**
+ * Get the detailed summary of a video, generating it from the stored
+ * transcript on first request and returning the saved one afterwards
+ * POST /api/videos/summaries/detailed
+ *
+ * With `stream: true` the response is a server-sent event stream of
+ * `token` events followed by a `summary` event or an `error` event.
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  const routeLogger = logger.withContext({ route: 'api/videos/summaries/detailed' });
+
+  try {
+    const user = await requireUser();
+    routeLogger.info('Getting detailed summary');
+    const body = await req.json();
+
+    routeLogger.info('Validating request body', { body });
+    const result = detailedSummarySchema.safeParse(body);
+    if (!result.success) {
+      routeLogger.warn('Invalid request data', {
+        errors: result.error.format()
+      });
+      throw new AppError(
+        "Invalid request data",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { details: result.error.format() }
+      );
+    }
+
+    const { videoId, stream } = result.data;
+    const videoProcessing = new VideoProcessingService();
+
+    if (stream) {
+      const events = createEventStream(
+        async send => {
+          const summary = await videoProcessing.getDetailedSummary(
+            videoId,
+            user.id,
+            token => send('token', { text: token })
+          );
+          send('summary', summary);
+        },
+        (error, send) => {
+          routeLogger.error('Error while streaming detailed summary', error as Error);
+          const appError = error instanceof AppError
+            ? error
+            : new AppError(
+                "Failed to generate detailed summary",
+                ErrorCode.API_SERVICE_UNAVAILABLE,
+                HttpStatus.INTERNAL_ERROR
+              );
+          send('error', appError.toResponse());
+        }
+      );
+
+      return new Response(events, { headers: SSE_HEADERS });
+    }
+
+    const summary = await videoProcessing.getDetailedSummary(videoId, user.id);
+
+    routeLogger.info('Successfully got detailed summary', {
+      summaryId: summary.id
+    });
+
+    return NextResponse.json({ data: summary });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while getting detailed summary', error);
+      return NextResponse.json(
+        { error: error.toResponse() },
+        { status: error.statusCode }
+      );
+    }
+
+    routeLogger.error('Unexpected error while getting detailed summary', error as Error);
+    const appError = new AppError(
+      "Failed to generate detailed summary",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
+    return NextResponse.json(
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
+    );
+  }
+}
\ No newline at end of file
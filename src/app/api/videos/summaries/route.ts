@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { DatabaseService } from "@/lib/services/DatabaseService";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
 import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
 
 /**
  * Get user's video summaries
@@ -11,9 +12,10 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
   const routeLogger = logger.withContext({ route: 'api/videos/summaries' });
 
   try {
+    const user = await requireUser();
     routeLogger.info('Fetching user summaries');
     const db = new DatabaseService('Summaries');
-    const summaries = await db.getUserSummaries('anonymous');
+    const summaries = await db.getUserSummaries(user.id);
     const videos = await Promise.all(
       summaries.map(async (summary) => {
         const video = await db.findVideoById(summary.video_id);
@@ -22,7 +24,8 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
           videos: {
             title: video?.title || 'Unknown Title',
             url: video?.url || '',
-            channel: { name: 'Anonymous Channel' }
+            content_type: video?.content_type || 'video',
+            channel: { name: video?.channel?.name || 'Anonymous Channel' }
           },
           created_at: summary.created_at || new Date().toISOString()
         };
@@ -3,6 +3,7 @@ import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
 import { DatabaseService } from "@/lib/services/DatabaseService";
 import { z } from "zod";
 import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
 
 // Request validation schema
 const updateSummarySchema = z.object({
@@ -18,6 +19,7 @@ export async function PUT(req: NextRequest): Promise<NextResponse> {
   const routeLogger = logger.withContext({ route: 'api/videos/summaries/update' });
   
   try {
+    const user = await requireUser();
     routeLogger.info('Updating video summary');
     const body = await req.json();
     
@@ -39,7 +41,7 @@ export async function PUT(req: NextRequest): Promise<NextResponse> {
 
     // Get the summary for this video
     const db = new DatabaseService('Summaries');
-    const summary = await db.findSummaryByVideoId(videoId, 'anonymous');
+    const summary = await db.findSummaryByVideoId(videoId, user.id);
 
     if (!summary) {
       throw new AppError(
@@ -50,7 +52,7 @@ export async function PUT(req: NextRequest): Promise<NextResponse> {
     }
 
     // Update the summary
-    const updatedSummary = await db.updateUserSummary(summary.id, {
+    const updatedSummary = await db.updateUserSummary(user.id, summary.id, {
       detailed_summary,
     });
 
@@ -1,61 +1,57 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from "next/server";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { OpenAIService } from "@/lib/services/openai";
+import { createTranscriptService } from "@/lib/services/TranscriptService";
+import { logger } from "@/lib/utils/logger";
+import { requireUser } from "@/lib/utils/auth";
+import { segmentsToText } from "@/lib/utils/transcript";
+
+/**
+ * Fetch the transcript of a YouTube video
+ * GET /api/youtube/transcript?videoId=...
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'api/youtube/transcript' });
 
-export async function GET(request: Request) {
   try {
-    const { searchParams } = new URL(request.url);
-    const videoId = searchParams.get('videoId');
-
+    await requireUser();
+    const videoId = req.nextUrl.searchParams.get('videoId');
     if (!videoId) {
-      return NextResponse.json({ error: 'Video ID is required' }, { status: 400 });
+      throw new AppError(
+        "Video ID is required",
+        ErrorCode.VALIDATION_REQUIRED_FIELD,
+        HttpStatus.BAD_REQUEST
+      );
     }
 
-    const response = await fetch(
-      `https://youtube-transcript3.p.rapidapi.com/api/transcript?videoId=${videoId}`,
-      {
-        headers: {
-          'x-rapidapi-host': 'youtube-transcript3.p.rapidapi.com',
-          'x-rapidapi-key': 'fb3f0acafdmsh409d48594da062ap1b22e3jsn034f696e4c63',
-        },
-      },
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-
-      // Handle specific error cases
-      if (response.status === 404) {
-        return NextResponse.json(
-          {
-            error:
-              'No transcript available for this video. This might be a live stream or a video without captions.',
-          },
-          { status: 404 },
-        );
-      }
+    routeLogger.info('Fetching transcript', { videoId });
+    const transcriptService = createTranscriptService(new OpenAIService());
+    const { segments, provider } = await transcriptService.fetchTranscript(videoId);
 
-      if (errorData.message) {
-        return NextResponse.json({ error: errorData.message }, { status: response.status });
-      }
+    routeLogger.info('Successfully fetched transcript', { videoId, provider });
 
-      throw new Error('Failed to fetch transcript');
-    }
-
-    const data = await response.json();
-
-    // Additional validation for empty transcripts
-    if (!data || (Array.isArray(data) && data.length === 0)) {
+    return NextResponse.json({
+      data: { videoId, provider, segments, transcript: segmentsToText(segments) }
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      routeLogger.error('Application error while fetching transcript', error);
       return NextResponse.json(
-        { error: 'No transcript content available for this video' },
-        { status: 404 },
+        { error: error.toResponse() },
+        { status: error.statusCode }
       );
     }
 
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error fetching transcript:', error);
+    routeLogger.error('Unexpected error while fetching transcript', error as Error);
+    const appError = new AppError(
+      "Failed to fetch transcript",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      HttpStatus.INTERNAL_ERROR,
+      { details: error }
+    );
     return NextResponse.json(
-      { error: 'Failed to fetch transcript. Please try again later.' },
-      { status: 500 },
+      { error: appError.toResponse() },
+      { status: appError.statusCode }
     );
   }
 }
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ensureProfile } from "@/lib/utils/auth";
+import { logger } from "@/lib/utils/logger";
+import { createServerSupabaseClient } from "@/lib/utils/supabase/server";
+import { getSafeNextPath } from "@/lib/utils/url";
+
+/**
+ * Complete a sign-in from an email confirmation link
+ * GET /auth/callback?code=...&next=/path
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'auth/callback' });
+  const code = req.nextUrl.searchParams.get("code");
+  const next = getSafeNextPath(req.nextUrl.searchParams.get("next"), req.nextUrl.origin);
+
+  if (code) {
+    try {
+      const { data, error } = await createServerSupabaseClient().auth.exchangeCodeForSession(code);
+      if (!error && data.user) {
+        await ensureProfile(data.user);
+        return NextResponse.redirect(new URL(next, req.url));
+      }
+      routeLogger.warn('Failed to exchange auth code', { error: error?.message });
+    } catch (error) {
+      routeLogger.error('Unexpected error while completing sign-in', error as Error);
+    }
+  }
+
+  return NextResponse.redirect(new URL("/login?error=confirmation", req.url));
+}
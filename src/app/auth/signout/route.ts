@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { createServerSupabaseClient } from "@/lib/utils/supabase/server";
+
+/**
+ * Sign out and clear the session cookies
+ * POST /auth/signout
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const routeLogger = logger.withContext({ route: 'auth/signout' });
+
+  try {
+    await createServerSupabaseClient().auth.signOut();
+  } catch (error) {
+    routeLogger.error('Failed to sign out', error as Error);
+  }
+
+  return NextResponse.redirect(new URL("/login", req.url), { status: 303 });
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { createBrowserSupabaseClient } from '@/lib/utils/supabase/client';
+import { logger } from '@/lib/utils/logger';
+import { getSafeNextPath } from '@/lib/utils/url';
+
+interface AuthFormProps {
+  mode: 'signin' | 'signup';
+}
+
+/**
+ * Page to return to after signing in, taken from the `next` query parameter
+ */
+const getNextPath = (): string =>
+  getSafeNextPath(new URLSearchParams(window.location.search).get('next'), window.location.origin);
+
+const inputClassName =
+  'w-full p-4 text-gray-700 bg-white rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 border border-purple-100 placeholder-gray-400';
+
+export default function AuthForm({ mode }: AuthFormProps) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmationSent, setConfirmationSent] = useState(false);
+  const [confirmationFailed, setConfirmationFailed] = useState(false);
+  const router = useRouter();
+  const toast = useToast();
+  const isSignUp = mode === 'signup';
+
+  // Set by /auth/callback when a confirmation link could not be used
+  useEffect(() => {
+    setConfirmationFailed(new URLSearchParams(window.location.search).get('error') === 'confirmation');
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const supabase = createBrowserSupabaseClient();
+      const next = getNextPath();
+
+      if (isSignUp) {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: {
+            data: { name: name.trim() || undefined },
+            emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`,
+          },
+        });
+        if (error) throw error;
+
+        // Without a session the address has to be confirmed first
+        if (!data.session) {
+          setConfirmationSent(true);
+          return;
+        }
+      } else {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      }
+
+      router.push(next);
+      router.refresh();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error(isSignUp ? 'Failed to sign up' : 'Failed to sign in', err);
+      toast.error(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (confirmationSent) {
+    return (
+      <div className='w-full max-w-md mx-auto bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20 text-center'>
+        <h2 className='text-2xl font-semibold text-gray-800 mb-4'>Check your email</h2>
+        <p className='text-gray-600'>
+          We sent a confirmation link to {email}. Follow it to finish creating your account.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className='w-full max-w-md mx-auto'>
+      <form
+        onSubmit={handleSubmit}
+        className='bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20 space-y-4'>
+        {confirmationFailed && (
+          <p className='text-sm text-red-600'>
+            That confirmation link is invalid or has expired. Sign in, or sign up again for a new link.
+          </p>
+        )}
+        {isSignUp && (
+          <input
+            type='text'
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder='Name (optional)'
+            autoComplete='name'
+            className={inputClassName}
+            disabled={isSubmitting}
+          />
+        )}
+        <input
+          type='email'
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder='Email'
+          autoComplete='email'
+          required
+          className={inputClassName}
+          disabled={isSubmitting}
+        />
+        <input
+          type='password'
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          placeholder='Password'
+          autoComplete={isSignUp ? 'new-password' : 'current-password'}
+          minLength={6}
+          required
+          className={inputClassName}
+          disabled={isSubmitting}
+        />
+        <button
+          type='submit'
+          disabled={isSubmitting || !email || !password}
+          className={`w-full px-8 py-3 rounded-xl text-lg font-medium transition-all duration-300 ${
+            !isSubmitting && email && password
+              ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:shadow-lg hover:-translate-y-0.5'
+              : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+          }`}>
+          {isSubmitting ? 'Please wait...' : isSignUp ? 'Create account' : 'Sign in'}
+        </button>
+      </form>
+      <p className='text-center text-gray-600 mt-6'>
+        {isSignUp ? 'Already have an account? ' : 'New here? '}
+        <Link
+          href={isSignUp ? '/login' : '/signup'}
+          className='text-purple-600 hover:text-purple-700 font-medium'>
+          {isSignUp ? 'Sign in' : 'Create an account'}
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { LoadingProgress } from '@/lib/types/loading';
+import {
+  MAX_SUBTITLE_BYTES,
+  MAX_UPLOAD_BYTES,
+  SUBTITLE_EXTENSIONS,
+  UPLOAD_EXTENSIONS,
+} from '@/lib/types/upload';
+
+interface FileDropZoneProps {
+  onFileSelect: (file: File) => void;
+  onError: (error: string) => void;
+  isLoading: boolean;
+  progress?: LoadingProgress | null;
+}
+
+const ACCEPT = [...UPLOAD_EXTENSIONS, ...SUBTITLE_EXTENSIONS].map(extension => `.${extension}`).join(',');
+
+export default function FileDropZone({ onFileSelect, onError, isLoading, progress }: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const selectFile = (file: File | undefined) => {
+    if (!file || isLoading) return;
+
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const isSubtitles = SUBTITLE_EXTENSIONS.includes(extension);
+    if (!isSubtitles && !UPLOAD_EXTENSIONS.includes(extension)) {
+      onError('Please choose an mp3, m4a, wav, mp4, srt or vtt file');
+      return;
+    }
+    const maxBytes = isSubtitles ? MAX_SUBTITLE_BYTES : MAX_UPLOAD_BYTES;
+    if (file.size > maxBytes) {
+      const kind = isSubtitles ? 'Subtitle files' : 'Audio and video files';
+      onError(`${kind} can be at most ${Math.round(maxBytes / (1024 * 1024))} MB`);
+      return;
+    }
+    onFileSelect(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className='w-full max-w-3xl mx-auto mt-6'>
+      <div
+        role='button'
+        tabIndex={0}
+        onClick={() => !isLoading && inputRef.current?.click()}
+        onKeyDown={e => {
+          if ((e.key === 'Enter' || e.key === ' ') && !isLoading) inputRef.current?.click();
+        }}
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`bg-white/70 backdrop-blur-sm rounded-2xl p-6 border-2 border-dashed text-center transition-all duration-200 ${
+          isLoading
+            ? 'border-gray-200 cursor-not-allowed'
+            : isDragging
+              ? 'border-purple-500 bg-purple-50/70 cursor-pointer'
+              : 'border-purple-200 hover:border-purple-400 cursor-pointer'
+        }`}>
+        <input
+          ref={inputRef}
+          type='file'
+          accept={ACCEPT}
+          className='hidden'
+          disabled={isLoading}
+          onChange={e => {
+            selectFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        {progress ? (
+          <div>
+            <p className='text-gray-700 font-medium mb-3'>{progress.message}</p>
+            {progress.progress !== undefined && (
+              <div className='h-2 bg-purple-100 rounded-full overflow-hidden'>
+                <div
+                  className='h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-all duration-300'
+                  style={{ width: `${progress.progress}%` }}
+                />
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <p className='text-gray-700 font-medium'>
+              Drop an audio, video or subtitle file here, or click to choose one
+            </p>
+            <p className='text-sm text-gray-500 mt-1'>
+              mp3, m4a, wav or mp4 up to {Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))} MB, or srt and vtt captions
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
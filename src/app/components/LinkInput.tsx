@@ -1,6 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import {
+  buildChannelPageUrl,
+  buildPlaylistUrl,
+  buildVideoUrl,
+  parseYouTubeUrl,
+} from '@/lib/utils/youtube';
+import { parsePodcastUrl } from '@/lib/utils/podcast';
 
 interface LinkInputProps {
   onSubmit: (url: string) => void;
@@ -11,20 +18,25 @@ export default function LinkInput({ onSubmit, isLoading }: LinkInputProps) {
   const [url, setUrl] = useState('');
   const [isValid, setIsValid] = useState(false);
 
-  const validateYouTubeUrl = (url: string) => {
-    const pattern =
-      /^(https?:\/\/)?(www\.)?(youtube\.com\/(watch\?v=|live\/|shorts\/|channel\/)|youtu\.be\/).+/;
-    return pattern.test(url);
-  };
-
   useEffect(() => {
-    setIsValid(validateYouTubeUrl(url));
+    setIsValid(parseYouTubeUrl(url) !== null || parsePodcastUrl(url) !== null);
   }, [url]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isValid && !isLoading) {
-      onSubmit(url);
+    if (isLoading) return;
+    const parsed = parseYouTubeUrl(url);
+
+    if (!parsed) {
+      // Anything else is a podcast feed, episode page, audio file or article
+      const podcastUrl = parsePodcastUrl(url);
+      if (podcastUrl) onSubmit(podcastUrl);
+    } else if (parsed.type === 'video') {
+      onSubmit(buildVideoUrl(parsed.videoId));
+    } else if (parsed.type === 'playlist') {
+      onSubmit(buildPlaylistUrl(parsed.playlistId));
+    } else {
+      onSubmit(buildChannelPageUrl(parsed));
     }
   };
 
@@ -39,7 +51,7 @@ export default function LinkInput({ onSubmit, isLoading }: LinkInputProps) {
                 type='text'
                 value={url}
                 onChange={e => setUrl(e.target.value)}
-                placeholder='Enter YouTube video or channel link'
+                placeholder='Enter YouTube video, playlist, channel, podcast or article link'
                 className='w-full p-4 text-lg text-gray-700 bg-white rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 border border-purple-100 placeholder-gray-400 transition-all duration-200'
                 disabled={isLoading}
               />
@@ -56,7 +68,7 @@ export default function LinkInput({ onSubmit, isLoading }: LinkInputProps) {
             <div className='h-8 mt-2'>
               {url && !isValid && (
                 <p className='text-sm text-red-500'>
-                  Please enter a valid YouTube video or channel URL
+                  Please enter a valid YouTube video, playlist, channel, podcast or article URL
                 </p>
               )}
             </div>
@@ -1,29 +1,65 @@
 'use client';
 
-export default function LoadingCard() {
+import { LoadingState } from '@/lib/types/loading';
+
+interface LoadingCardProps {
+  // What is being worked on, shown in place of the title
+  title?: string;
+  // The operation's current stage and progress
+  operation?: LoadingState;
+}
+
+export default function LoadingCard({ title, operation }: LoadingCardProps) {
+  const percent =
+    operation?.progress !== undefined ? Math.round(Math.min(100, Math.max(0, operation.progress))) : undefined;
+
   return (
-    <div className="animate-pulse bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20">
-      {/* Title skeleton */}
-      <div className="h-6 bg-gray-200 rounded w-3/4 mb-4"></div>
-      
-      {/* Channel and date skeleton */}
-      <div className="flex gap-4 mb-6">
-        <div className="h-4 bg-gray-200 rounded w-1/4"></div>
-        <div className="h-4 bg-gray-200 rounded w-1/6"></div>
-      </div>
-      
-      {/* Summary skeleton */}
-      <div className="space-y-3 mb-6">
-        <div className="h-4 bg-gray-200 rounded w-full"></div>
-        <div className="h-4 bg-gray-200 rounded w-5/6"></div>
-        <div className="h-4 bg-gray-200 rounded w-4/6"></div>
-      </div>
-      
-      {/* Tags skeleton */}
-      <div className="flex gap-2">
-        <div className="h-6 bg-gray-200 rounded w-16"></div>
-        <div className="h-6 bg-gray-200 rounded w-20"></div>
-        <div className="h-6 bg-gray-200 rounded w-24"></div>
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20">
+      {/* Stage and progress */}
+      {operation?.message && (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm text-purple-700 font-medium mb-2">
+            <span>{operation.message}</span>
+            {percent !== undefined && <span className="tabular-nums">{percent}%</span>}
+          </div>
+          <div className="h-1.5 bg-purple-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full bg-purple-500 transition-all duration-300 ease-out ${
+                percent === undefined ? 'w-1/3 animate-pulse' : ''
+              }`}
+              style={percent !== undefined ? { width: `${percent}%` } : undefined}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="animate-pulse">
+        {/* Title skeleton */}
+        {title ? (
+          <p className="text-lg font-medium text-gray-700 mb-4 truncate">{title}</p>
+        ) : (
+          <div className="h-6 bg-gray-200 rounded w-3/4 mb-4"></div>
+        )}
+
+        {/* Channel and date skeleton */}
+        <div className="flex gap-4 mb-6">
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/6"></div>
+        </div>
+
+        {/* Summary skeleton */}
+        <div className="space-y-3 mb-6">
+          <div className="h-4 bg-gray-200 rounded w-full"></div>
+          <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          <div className="h-4 bg-gray-200 rounded w-4/6"></div>
+        </div>
+
+        {/* Tags skeleton */}
+        <div className="flex gap-2">
+          <div className="h-6 bg-gray-200 rounded w-16"></div>
+          <div className="h-6 bg-gray-200 rounded w-20"></div>
+          <div className="h-6 bg-gray-200 rounded w-24"></div>
+        </div>
       </div>
     </div>
   );
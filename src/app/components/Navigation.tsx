@@ -1,10 +1,26 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { clearSummariesCache } from '@/lib/utils/summariesCache';
+import { createBrowserSupabaseClient, isAuthConfigured } from '@/lib/utils/supabase/client';
 
 export default function Navigation() {
   const pathname = usePathname();
+  const [email, setEmail] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthConfigured()) return;
+
+    const supabase = createBrowserSupabaseClient();
+    supabase.auth.getUser().then(({ data }) => setEmail(data.user?.email ?? null));
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') clearSummariesCache();
+      setEmail(session?.user.email ?? null);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
 
   return (
     <nav className='sticky top-0 z-50 bg-white/80 backdrop-blur-sm border-b border-purple-100/20'>
@@ -37,6 +53,48 @@ export default function Navigation() {
                 }`}>
                 Past Summaries
               </Link>
+              <Link
+                href='/playlists'
+                className={`inline-flex items-center px-4 py-2 text-sm font-medium border-b-2 transition-all duration-200 ${
+                  pathname.startsWith('/playlists')
+                    ? 'border-purple-500 text-purple-600'
+                    : 'border-transparent text-gray-500 hover:text-purple-600 hover:border-purple-300'
+                }`}>
+                Playlists
+              </Link>
+              <Link
+                href='/import'
+                className={`inline-flex items-center px-4 py-2 text-sm font-medium border-b-2 transition-all duration-200 ${
+                  pathname === '/import'
+                    ? 'border-purple-500 text-purple-600'
+                    : 'border-transparent text-gray-500 hover:text-purple-600 hover:border-purple-300'
+                }`}>
+                Import
+              </Link>
+              {email ? (
+                <form
+                  action='/auth/signout'
+                  method='post'
+                  onSubmit={clearSummariesCache}
+                  className='inline-flex items-center gap-3'>
+                  <span className='text-sm text-gray-500 truncate max-w-[12rem]'>{email}</span>
+                  <button
+                    type='submit'
+                    className='text-sm font-medium text-purple-600 hover:text-purple-700'>
+                    Sign out
+                  </button>
+                </form>
+              ) : (
+                <Link
+                  href='/login'
+                  className={`inline-flex items-center px-4 py-2 text-sm font-medium border-b-2 transition-all duration-200 ${
+                    pathname === '/login' || pathname === '/signup'
+                      ? 'border-purple-500 text-purple-600'
+                      : 'border-transparent text-gray-500 hover:text-purple-600 hover:border-purple-300'
+                  }`}>
+                  Sign in
+                </Link>
+              )}
             </div>
           </div>
         </div>
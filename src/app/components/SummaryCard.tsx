@@ -4,6 +4,16 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { logger } from '@/lib/utils/logger';
 import { useToast } from '@/lib/contexts/ToastContext';
 import { ToastVariant } from '@/lib/types/toast';
+import { readEventStream } from '@/lib/utils/sse';
+import VideoChat from './VideoChat';
+import { ContentType } from '@/lib/types/database';
+
+const LINK_LABELS: Record<ContentType, string> = {
+  video: 'Watch Video',
+  podcast: 'Listen to Episode',
+  upload: 'Watch Video',
+  article: 'Read Article',
+};
 
 interface SummaryCardProps {
   title: string;
@@ -13,6 +23,8 @@ interface SummaryCardProps {
   videoUrl: string;
   tags?: string[];
   videoId: string;
+  contentType?: ContentType;
+  isStreaming?: boolean;
 }
 
 export default function SummaryCard({
@@ -23,10 +35,14 @@ export default function SummaryCard({
   videoUrl,
   tags = [],
   videoId,
+  contentType = 'video',
+  isStreaming = false,
 }: SummaryCardProps) {
   const [isLoadingDetailed, setIsLoadingDetailed] = useState(false);
   const [detailedSummary, setDetailedSummary] = useState<string | null>(null);
   const [isShowingDetailed, setIsShowingDetailed] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [hasOpenedChat, setHasOpenedChat] = useState(false);
   const toast = useToast();
 
   // Function to process summary text and ensure proper bullet point formatting
@@ -54,52 +70,57 @@ export default function SummaryCard({
 
     setIsLoadingDetailed(true);
     try {
-      const response = await fetch('/api/openai/summarize', {
+      const response = await fetch('/api/videos/summaries/detailed', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
-        body: JSON.stringify({
-          text: summary,
-          options: {
-            format: "paragraph",
-            maxLength: 2000,
-          }
-        }),
+        body: JSON.stringify({ videoId, stream: true }),
       });
 
       if (!response.ok) {
-        const error = await response.json();
+        const error = await response.json().catch(() => ({}));
         throw new Error(error.error?.message || 'Failed to generate detailed summary');
       }
 
-      const { data } = await response.json();
-      
-      fetch('/api/videos/summaries/update', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          videoId,
-          detailed_summary: data.summary,
-        }),
-      }).catch(error => {
-        logger.error('Failed to save detailed summary', error as Error);
+      // Render the detailed summary as it streams in; a saved one arrives in a single event
+      let text = '';
+      let streamError: string | null = null;
+      setIsShowingDetailed(true);
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'token') {
+          text += (data as { text: string }).text;
+          setDetailedSummary(text);
+        } else if (event === 'summary') {
+          text = (data as { detailed_summary: string | null }).detailed_summary || text;
+          setDetailedSummary(text);
+        } else if (event === 'error') {
+          streamError = (data as { message?: string }).message || 'Failed to generate detailed summary';
+        }
       });
 
-      setDetailedSummary(data.summary);
-      setIsShowingDetailed(true);
+      if (streamError) {
+        throw new Error(streamError);
+      }
+
       toast.success('Detailed summary generated successfully!');
     } catch (error) {
       const err = error instanceof Error ? error : new Error('Unknown error occurred');
       logger.error('Failed to generate detailed summary', err);
+      setDetailedSummary(null);
+      setIsShowingDetailed(false);
       toast.error('Failed to generate detailed summary. Please try again later.');
     } finally {
       setIsLoadingDetailed(false);
     }
   };
 
+  const handleToggleChat = () => {
+    setHasOpenedChat(true);
+    setIsChatOpen(!isChatOpen);
+  };
+
   const currentSummary = formatSummary(isShowingDetailed ? detailedSummary || '' : summary);
 
   return (
@@ -107,27 +128,31 @@ export default function SummaryCard({
       <div className='flex justify-between items-start mb-6'>
         <div>
           <h3 className='text-2xl font-semibold text-gray-800 mb-3 line-clamp-2'>{title}</h3>
-          <div className='flex items-center space-x-3 text-base text-gray-500'>
-            <span className='font-medium'>{channelName}</span>
-            <span>•</span>
-            <span>{date}</span>
-          </div>
+          {!isStreaming && (
+            <div className='flex items-center space-x-3 text-base text-gray-500'>
+              <span className='font-medium'>{channelName}</span>
+              <span>•</span>
+              <span>{date}</span>
+            </div>
+          )}
         </div>
-        <a
-          href={videoUrl}
-          target='_blank'
-          rel='noopener noreferrer'
-          className='flex items-center space-x-2 px-4 py-2 rounded-xl bg-purple-50 text-purple-600 hover:bg-purple-100 transition-colors'>
-          <span className='font-medium'>Watch Video</span>
-          <svg className='w-4 h-4' fill='none' stroke='currentColor' viewBox='0 0 24 24'>
-            <path
-              strokeLinecap='round'
-              strokeLinejoin='round'
-              strokeWidth={2}
-              d='M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14'
-            />
-          </svg>
-        </a>
+        {!isStreaming && videoUrl && (
+          <a
+            href={videoUrl}
+            target='_blank'
+            rel='noopener noreferrer'
+            className='flex items-center space-x-2 px-4 py-2 rounded-xl bg-purple-50 text-purple-600 hover:bg-purple-100 transition-colors'>
+            <span className='font-medium'>{LINK_LABELS[contentType]}</span>
+            <svg className='w-4 h-4' fill='none' stroke='currentColor' viewBox='0 0 24 24'>
+              <path
+                strokeLinecap='round'
+                strokeLinejoin='round'
+                strokeWidth={2}
+                d='M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14'
+              />
+            </svg>
+          </a>
+        )}
       </div>
 
       <div className='mt-6'>
@@ -162,6 +187,9 @@ export default function SummaryCard({
                 }}>
                 {currentSummary}
               </ReactMarkdown>
+              {(isStreaming || (isLoadingDetailed && isShowingDetailed)) && (
+                <span className='inline-block w-2 h-5 bg-purple-400 animate-pulse align-middle' />
+              )}
             </motion.div>
           </AnimatePresence>
         </div>
@@ -178,45 +206,58 @@ export default function SummaryCard({
               ))}
             </div>
           )}
-          <div className='flex justify-end'>
-            <button
-              onClick={handleGetDetailedSummary}
-              disabled={isLoadingDetailed}
-              className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-300
-                ${
-                  isLoadingDetailed
-                    ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                    : 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:shadow-lg hover:-translate-y-0.5'
-                }`}>
-              {isLoadingDetailed ? (
-                <div className='flex items-center space-x-2'>
-                  <svg
-                    className='animate-spin h-4 w-4 text-white'
-                    xmlns='http://www.w3.org/2000/svg'
-                    fill='none'
-                    viewBox='0 0 24 24'>
-                    <circle
-                      className='opacity-25'
-                      cx='12'
-                      cy='12'
-                      r='10'
-                      stroke='currentColor'
-                      strokeWidth='4'></circle>
-                    <path
-                      className='opacity-75'
-                      fill='currentColor'
-                      d='M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z'></path>
-                  </svg>
-                  <span>Generating...</span>
-                </div>
-              ) : isShowingDetailed ? (
-                'Show Brief Summary'
-              ) : (
-                'Show Detailed Summary'
-              )}
-            </button>
-          </div>
+          {!isStreaming && (
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={handleToggleChat}
+                className='px-4 py-2 rounded-xl text-sm font-medium bg-purple-50 text-purple-600 hover:bg-purple-100 transition-colors'>
+                {isChatOpen ? 'Hide Q&A' : 'Ask a Question'}
+              </button>
+              <button
+                onClick={handleGetDetailedSummary}
+                disabled={isLoadingDetailed}
+                className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-300
+                  ${
+                    isLoadingDetailed
+                      ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                      : 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:shadow-lg hover:-translate-y-0.5'
+                  }`}>
+                {isLoadingDetailed ? (
+                  <div className='flex items-center space-x-2'>
+                    <svg
+                      className='animate-spin h-4 w-4 text-white'
+                      xmlns='http://www.w3.org/2000/svg'
+                      fill='none'
+                      viewBox='0 0 24 24'>
+                      <circle
+                        className='opacity-25'
+                        cx='12'
+                        cy='12'
+                        r='10'
+                        stroke='currentColor'
+                        strokeWidth='4'></circle>
+                      <path
+                        className='opacity-75'
+                        fill='currentColor'
+                        d='M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z'></path>
+                    </svg>
+                    <span>Generating...</span>
+                  </div>
+                ) : isShowingDetailed ? (
+                  'Show Brief Summary'
+                ) : (
+                  'Show Detailed Summary'
+                )}
+              </button>
+            </div>
+          )}
         </div>
+        {/* Keep the chat mounted once opened so the conversation survives toggling */}
+        {hasOpenedChat && (
+          <div className={isChatOpen ? '' : 'hidden'}>
+            <VideoChat videoId={videoId} videoUrl={videoUrl} hasTimeline={contentType !== 'article'} />
+          </div>
+        )}
       </div>
     </div>
   );
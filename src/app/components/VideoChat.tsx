@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { logger } from '@/lib/utils/logger';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { TranscriptCitation, VideoChatAnswer, VideoChatMessage } from '@/lib/types/chat';
+import { formatTimestamp, parseTimestamp } from '@/lib/utils/transcript';
+import { buildTimestampUrl } from '@/lib/utils/youtube';
+
+interface VideoChatProps {
+  videoId: string;
+  videoUrl: string;
+  // False for articles, whose answers have no timestamps to link
+  hasTimeline?: boolean;
+}
+
+interface ChatEntry extends VideoChatMessage {
+  citations?: TranscriptCitation[];
+}
+
+/**
+ * Turn a saved answer into the question and answer chat entries
+ */
+const toEntries = (answer: VideoChatAnswer): ChatEntry[] => [
+  { role: 'user', content: answer.question },
+  { role: 'assistant', content: answer.answer, citations: answer.citations },
+];
+
+const TIMESTAMP_PATTERN = /\[(\d{1,2}:\d{2}(?::\d{2})?)\]/g;
+
+export default function VideoChat({ videoId, videoUrl, hasTimeline = true }: VideoChatProps) {
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const toast = useToast();
+
+  // Reload the earlier conversation about this video
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/videos/chat?videoId=${encodeURIComponent(videoId)}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error?.message || 'Failed to load questions');
+        }
+        setMessages((result.data as VideoChatAnswer[]).flatMap(toEntries));
+      } catch (error) {
+        logger.error('Failed to load questions', error as Error, { videoId });
+      }
+    };
+
+    loadHistory();
+  }, [videoId]);
+
+  // Turn [m:ss] citations in an answer into links to that point in the video
+  const renderAnswer = (text: string) =>
+    !hasTimeline ? text : text.split(TIMESTAMP_PATTERN).map((part, index) => {
+      if (index % 2 === 0) return <span key={index}>{part}</span>;
+
+      const seconds = parseTimestamp(part);
+      // Uploaded files have no page to link to
+      if (seconds === null || !videoUrl) return <span key={index}>[{part}]</span>;
+
+      return (
+        <a
+          key={index}
+          href={buildTimestampUrl(videoUrl, seconds)}
+          target='_blank'
+          rel='noopener noreferrer'
+          className='text-purple-600 hover:text-purple-700 font-medium'>
+          [{part}]
+        </a>
+      );
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = question.trim();
+    if (!content || isSending) return;
+
+    const conversation: ChatEntry[] = [...messages, { role: 'user', content }];
+    setMessages(conversation);
+    setQuestion('');
+    setIsSending(true);
+
+    try {
+      const response = await fetch('/api/videos/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ videoId, question: content }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to answer question');
+      }
+
+      setMessages([...messages, ...toEntries(result.data)]);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to answer question', err, { videoId });
+      toast.error(err.message);
+      setMessages(messages);
+      setQuestion(content);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      const response = await fetch(`/api/videos/chat?videoId=${encodeURIComponent(videoId)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error?.message || 'Failed to clear conversation');
+      }
+      setMessages([]);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to clear conversation', err, { videoId });
+      toast.error(err.message);
+    }
+  };
+
+  return (
+    <div className='mt-6 pt-6 border-t border-purple-100'>
+      {messages.length > 0 && (
+        <div className='flex justify-end mb-2'>
+          <button
+            onClick={handleClear}
+            disabled={isSending}
+            className='text-xs text-gray-400 hover:text-red-500 transition-colors'>
+            Clear conversation
+          </button>
+        </div>
+      )}
+      {messages.length > 0 && (
+        <div className='space-y-4 mb-4 max-h-96 overflow-y-auto'>
+          {messages.map((message, index) => (
+            <div
+              key={index}
+              className={`rounded-xl px-4 py-3 ${
+                message.role === 'user'
+                  ? 'bg-purple-50 text-purple-900 ml-12'
+                  : 'bg-white text-gray-700 mr-12 border border-purple-100'
+              }`}>
+              <p className='whitespace-pre-wrap leading-relaxed'>
+                {message.role === 'assistant' ? renderAnswer(message.content) : message.content}
+              </p>
+              {hasTimeline && message.citations && message.citations.length > 0 && (
+                <div className='flex flex-wrap gap-2 mt-3'>
+                  {message.citations.map(citation => (
+                    <a
+                      key={citation.start}
+                      href={videoUrl ? buildTimestampUrl(videoUrl, citation.start) : undefined}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                      title={citation.text}
+                      className='px-2 py-0.5 text-xs rounded-lg bg-purple-50 text-purple-600 hover:bg-purple-100 transition-colors'>
+                      {formatTimestamp(citation.start)}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {isSending && <div className='text-sm text-gray-400 px-4'>Thinking...</div>}
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className='flex space-x-3'>
+        <input
+          type='text'
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder='Ask a question about this video'
+          className='flex-1 px-4 py-2 text-gray-700 bg-white rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 border border-purple-100 placeholder-gray-400'
+          disabled={isSending}
+        />
+        <button
+          type='submit'
+          disabled={!question.trim() || isSending}
+          className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${
+            question.trim() && !isSending
+              ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:shadow-lg'
+              : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+          }`}>
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import Navigation from '@/app/components/Navigation';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { ImportLinkStatus, ImportResult } from '@/lib/types/import';
+import { logger } from '@/lib/utils/logger';
+
+// Largest file read into the import box
+const MAX_IMPORT_FILE_BYTES = 1024 * 1024;
+
+const STATUS_STYLES: Record<ImportLinkStatus, string> = {
+  accepted: 'bg-green-100 text-green-600',
+  duplicate: 'bg-gray-100 text-gray-500',
+  invalid: 'bg-red-100 text-red-600',
+};
+
+export default function ImportPage() {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const toast = useToast();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      toast.error('Import files can be at most 1 MB');
+      return;
+    }
+    setContent(await file.text());
+    setFileName(file.name);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isImporting || !content.trim()) return;
+
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/imports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, fileName: fileName || undefined }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to import links');
+      }
+
+      const data = result.data as ImportResult;
+      setImported(data);
+      toast.success(
+        data.accepted > 0
+          ? `Summarizing ${data.accepted} new ${data.accepted === 1 ? 'link' : 'links'} in the background`
+          : 'No new links to summarize',
+      );
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to import links', err);
+      toast.error(err.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const counts = imported
+    ? (['accepted', 'duplicate', 'invalid'] as ImportLinkStatus[]).map(status => ({
+        status,
+        count: imported.results.filter(link => link.status === status).length,
+      }))
+    : [];
+
+  return (
+    <main>
+      <Navigation />
+      <div className='max-w-6xl mx-auto px-4 py-12'>
+        <div className='text-center mb-16'>
+          <h1 className='text-5xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 text-transparent bg-clip-text mb-6'>
+            Import Links
+          </h1>
+          <p className='text-xl text-gray-600 max-w-2xl mx-auto'>
+            Paste a list of links, one per line, or choose a CSV file with a URL column or an OPML
+            file of podcast feeds. New links are summarized in the background.
+          </p>
+        </div>
+
+        <div className='w-full max-w-3xl mx-auto'>
+          <form
+            onSubmit={handleSubmit}
+            className='bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20'>
+            <textarea
+              value={content}
+              onChange={e => {
+                setContent(e.target.value);
+                setFileName(null);
+              }}
+              rows={10}
+              placeholder={'https://www.youtube.com/watch?v=...\nhttps://example.com/blog/post'}
+              className='w-full p-4 text-gray-700 bg-white rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 border border-purple-100 placeholder-gray-400 font-mono text-sm'
+              disabled={isImporting}
+            />
+            <input
+              ref={inputRef}
+              type='file'
+              accept='.txt,.csv,.opml,.xml'
+              className='hidden'
+              onChange={e => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <div className='flex justify-between items-center mt-4'>
+              <button
+                type='button'
+                onClick={() => inputRef.current?.click()}
+                disabled={isImporting}
+                className='text-purple-600 hover:text-purple-700 font-medium'>
+                {fileName ? `Loaded ${fileName}` : 'Choose a file'}
+              </button>
+              <button
+                type='submit'
+                disabled={!content.trim() || isImporting}
+                className={`px-8 py-3 rounded-xl text-lg font-medium transition-all duration-300 ${
+                  content.trim() && !isImporting
+                    ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:shadow-lg hover:-translate-y-0.5'
+                    : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                }`}>
+                {isImporting ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </form>
+
+          {imported && (
+            <div className='mt-10 space-y-4'>
+              <div className='flex flex-wrap gap-3 items-center'>
+                {counts.map(({ status, count }) => (
+                  <span
+                    key={status}
+                    className={`px-3 py-1 text-sm rounded-lg capitalize ${STATUS_STYLES[status]}`}>
+                    {count} {status}
+                  </span>
+                ))}
+                {imported.accepted > 0 && (
+                  <Link href='/summaries' className='text-sm text-purple-600 hover:text-purple-700 font-medium'>
+                    View summaries as they complete
+                  </Link>
+                )}
+              </div>
+              <ul className='space-y-3'>
+                {imported.results.map((link, index) => (
+                  <li
+                    key={index}
+                    className='flex justify-between items-center gap-4 bg-white/70 backdrop-blur-sm rounded-xl p-4 shadow border border-purple-100/20'>
+                    <div className='min-w-0'>
+                      <p className='text-gray-800 truncate'>{link.url || link.input}</p>
+                      {link.reason && <p className='text-sm text-gray-500 mt-1'>{link.reason}</p>}
+                    </div>
+                    <span
+                      className={`px-3 py-1 text-sm rounded-lg capitalize shrink-0 ${STATUS_STYLES[link.status]}`}>
+                      {link.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { ToastProvider } from '@/lib/contexts/ToastContext';
+import { LoadingProvider } from '@/lib/contexts/LoadingContext';
 import { ToastContainer } from '@/components/ui/Toast';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -26,9 +27,11 @@ export default function RootLayout({ children }: RootLayoutProps) {
       }}>
       <body className={`${inter.className} antialiased`}>
         <ToastProvider>
-          <div className='min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50'>
-            {children}
-          </div>
+          <LoadingProvider>
+            <div className='min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50'>
+              {children}
+            </div>
+          </LoadingProvider>
           <ToastContainer />
         </ToastProvider>
       </body>
@@ -0,0 +1,19 @@
+import Navigation from '@/app/components/Navigation';
+import AuthForm from '@/app/components/AuthForm';
+
+export default function LoginPage() {
+  return (
+    <main>
+      <Navigation />
+      <div className='max-w-6xl mx-auto px-4 py-12'>
+        <div className='text-center mb-12'>
+          <h1 className='text-5xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 text-transparent bg-clip-text mb-6'>
+            Sign In
+          </h1>
+          <p className='text-xl text-gray-600 max-w-2xl mx-auto'>Sign in to see your summaries, playlists and chats.</p>
+        </div>
+        <AuthForm mode='signin' />
+      </div>
+    </main>
+  );
+}
@@ -1,13 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import Navigation from './components/Navigation';
 import LinkInput from './components/LinkInput';
 import SummaryCard from './components/SummaryCard';
 import LoadingCard from './components/LoadingCard';
+import FileDropZone from './components/FileDropZone';
 import { ToastContainer } from '@/components/ui/Toast';
 import { useToast } from '@/lib/contexts/ToastContext';
+import { useLoading } from '@/lib/contexts/LoadingContext';
 import { logger } from '@/lib/utils/logger';
+import { readEventStream } from '@/lib/utils/sse';
+import { getSummariesCacheKey } from '@/lib/utils/summariesCache';
+import { uploadWithProgress } from '@/lib/utils/upload';
+import { parseYouTubeUrl } from '@/lib/utils/youtube';
+import { ContentType, JobRecord, UserSummaryRecord } from '@/lib/types/database';
+import { isActiveJob, JOB_STAGE_LABELS } from '@/lib/types/job';
+import { LoadingProgress, LoadingType } from '@/lib/types/loading';
+import { SUBTITLE_EXTENSIONS } from '@/lib/types/upload';
 
 interface TranscriptSegment {
   text: string;
@@ -23,6 +34,7 @@ interface SummaryWithTags {
   videoUrl: string;
   tags: string[];
   videoId: string;
+  contentType?: ContentType;
 }
 
 // Add type for response error context
@@ -38,8 +50,8 @@ interface ParseErrorContext extends Record<string, unknown> {
   parseError: unknown;
 }
 
-// Cache key for localStorage
-const SUMMARIES_CACHE_KEY = 'video-summaries-cache';
+// How long to wait before following a job again after its event stream ends early
+const JOB_RETRY_DELAY_MS = 2000;
 
 interface CacheData {
   summaries: SummaryWithTags[];
@@ -47,33 +59,144 @@ interface CacheData {
 }
 
 export default function Home() {
-  const [isLoading, setIsLoading] = useState(false);
   const [summaries, setSummaries] = useState<SummaryWithTags[]>([]);
   const [recentSummaries, setRecentSummaries] = useState<SummaryWithTags[]>([]);
+  const [streamingSummary, setStreamingSummary] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<JobRecord[]>([]);
+  // Summary streamed so far by each job
+  const [jobSummaries, setJobSummaries] = useState<Record<string, string>>({});
   const toast = useToast();
+  const { startLoading, updateLoading, stopLoading, getLoadingState } = useLoading();
+  const router = useRouter();
   const [isClient, setIsClient] = useState(false);
+  // localStorage key of the signed-in user's cached summaries
+  const [cacheKey, setCacheKey] = useState<string | null>(null);
 
   // Set isClient to true when component mounts
   useEffect(() => {
     setIsClient(true);
   }, []);
 
-  // Load recent summaries from cache
+  // Load recent summaries from the signed-in user's cache
   useEffect(() => {
     if (!isClient) return; // Only run on client side
 
-    try {
-      const cachedData = localStorage.getItem(SUMMARIES_CACHE_KEY);
-      if (cachedData) {
-        const { summaries: cached }: CacheData = JSON.parse(cachedData);
-        setSummaries(cached);
-        setRecentSummaries(cached.slice(0, 3));
-      }
-    } catch (error) {
-      logger.error('Failed to load cached summaries', error as Error);
-    }
+    getSummariesCacheKey()
+      .then(key => {
+        setCacheKey(key);
+        const cachedData = key && localStorage.getItem(key);
+        if (cachedData) {
+          const { summaries: cached }: CacheData = JSON.parse(cachedData);
+          setSummaries(cached);
+          setRecentSummaries(cached.slice(0, 3));
+        }
+      })
+      .catch(error => logger.error('Failed to load cached summaries', error as Error));
   }, [isClient]); // Run when isClient becomes true
 
+  // Start showing jobs as loading operations; kept in a ref so effects do not rerun on every render
+  const trackJobs = useRef<(added: JobRecord[]) => void>(() => undefined);
+  trackJobs.current = (added: JobRecord[]) => {
+    added.forEach(job =>
+      startLoading(LoadingType.VIDEO_PROCESSING, job.stage ? JOB_STAGE_LABELS[job.stage] : 'Waiting to start', job.id),
+    );
+    setJobs(current => [...added, ...current.filter(job => !added.some(update => update.id === job.id))]);
+  };
+
+  // Called once a job completes or fails, or can no longer be followed
+  const onJobFinished = useRef<(id: string, job: JobRecord | null, error?: string) => void>(() => undefined);
+  onJobFinished.current = (id: string, job: JobRecord | null, error?: string) => {
+    stopLoading(id);
+    setJobs(current => current.filter(item => item.id !== id));
+    setJobSummaries(({ [id]: _finished, ...current }) => current);
+    if (job?.status === 'completed' && job.result) {
+      addSummary(job.result);
+      toast.success('Summary generated successfully!');
+    } else {
+      toast.error(job?.error || error || 'Failed to process video');
+    }
+  };
+
+  // Show videos still being processed from an earlier visit
+  useEffect(() => {
+    fetch('/api/jobs?active=true&type=video')
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => {
+        if (result?.data) trackJobs.current(result.data);
+      })
+      .catch(error => logger.error('Failed to load running jobs', error as Error));
+  }, []);
+
+  // Follow each running job's progress events until it finishes
+  const jobStreams = useRef(new Map<string, AbortController>());
+  const [jobRetries, setJobRetries] = useState(0);
+  const jobIds = jobs.map(job => job.id).join(',');
+  useEffect(() => {
+    const follow = async (id: string, controller: AbortController) => {
+      let finished: JobRecord | null = null;
+      let streamError: string | null = null;
+      try {
+        const response = await fetch(`/api/jobs/${id}?stream=true`, {
+          headers: { Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          const result = await response.json();
+          streamError = result.error?.message || 'Failed to process video';
+        } else {
+          // Each stream starts with the tokens the job has streamed so far
+          setJobSummaries(({ [id]: _earlier, ...current }) => current);
+          await readEventStream(response, ({ event, data }) => {
+            if (event === 'progress') {
+              const progress = data as LoadingProgress;
+              updateLoading(progress.type, progress.progress, progress.message, id);
+            } else if (event === 'token') {
+              const { text } = data as { text: string };
+              setJobSummaries(current => ({ ...current, [id]: (current[id] ?? '') + text }));
+            } else if (event === 'job') {
+              finished = data as JobRecord;
+            } else if (event === 'error') {
+              streamError = (data as { message?: string }).message || 'Failed to process video';
+            }
+          });
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        logger.warn('Lost connection to job', { jobId: id, error });
+      }
+      jobStreams.current.delete(id);
+
+      const job = finished as JobRecord | null;
+      if ((job && !isActiveJob(job)) || streamError) {
+        onJobFinished.current(id, job, streamError || undefined);
+      } else {
+        // The stream ended early; follow the job again shortly
+        setTimeout(() => setJobRetries(count => count + 1), JOB_RETRY_DELAY_MS);
+      }
+    };
+
+    jobIds
+      .split(',')
+      .filter(id => id && !jobStreams.current.has(id))
+      .forEach(id => {
+        const controller = new AbortController();
+        jobStreams.current.set(id, controller);
+        follow(id, controller);
+      });
+  }, [jobIds, jobRetries, updateLoading]);
+
+  // Stop following jobs when leaving the page; they are restored on return
+  useEffect(() => {
+    const streams = jobStreams.current;
+    return () => {
+      streams.forEach((controller, id) => {
+        controller.abort();
+        stopLoading(id);
+      });
+      streams.clear();
+    };
+  }, [stopLoading]);
+
   const generateTags = (title: string, summary: string): string[] => {
     // Extract meaningful words from title and summary
     const text = `${title} ${summary}`.toLowerCase();
@@ -111,21 +234,165 @@ export default function Home() {
       .slice(0, 5);
   };
 
-  const handleSubmit = async (url: string) => {
-    setIsLoading(true);
-    logger.info('Starting video processing', { url });
+  // Add a newly processed summary to the top of the list and the cache
+  const addSummary = (summary: UserSummaryRecord) => {
+    // Transform database record to UI format
+    const newSummary: SummaryWithTags = {
+      title: summary.videos?.title || 'Unknown Title',
+      channelName: summary.videos?.channel?.name || 'Unknown Channel',
+      date: new Date(summary.created_at).toLocaleDateString(),
+      summary: summary.summary,
+      videoUrl: summary.videos?.url || '',
+      tags: summary.tags || [],
+      videoId: summary.video_id,
+      contentType: summary.videos?.content_type,
+    };
+
+    // Get existing summaries from cache
+    let existingSummaries: SummaryWithTags[] = [];
+    try {
+      const cachedData = cacheKey && localStorage.getItem(cacheKey);
+      if (cachedData) {
+        const { summaries: cached }: CacheData = JSON.parse(cachedData);
+        existingSummaries = cached;
+      }
+    } catch (error) {
+      logger.error('Failed to load existing summaries from cache', error as Error);
+    }
+
+    // Append new summary to existing ones
+    const updatedSummaries = [newSummary, ...existingSummaries];
+
+    // Update state
+    setSummaries(updatedSummaries);
+    setRecentSummaries(updatedSummaries.slice(0, 3));
+
+    // Update cache with combined summaries
+    const cacheData: CacheData = {
+      summaries: updatedSummaries,
+      timestamp: Date.now(),
+    };
+    if (cacheKey) {
+      localStorage.setItem(cacheKey, JSON.stringify(cacheData));
+    }
+  };
+
+  // Playlists are summarized in the background and followed on their own page
+  const handlePlaylistSubmit = async (url: string) => {
+    startLoading(LoadingType.API_REQUEST);
+    logger.info('Importing playlist', { url });
     try {
-      // Process video using VideoProcessingService
-      logger.info('Sending request to process video', { url });
-      const response = await fetch('/api/videos/process', {
+      const response = await fetch('/api/playlists', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Accept: 'application/json',
         },
         body: JSON.stringify({ url }),
       });
 
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to import playlist');
+      }
+
+      toast.success(`Summarizing ${result.data.items.length} videos from the playlist`);
+      router.push(`/playlists/${result.data.id}`);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to import playlist', err, { url });
+      toast.error(err.message);
+    } finally {
+      stopLoading(LoadingType.API_REQUEST);
+    }
+  };
+
+  // Channels are subscribed to and their latest uploads summarized in the background
+  const handleChannelSubmit = async (url: string) => {
+    startLoading(LoadingType.API_REQUEST);
+    logger.info('Subscribing to channel', { url });
+    try {
+      const response = await fetch('/api/channels', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to subscribe to channel');
+      }
+
+      toast.success(
+        `Subscribed to ${result.data.channel.name}. Summarizing its ${result.data.videos.length} latest videos, which will appear in Past Summaries.`,
+      );
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to subscribe to channel', err, { url });
+      toast.error(err.message);
+    } finally {
+      stopLoading(LoadingType.API_REQUEST);
+    }
+  };
+
+  // Videos are processed as background jobs, which keep running if the page is closed
+  const handleVideoSubmit = async (url: string) => {
+    startLoading(LoadingType.API_REQUEST);
+    logger.info('Submitting video', { url });
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to process video');
+      }
+
+      trackJobs.current([result.data as JobRecord]);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to submit video', err, { url });
+      toast.error(err.message);
+    } finally {
+      stopLoading(LoadingType.API_REQUEST);
+    }
+  };
+
+  const handleSubmit = async (url: string) => {
+    const type = parseYouTubeUrl(url)?.type;
+    if (type === 'playlist') {
+      return handlePlaylistSubmit(url);
+    }
+    if (type === 'channel') {
+      return handleChannelSubmit(url);
+    }
+    if (type === 'video') {
+      return handleVideoSubmit(url);
+    }
+
+    // Links outside YouTube are podcasts or, failing that, articles
+    const endpoint = '/api/links';
+
+    startLoading(LoadingType.VIDEO_PROCESSING, 'Processing link');
+    logger.info('Starting link processing', { url });
+    try {
+      // Process the link, streaming the summary as it is generated
+      logger.info('Sending request to process link', { url, endpoint });
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify({ url, stream: true }),
+      });
+
       // Log the raw response for debugging
       logger.info('Received response from server', {
         status: response.status,
@@ -133,75 +400,122 @@ export default function Home() {
         headers: Object.fromEntries(response.headers.entries()),
       });
 
-      // Get the response text first
-      const responseText = await response.text();
-      logger.info('Received response text', { responseText });
-
-      // Try to parse as JSON regardless of status
-      let parsedResponse;
-      try {
-        parsedResponse = JSON.parse(responseText);
-      } catch (parseError) {
-        logger.error('Failed to parse response as JSON', parseError as Error, { responseText });
-        throw new Error('Unexpected server response format');
-      }
-
-      // Handle error responses
+      // Validation errors are returned as JSON before the stream starts
       if (!response.ok) {
+        const responseText = await response.text();
+        let parsedResponse;
+        try {
+          parsedResponse = JSON.parse(responseText);
+        } catch (parseError) {
+          logger.error('Failed to parse response as JSON', parseError as Error, { responseText });
+          throw new Error('Unexpected server response format');
+        }
         const errorMessage = parsedResponse.error?.message || 'Failed to process video';
         throw new Error(errorMessage);
       }
 
-      const summary = parsedResponse.data;
-      logger.info('Successfully processed video', { summary });
-
-      // Transform database record to UI format
-      const newSummary: SummaryWithTags = {
-        title: summary.videos.title,
-        channelName: summary.videos.channels.name,
-        date: new Date(summary.created_at).toLocaleDateString(),
-        summary: summary.summary,
-        videoUrl: summary.videos.url,
-        tags: summary.tags || [],
-        videoId: summary.video_id,
-      };
-
-      // Get existing summaries from cache
-      let existingSummaries: SummaryWithTags[] = [];
-      try {
-        const cachedData = localStorage.getItem(SUMMARIES_CACHE_KEY);
-        if (cachedData) {
-          const { summaries: cached }: CacheData = JSON.parse(cachedData);
-          existingSummaries = cached;
+      let summary: UserSummaryRecord | null = null;
+      let streamError: string | null = null;
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'progress') {
+          const progress = data as LoadingProgress;
+          updateLoading(progress.type, progress.progress, progress.message, LoadingType.VIDEO_PROCESSING);
+        } else if (event === 'token') {
+          const { text } = data as { text: string };
+          setStreamingSummary(current => (current ?? '') + text);
+        } else if (event === 'summary') {
+          summary = data as UserSummaryRecord;
+        } else if (event === 'error') {
+          streamError = (data as { message?: string }).message || 'Failed to process video';
         }
-      } catch (error) {
-        logger.error('Failed to load existing summaries from cache', error as Error);
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!summary) {
+        throw new Error('Unexpected server response format');
       }
+      logger.info('Successfully processed video', { summary });
+
+      addSummary(summary);
+      toast.success('Summary generated successfully!');
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error occurred');
+      logger.error('Failed to process video', err, { url });
+      toast.error(err.message);
+    } finally {
+      stopLoading(LoadingType.VIDEO_PROCESSING);
+      setStreamingSummary(null);
+    }
+  };
 
-      // Append new summary to existing ones
-      const updatedSummaries = [newSummary, ...existingSummaries];
+  // Uploaded files are sent with their upload and transcription progress, then stream their summary.
+  // Subtitle files are imported as transcripts instead of being transcribed.
+  const handleFileSubmit = async (file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const endpoint = SUBTITLE_EXTENSIONS.includes(extension) ? '/api/uploads/subtitles' : '/api/uploads';
 
-      // Update state
-      setSummaries(updatedSummaries);
-      setRecentSummaries(updatedSummaries.slice(0, 3));
+    startLoading(LoadingType.FILE_UPLOAD, `Uploading ${file.name}`);
+    updateLoading(LoadingType.FILE_UPLOAD, 0);
+    logger.info('Uploading file', { name: file.name, size: file.size });
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('stream', 'true');
+
+      let summary: UserSummaryRecord | null = null;
+      let streamError: string | null = null;
+      await uploadWithProgress(endpoint, form, {
+        onUploadProgress: (loaded, total) => {
+          updateLoading(
+            LoadingType.FILE_UPLOAD,
+            Math.round((loaded / total) * 100),
+            loaded < total ? `Uploading ${file.name}` : 'Processing file',
+          );
+        },
+        onEvent: ({ event, data }) => {
+          if (event === 'progress') {
+            const progress = data as LoadingProgress;
+            updateLoading(progress.type, progress.progress, progress.message, LoadingType.FILE_UPLOAD);
+          } else if (event === 'token') {
+            const { text } = data as { text: string };
+            setStreamingSummary(current => (current ?? '') + text);
+          } else if (event === 'summary') {
+            summary = data as UserSummaryRecord;
+          } else if (event === 'error') {
+            streamError = (data as { message?: string }).message || 'Failed to process file';
+          }
+        },
+      });
 
-      // Update cache with combined summaries
-      const cacheData: CacheData = {
-        summaries: updatedSummaries,
-        timestamp: Date.now(),
-      };
-      localStorage.setItem(SUMMARIES_CACHE_KEY, JSON.stringify(cacheData));
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!summary) {
+        throw new Error('Unexpected server response format');
+      }
+      logger.info('Successfully processed file', { summary });
 
+      addSummary(summary);
       toast.success('Summary generated successfully!');
     } catch (error) {
       const err = error instanceof Error ? error : new Error('Unknown error occurred');
-      logger.error('Failed to process video', err, { url });
+      logger.error('Failed to process file', err, { name: file.name });
       toast.error(err.message);
     } finally {
-      setIsLoading(false);
+      stopLoading(LoadingType.FILE_UPLOAD);
+      setStreamingSummary(null);
     }
   };
 
+  // Submissions in progress; running jobs are shown separately and do not block new ones
+  const submission =
+    getLoadingState(LoadingType.API_REQUEST) ||
+    getLoadingState(LoadingType.VIDEO_PROCESSING) ||
+    getLoadingState(LoadingType.FILE_UPLOAD);
+  const isLoading = !!submission;
+
   const handleError = (error: string) => {
     toast.error(error);
   };
@@ -215,14 +529,54 @@ export default function Home() {
             Summarizer
           </h1>
           <p className='text-xl text-gray-600 max-w-2xl mx-auto'>
-            Get instant AI-powered summaries of YouTube videos. Save time and decide what to watch.
+            Get instant AI-powered summaries of YouTube videos, podcasts and articles. Save time and decide what to watch.
           </p>
         </div>
 
         <LinkInput onSubmit={handleSubmit} isLoading={isLoading} />
+        <FileDropZone
+          onFileSelect={handleFileSubmit}
+          onError={handleError}
+          isLoading={isLoading}
+          progress={getLoadingState(LoadingType.FILE_UPLOAD)}
+        />
 
         <div className='space-y-6 mt-12'>
-          {isLoading && <LoadingCard />}
+          {jobs.map(job =>
+            jobSummaries[job.id] ? (
+              <SummaryCard
+                key={job.id}
+                title='Generating summary...'
+                channelName=''
+                date=''
+                summary={jobSummaries[job.id]}
+                videoUrl=''
+                videoId=''
+                isStreaming
+              />
+            ) : (
+              <LoadingCard
+                key={job.id}
+                title={(job.input as { url?: string } | null)?.url}
+                operation={getLoadingState(job.id)}
+              />
+            ),
+          )}
+
+          {isLoading &&
+            (streamingSummary ? (
+              <SummaryCard
+                title='Generating summary...'
+                channelName=''
+                date=''
+                summary={streamingSummary}
+                videoUrl=''
+                videoId=''
+                isStreaming
+              />
+            ) : (
+              <LoadingCard operation={submission} />
+            ))}
 
           {/* Show recent summaries section */}
           {recentSummaries.length > 0 && (
@@ -259,7 +613,7 @@ export default function Home() {
           {!isLoading &&
             summaries.length === 0 &&
             isClient && // Only render on client side
-            !localStorage.getItem(SUMMARIES_CACHE_KEY) && (
+            !(cacheKey && localStorage.getItem(cacheKey)) && (
               <div className='text-center py-16'>
                 <div className='bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20'>
                   <h3 className='text-2xl font-semibold text-gray-800 mb-3'>No summaries yet</h3>
@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import Navigation from '@/app/components/Navigation';
+import SummaryCard from '@/app/components/SummaryCard';
+import LoadingCard from '@/app/components/LoadingCard';
+import { PlaylistItemRecord } from '@/lib/types/database';
+import { PlaylistDetails } from '@/lib/types/playlist';
+import { logger } from '@/lib/utils/logger';
+import { buildVideoUrl } from '@/lib/utils/youtube';
+
+// How often to check on a playlist that is still being summarized
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_STYLES: Record<PlaylistItemRecord['status'], string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  processing: 'bg-purple-100 text-purple-600',
+  completed: 'bg-green-100 text-green-600',
+  failed: 'bg-red-100 text-red-600',
+};
+
+interface PlaylistPageProps {
+  params: { id: string };
+}
+
+export default function PlaylistPage({ params }: PlaylistPageProps) {
+  const [playlist, setPlaylist] = useState<PlaylistDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Load the playlist and keep polling until every video is done
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const loadPlaylist = async () => {
+      try {
+        const response = await fetch(`/api/playlists/${encodeURIComponent(params.id)}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error?.message || 'Failed to load playlist');
+        }
+        if (cancelled) return;
+
+        const details = result.data as PlaylistDetails;
+        setPlaylist(details);
+        if (details.status === 'pending' || details.status === 'processing') {
+          timer = setTimeout(loadPlaylist, POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error('Unknown error occurred');
+        logger.error('Failed to load playlist', err, { id: params.id });
+        if (!cancelled) setLoadError(err.message);
+      }
+    };
+
+    loadPlaylist();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [params.id]);
+
+  const finished = playlist?.items.filter(
+    item => item.status === 'completed' || item.status === 'failed'
+  ).length;
+
+  return (
+    <main>
+      <Navigation />
+      <div className='max-w-6xl mx-auto px-4 py-12'>
+        {loadError && !playlist ? (
+          <p className='text-center text-red-500'>{loadError}</p>
+        ) : !playlist ? (
+          <LoadingCard />
+        ) : (
+          <>
+            <div className='text-center mb-12'>
+              <h1 className='text-4xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 text-transparent bg-clip-text mb-4'>
+                {playlist.title}
+              </h1>
+              <p className='text-gray-600'>
+                {finished} of {playlist.items.length} videos processed
+                <a
+                  href={playlist.url}
+                  target='_blank'
+                  rel='noopener noreferrer'
+                  className='ml-4 text-purple-600 hover:text-purple-700 font-medium'>
+                  Open on YouTube
+                </a>
+              </p>
+            </div>
+
+            <div className='bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20 mb-8'>
+              <h2 className='text-2xl font-semibold text-gray-800 mb-4'>Playlist Overview</h2>
+              {playlist.synthesis ? (
+                <div className='prose prose-purple max-w-none text-gray-700'>
+                  <ReactMarkdown>{playlist.synthesis}</ReactMarkdown>
+                </div>
+              ) : (
+                <p className='text-gray-500'>
+                  {playlist.status === 'failed'
+                    ? 'The overview could not be generated.'
+                    : 'The overview is written once every video has been summarized.'}
+                </p>
+              )}
+            </div>
+
+            <div className='space-y-6'>
+              {playlist.items.map(item =>
+                item.summary ? (
+                  <SummaryCard
+                    key={item.id}
+                    title={item.summary.videos?.title || item.title || item.video_id}
+                    channelName={item.summary.videos?.channel?.name || 'Unknown Channel'}
+                    date={new Date(item.summary.created_at).toLocaleDateString()}
+                    summary={item.summary.summary}
+                    videoUrl={item.summary.videos?.url || buildVideoUrl(item.video_id)}
+                    tags={item.summary.tags}
+                    videoId={item.video_id}
+                  />
+                ) : (
+                  <div
+                    key={item.id}
+                    className='flex justify-between items-center bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-purple-100/20'>
+                    <div>
+                      <h3 className='text-lg font-semibold text-gray-800'>
+                        {item.position + 1}. {item.title || item.video_id}
+                      </h3>
+                      {item.error && <p className='text-sm text-red-500 mt-1'>{item.error}</p>}
+                    </div>
+                    <span
+                      className={`px-3 py-1 text-sm rounded-lg capitalize ${STATUS_STYLES[item.status]}`}>
+                      {item.status}
+                    </span>
+                  </div>
+                ),
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
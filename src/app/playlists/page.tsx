@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Navigation from '@/app/components/Navigation';
+import LoadingCard from '@/app/components/LoadingCard';
+import { PlaylistRecord } from '@/lib/types/database';
+import { logger } from '@/lib/utils/logger';
+
+export default function PlaylistsPage() {
+  const [playlists, setPlaylists] = useState<PlaylistRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPlaylists = async () => {
+      try {
+        const response = await fetch('/api/playlists');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error?.message || 'Failed to load playlists');
+        }
+        setPlaylists(result.data);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error('Unknown error occurred');
+        logger.error('Failed to load playlists', err);
+        setLoadError(err.message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPlaylists();
+  }, []);
+
+  return (
+    <main>
+      <Navigation />
+      <div className='max-w-6xl mx-auto px-4 py-12'>
+        <div className='text-center mb-16'>
+          <h1 className='text-5xl font-bold bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 text-transparent bg-clip-text mb-6'>
+            Playlists
+          </h1>
+          <p className='text-xl text-gray-600 max-w-2xl mx-auto'>
+            Playlists you imported, with a summary of every video and an overview of the whole
+            playlist.
+          </p>
+        </div>
+
+        <div className='space-y-6'>
+          {isLoading ? (
+            <LoadingCard />
+          ) : loadError ? (
+            <p className='text-center text-red-500'>{loadError}</p>
+          ) : playlists.length > 0 ? (
+            playlists.map(playlist => (
+              <Link
+                key={playlist.id}
+                href={`/playlists/${playlist.id}`}
+                className='block bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-purple-100/20 hover:shadow-2xl transition-all duration-300'>
+                <div className='flex justify-between items-center'>
+                  <h3 className='text-xl font-semibold text-gray-800'>{playlist.title}</h3>
+                  <span className='text-sm text-purple-600 capitalize'>{playlist.status}</span>
+                </div>
+                <p className='text-sm text-gray-500 mt-2'>
+                  Imported {new Date(playlist.created_at).toLocaleDateString()}
+                </p>
+              </Link>
+            ))
+          ) : (
+            <div className='text-center py-16'>
+              <div className='bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-purple-100/20'>
+                <h3 className='text-2xl font-semibold text-gray-800 mb-3'>No playlists yet</h3>
+                <p className='text-gray-600 text-lg'>
+                  Add a YouTube playlist link on the home page to summarize a whole playlist.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
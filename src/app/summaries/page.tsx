@@ -6,6 +6,8 @@ import SummaryCard from '@/app/components/SummaryCard';
 import LoadingCard from '@/app/components/LoadingCard';
 import { useToast } from '@/lib/contexts/ToastContext';
 import { logger } from '@/lib/utils/logger';
+import { getSummariesCacheKey } from '@/lib/utils/summariesCache';
+import { ContentType } from '@/lib/types/database';
 
 interface SummaryWithTags {
   title: string;
@@ -15,11 +17,9 @@ interface SummaryWithTags {
   videoUrl: string;
   tags: string[];
   videoId: string;
+  contentType?: ContentType;
 }
 
-// Cache key for localStorage
-const SUMMARIES_CACHE_KEY = 'video-summaries-cache';
-
 interface CacheData {
   summaries: SummaryWithTags[];
   timestamp: number;
@@ -30,6 +30,8 @@ export default function SummariesPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isClient, setIsClient] = useState(false);
+  // localStorage key of the signed-in user's cached summaries
+  const [cacheKey, setCacheKey] = useState<string | null>(null);
   const toast = useToast();
 
   // Set isClient to true when component mounts
@@ -41,9 +43,9 @@ export default function SummariesPage() {
   useEffect(() => {
     if (!isClient) return;
 
-    const loadCachedData = () => {
+    const loadCachedData = (key: string | null) => {
       try {
-        const cachedData = localStorage.getItem(SUMMARIES_CACHE_KEY);
+        const cachedData = key && localStorage.getItem(key);
         if (cachedData) {
           const { summaries: cachedSummaries, timestamp }: CacheData = JSON.parse(cachedData);
           setSummaries(cachedSummaries);
@@ -57,13 +59,20 @@ export default function SummariesPage() {
       return false;
     };
 
-    const hasCachedData = loadCachedData();
-    if (!hasCachedData) {
-      fetchSummaries(true);
-    }
+    getSummariesCacheKey()
+      .then(key => {
+        setCacheKey(key);
+        if (!loadCachedData(key)) {
+          fetchSummaries(true, key);
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to load cached summaries', error as Error);
+        fetchSummaries(true, null);
+      });
   }, [isClient]);
 
-  const fetchSummaries = async (isInitialLoad = false) => {
+  const fetchSummaries = async (isInitialLoad = false, key = cacheKey) => {
     try {
       if (isInitialLoad) {
         setIsLoading(true);
@@ -83,6 +92,7 @@ export default function SummariesPage() {
         videoUrl: summary.videos.url || '',
         tags: summary.tags || [],
         videoId: summary.video_id,
+        contentType: summary.videos.content_type,
       }));
 
       // Update state and cache
@@ -94,7 +104,9 @@ export default function SummariesPage() {
         summaries: transformedSummaries,
         timestamp: Date.now(),
       };
-      localStorage.setItem(SUMMARIES_CACHE_KEY, JSON.stringify(cacheData));
+      if (key) {
+        localStorage.setItem(key, JSON.stringify(cacheData));
+      }
 
       toast.success('Summaries updated successfully');
     } catch (error) {
@@ -110,7 +122,9 @@ export default function SummariesPage() {
     if (!isClient) return;
 
     try {
-      localStorage.removeItem(SUMMARIES_CACHE_KEY);
+      if (cacheKey) {
+        localStorage.removeItem(cacheKey);
+      }
       setSummaries([]);
       setLastUpdated(null);
       toast.success('Cache cleared successfully');
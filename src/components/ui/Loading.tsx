@@ -2,10 +2,12 @@
 
 import React from "react";
 import { useLoading } from "@/lib/contexts/LoadingContext";
-import { LoadingType } from "@/lib/types/loading";
+import { LoadingState, LoadingType } from "@/lib/types/loading";
 
 interface LoadingProps {
   type?: LoadingType;
+  // Operation to show when it was started with its own id
+  id?: string;
   fallback?: React.ReactNode;
   className?: string;
 }
@@ -34,36 +36,48 @@ const Spinner = ({ size = "md", className = "" }: SpinnerProps) => {
 };
 
 const ProgressBar = ({ progress }: { progress?: number }) => {
-  const width = progress ? `${Math.min(100, Math.max(0, progress))}%` : "0%";
+  const percent = Math.round(Math.min(100, Math.max(0, progress || 0)));
 
   return (
-    <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
-      <div
-        className="h-full bg-primary transition-all duration-300 ease-out"
-        style={{ width }}
-      />
+    <div className="w-full flex items-center gap-3">
+      <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all duration-300 ease-out"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="text-xs text-gray-500 tabular-nums">{percent}%</span>
     </div>
   );
 };
 
-export function Loading({ type, fallback, className = "" }: LoadingProps) {
-  const { isLoading, getLoadingState } = useLoading();
+// The operation that started most recently
+const getLatestOperation = (operations: Map<string, LoadingState>) =>
+  Array.from(operations.values()).sort((a, b) => b.startTime - a.startTime)[0];
+
+export function Loading({ type, id, fallback, className = "" }: LoadingProps) {
+  const { isLoading, activeOperations, getLoadingState } = useLoading();
+  const key = id || type;
 
-  // If no type is provided, show global loading state
-  if (!type) {
+  // If no operation is given, show global loading state
+  if (!key) {
     if (!isLoading) return null;
+    const latest = getLatestOperation(activeOperations);
     return (
       <div
         className={`flex flex-col items-center justify-center space-y-4 ${className}`}
       >
         <Spinner size="lg" />
-        <p className="text-sm text-gray-600">Loading...</p>
+        <p className="text-sm text-gray-600">{latest?.message || "Loading..."}</p>
+        {latest?.progress !== undefined && (
+          <ProgressBar progress={latest.progress} />
+        )}
       </div>
     );
   }
 
   // Show loading state for specific operation
-  const loadingState = getLoadingState(type);
+  const loadingState = getLoadingState(key);
   if (!loadingState) return fallback || null;
 
   return (
@@ -81,14 +95,15 @@ export function Loading({ type, fallback, className = "" }: LoadingProps) {
   );
 }
 
-export function LoadingOverlay({ type, className = "" }: LoadingProps) {
-  const { isLoading, getLoadingState } = useLoading();
+export function LoadingOverlay({ type, id, className = "" }: LoadingProps) {
+  const { isLoading, activeOperations, getLoadingState } = useLoading();
+  const key = id || type;
 
-  // If no type is provided, show global loading overlay
-  if (!type && !isLoading) return null;
-  if (type && !getLoadingState(type)) return null;
+  // If no operation is given, show global loading overlay
+  if (!key && !isLoading) return null;
+  if (key && !getLoadingState(key)) return null;
 
-  const loadingState = type ? getLoadingState(type) : undefined;
+  const loadingState = key ? getLoadingState(key) : getLatestOperation(activeOperations);
 
   return (
     <div
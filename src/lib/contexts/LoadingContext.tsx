@@ -3,15 +3,14 @@
 import React, { createContext, useContext, useReducer, useCallback } from "react";
 import {
   LoadingType,
-  LoadingState,
   LoadingContextState,
-  LoadingContextActions,
+  LoadingContextType,
 } from "../types/loading";
 
 type LoadingAction =
-  | { type: "START_LOADING"; payload: { type: LoadingType; message?: string } }
-  | { type: "UPDATE_LOADING"; payload: { type: LoadingType; progress?: number; message?: string } }
-  | { type: "STOP_LOADING"; payload: { type: LoadingType } };
+  | { type: "START_LOADING"; payload: { id: string; type: LoadingType; message?: string } }
+  | { type: "UPDATE_LOADING"; payload: { id: string; type: LoadingType; progress?: number; message?: string } }
+  | { type: "STOP_LOADING"; payload: { id: string } };
 
 const initialState: LoadingContextState = {
   isLoading: false,
@@ -25,7 +24,8 @@ function loadingReducer(
   switch (action.type) {
     case "START_LOADING": {
       const newOperations = new Map(state.activeOperations);
-      newOperations.set(action.payload.type, {
+      newOperations.set(action.payload.id, {
+        id: action.payload.id,
         type: action.payload.type,
         message: action.payload.message,
         startTime: Date.now(),
@@ -36,12 +36,13 @@ function loadingReducer(
       };
     }
     case "UPDATE_LOADING": {
-      const operation = state.activeOperations.get(action.payload.type);
+      const operation = state.activeOperations.get(action.payload.id);
       if (!operation) return state;
 
       const newOperations = new Map(state.activeOperations);
-      newOperations.set(action.payload.type, {
+      newOperations.set(action.payload.id, {
         ...operation,
+        type: action.payload.type,
         progress: action.payload.progress,
         message: action.payload.message ?? operation.message,
       });
@@ -52,7 +53,7 @@ function loadingReducer(
     }
     case "STOP_LOADING": {
       const newOperations = new Map(state.activeOperations);
-      newOperations.delete(action.payload.type);
+      newOperations.delete(action.payload.id);
       return {
         isLoading: newOperations.size > 0,
         activeOperations: newOperations,
@@ -63,35 +64,33 @@ function loadingReducer(
   }
 }
 
-const LoadingContext = createContext<
-  (LoadingContextState & LoadingContextActions) | undefined
->(undefined);
+const LoadingContext = createContext<LoadingContextType | undefined>(undefined);
 
 export function LoadingProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(loadingReducer, initialState);
 
-  const startLoading = useCallback((type: LoadingType, message?: string) => {
-    dispatch({ type: "START_LOADING", payload: { type, message } });
+  const startLoading = useCallback((type: LoadingType, message?: string, id: string = type) => {
+    dispatch({ type: "START_LOADING", payload: { id, type, message } });
   }, []);
 
   const updateLoading = useCallback(
-    (type: LoadingType, progress?: number, message?: string) => {
-      dispatch({ type: "UPDATE_LOADING", payload: { type, progress, message } });
+    (type: LoadingType, progress?: number, message?: string, id: string = type) => {
+      dispatch({ type: "UPDATE_LOADING", payload: { id, type, progress, message } });
     },
     []
   );
 
-  const stopLoading = useCallback((type: LoadingType) => {
-    dispatch({ type: "STOP_LOADING", payload: { type } });
+  const stopLoading = useCallback((id: string) => {
+    dispatch({ type: "STOP_LOADING", payload: { id } });
   }, []);
 
   const isOperationLoading = useCallback(
-    (type: LoadingType) => state.activeOperations.has(type),
+    (id: string) => state.activeOperations.has(id),
     [state.activeOperations]
   );
 
   const getLoadingState = useCallback(
-    (type: LoadingType) => state.activeOperations.get(type),
+    (id: string) => state.activeOperations.get(id),
     [state.activeOperations]
   );
 
@@ -117,4 +116,4 @@ export function useLoading() {
     throw new Error("useLoading must be used within a LoadingProvider");
   }
   return context;
-} 
\ No newline at end of file
+}
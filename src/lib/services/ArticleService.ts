@@ -0,0 +1,192 @@
+import { createHash } from "crypto";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { UserSummaryRecord, VideoRecord } from "@/lib/types/database";
+import { StoredTranscript, VideoProcessingOptions } from "@/lib/types/storage";
+import { ARTICLE_EXTRACTOR_PROVIDER } from "@/lib/types/transcript";
+import { extractArticle, normalizeArticleUrl } from "@/lib/utils/article";
+import { parsePodcastUrl } from "@/lib/utils/podcast";
+import { readLimitedBody, safeFetch } from "@/lib/utils/safeFetch";
+import { getTranscript, getTranscriptPath, storeTranscript } from "@/lib/utils/storage";
+import { DatabaseService } from "./DatabaseService";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+// Largest page downloaded; article HTML is rarely over a megabyte
+const MAX_ARTICLE_BYTES = 5 * 1024 * 1024;
+// Articles with less text than this are usually paywalls or script-rendered pages
+const MIN_ARTICLE_WORDS = 100;
+
+const HTML_CONTENT_TYPES = ["text/html", "application/xhtml+xml"];
+
+/**
+ * ID an article is stored under, derived from its normalized URL
+ */
+export function getArticleId(url: string): string {
+  return `article_${createHash("sha1").update(normalizeArticleUrl(url)).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Service class for summarizing web articles and blog posts
+ */
+export class ArticleService extends DatabaseService {
+  private videoProcessing: VideoProcessingService;
+
+  constructor() {
+    super("ArticleService");
+    this.videoProcessing = new VideoProcessingService();
+  }
+
+  /**
+   * Extract the readable text of an article and summarize it
+   *
+   * The article is stored alongside videos with `content_type` "article",
+   * one transcript segment per paragraph, and its site as the channel.
+   * @param url - Any public http(s) page
+   * @param userId - The user the summary belongs to
+   */
+  async processArticle(
+    url: string,
+    userId: string,
+    options: VideoProcessingOptions = {}
+  ): Promise<UserSummaryRecord> {
+    this.logger.info("Processing article", { url, userId, refresh: !!options.refresh });
+
+    try {
+      const pageUrl = parsePodcastUrl(url);
+      if (!pageUrl) {
+        throw new AppError(
+          "Invalid article URL",
+          ErrorCode.VALIDATION_INVALID_FORMAT,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const articleUrl = normalizeArticleUrl(pageUrl);
+      const contentId = getArticleId(articleUrl);
+
+      let transcript = options.refresh ? null : await getTranscript(contentId);
+      if (!transcript || !(await this.findVideoById(contentId))) {
+        transcript = await this.ingestArticle(contentId, articleUrl, options);
+      }
+
+      const userSummary = await this.videoProcessing.summarizeContent(contentId, userId, transcript, options);
+
+      this.logger.info("Processed article successfully", { contentId, summaryId: userSummary.id });
+
+      return userSummary;
+    } catch (error) {
+      this.logger.error("Failed to process article", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch and extract an article, then store its text and create or update
+   * its site and article records
+   */
+  private async ingestArticle(
+    contentId: string,
+    url: string,
+    options: VideoProcessingOptions
+  ): Promise<StoredTranscript> {
+    const html = await this.fetchPage(url);
+    const article = extractArticle(html, url);
+
+    const wordCount = article.paragraphs.join(" ").split(" ").length;
+    if (wordCount < MIN_ARTICLE_WORDS) {
+      throw new AppError(
+        "No readable article text found at this URL",
+        ErrorCode.ARTICLE_NO_CONTENT,
+        HttpStatus.BAD_REQUEST,
+        { url, wordCount }
+      );
+    }
+
+    // Articles have no timeline; segments keep the paragraph order
+    const segments = article.paragraphs.map(text => ({ start: 0, end: 0, text }));
+    const transcript: StoredTranscript = {
+      video_id: contentId,
+      language: options.language || "en",
+      segments,
+      metadata: {
+        title: article.title,
+        channel: article.siteName,
+        duration: 0,
+        last_updated: new Date(),
+      }
+    };
+
+    await storeTranscript(contentId, transcript);
+
+    const hostname = new URL(url).hostname.replace(/^www\./, "");
+    const siteId = `site_${hostname}`;
+    await this.upsertChannel({
+      id: siteId,
+      name: article.siteName,
+      url: new URL(url).origin,
+      subscriber_count: 0,
+    });
+
+    const now = new Date().toISOString();
+    const publishedAt = article.publishedAt ? new Date(article.publishedAt) : null;
+    const existingArticle = await this.findVideoById(contentId);
+    if (existingArticle) {
+      await this.updateVideo(contentId, {
+        title: article.title,
+        language: transcript.language,
+        last_updated: now
+      });
+    } else {
+      const video: Omit<VideoRecord, 'created_at'> = {
+        id: contentId,
+        channel_id: siteId,
+        content_type: 'article',
+        unique_identifier: url,
+        title: article.title,
+        url: article.canonicalUrl || url,
+        transcript_path: getTranscriptPath(contentId),
+        transcript_provider: ARTICLE_EXTRACTOR_PROVIDER,
+        language: transcript.language,
+        metadata: {
+          author: article.author,
+          word_count: wordCount,
+        },
+        published_at: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt.toISOString() : now,
+        last_updated: now
+      };
+
+      await this.upsertVideo(video);
+    }
+
+    return transcript;
+  }
+
+  /**
+   * Fetch an article page, refusing anything but HTML
+   */
+  private async fetchPage(url: string): Promise<string> {
+    const response = await safeFetch(url, { headers: { accept: "text/html,application/xhtml+xml" } });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new AppError(
+        response.status === 404 ? "Article not found" : "Failed to fetch article",
+        ErrorCode.FETCH_FAILED,
+        response.status === 404 ? HttpStatus.NOT_FOUND : HttpStatus.SERVICE_UNAVAILABLE,
+        { url, status: response.status }
+      );
+    }
+
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() || "";
+    if (!HTML_CONTENT_TYPES.includes(contentType)) {
+      await response.body?.cancel();
+      throw new AppError(
+        "This URL does not point to a web page",
+        ErrorCode.ARTICLE_UNSUPPORTED_CONTENT,
+        HttpStatus.BAD_REQUEST,
+        { url, contentType }
+      );
+    }
+
+    return (await readLimitedBody(response, MAX_ARTICLE_BYTES, "Article")).toString("utf8");
+  }
+}
@@ -0,0 +1,146 @@
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { ChannelBackfill, ChannelFeed, ChannelFeedVideo } from "@/lib/types/channel";
+import { buildChannelUrl, buildVideoUrl, fetchChannelId, parseYouTubeUrl } from "@/lib/utils/youtube";
+import { getElements, getElementText } from "@/lib/utils/xml";
+import { DatabaseService } from "./DatabaseService";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+// Uploads summarized when subscribing, unless the caller asks for another number
+export const DEFAULT_BACKFILL_VIDEOS = 5;
+// YouTube channel feeds list the 15 latest uploads
+export const MAX_BACKFILL_VIDEOS = 15;
+
+/**
+ * Parse a YouTube channel Atom feed
+ */
+export function parseChannelFeed(xml: string): ChannelFeed {
+  const channelId = getElementText(xml, "yt:channelId");
+  if (!channelId) {
+    throw new AppError(
+      "Invalid channel feed",
+      ErrorCode.API_INVALID_RESPONSE,
+      HttpStatus.SERVICE_UNAVAILABLE
+    );
+  }
+
+  // The channel ID is stored without its "UC" prefix in some feeds
+  const fullChannelId = channelId.startsWith("UC") ? channelId : `UC${channelId}`;
+  const [header] = xml.split("<entry");
+  const videos: ChannelFeedVideo[] = getElements(xml, "entry")
+    .map(entry => ({
+      videoId: getElementText(entry, "yt:videoId") || "",
+      title: getElementText(entry, "title") || "Untitled",
+      publishedAt: getElementText(entry, "published"),
+    }))
+    .filter(video => video.videoId.length > 0);
+
+  return {
+    channelId: fullChannelId,
+    title: getElementText(header, "title") || "Unknown Channel",
+    url: buildChannelUrl(fullChannelId),
+    videos,
+  };
+}
+
+/**
+ * Service class for subscribing to YouTube channels and summarizing their latest uploads
+ */
+export class ChannelService extends DatabaseService {
+  private videoProcessing: VideoProcessingService;
+
+  constructor() {
+    super("ChannelService");
+    this.videoProcessing = new VideoProcessingService();
+  }
+
+  /**
+   * Resolve a channel URL, save the channel, subscribe the user to it and
+   * list its latest uploads
+   * @param url - Channel URL: /channel/ID, /@handle, /c/name or /user/name
+   * @param userId - The user subscribing
+   * @param limit - Number of latest uploads to return for backfilling
+   * @returns The channel, the subscription and the uploads to summarize;
+   * call `backfillChannel` to summarize them
+   */
+  async subscribeToChannel(
+    url: string,
+    userId: string,
+    limit: number = DEFAULT_BACKFILL_VIDEOS
+  ): Promise<ChannelBackfill> {
+    const parsed = parseYouTubeUrl(url);
+    if (parsed?.type !== "channel") {
+      throw new AppError(
+        "Invalid YouTube channel URL",
+        ErrorCode.CHANNEL_INVALID_URL,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const channelId = await fetchChannelId(parsed);
+    const feed = await this.fetchChannelFeed(channelId);
+
+    const channel = await this.upsertChannel({
+      id: feed.channelId,
+      name: feed.title,
+      url: feed.url,
+      subscriber_count: (await this.findChannelById(feed.channelId))?.subscriber_count || 0,
+    });
+
+    const subscriptions = await this.getSubscriptions(userId);
+    const subscription = subscriptions.find(
+      s => s.subscription_type === "channel" && s.subscription_id === channel.id
+    ) || await this.addSubscription({
+      user_id: userId,
+      subscription_type: "channel",
+      subscription_id: channel.id,
+    });
+
+    const videos = feed.videos.slice(0, Math.min(limit, MAX_BACKFILL_VIDEOS));
+    this.logger.info("Subscribed to channel", { channelId: channel.id, userId, videos: videos.length });
+
+    return { channel, subscription, videos };
+  }
+
+  /**
+   * Summarize a channel's uploads one at a time. Failures are logged and do
+   * not stop the remaining uploads.
+   * @returns The number of uploads summarized
+   */
+  async backfillChannel(channelId: string, videos: ChannelFeedVideo[], userId: string): Promise<number> {
+    let completed = 0;
+
+    for (const video of videos) {
+      try {
+        await this.videoProcessing.processVideo(buildVideoUrl(video.videoId), userId, { channelId });
+        completed++;
+      } catch (error) {
+        this.logger.error("Failed to summarize channel upload", error as Error, {
+          channelId,
+          videoId: video.videoId,
+        });
+      }
+    }
+
+    this.logger.info("Backfilled channel", { channelId, completed, total: videos.length });
+    return completed;
+  }
+
+  /**
+   * Fetch a channel's public Atom feed
+   */
+  async fetchChannelFeed(channelId: string): Promise<ChannelFeed> {
+    const response = await fetch(`https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`);
+    if (!response.ok) {
+      throw response.status === 404
+        ? new AppError("Channel not found", ErrorCode.CHANNEL_NOT_FOUND, HttpStatus.NOT_FOUND)
+        : new AppError(
+            "Failed to fetch channel feed",
+            ErrorCode.API_SERVICE_UNAVAILABLE,
+            HttpStatus.SERVICE_UNAVAILABLE
+          );
+    }
+
+    return parseChannelFeed(await response.text());
+  }
+
+}
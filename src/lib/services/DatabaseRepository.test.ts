@@ -0,0 +1,269 @@
+import { randomUUID } from "crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { ErrorCode } from "@/lib/types/errors";
+import { VideoRecord } from "@/lib/types/database";
+import { DatabaseRepository } from "@/lib/types/repository";
+import { MemoryRepository } from "./MemoryRepository";
+import { SqliteRepository } from "./SqliteRepository";
+import { SupabaseRepository } from "./SupabaseRepository";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Every backend must pass the same suite. Supabase runs only when a project
+// is configured; each run uses fresh IDs so it can share a database.
+const backends: [string, (() => DatabaseRepository) | null][] = [
+  ["memory", () => new MemoryRepository()],
+  ["sqlite", () => new SqliteRepository(":memory:")],
+  ["supabase", supabaseUrl && supabaseKey ? () => new SupabaseRepository(supabaseUrl, supabaseKey) : null],
+];
+
+describe.each(backends)("%s repository", (_name, create) => {
+  let db: DatabaseRepository;
+  let userA: string;
+  let userB: string;
+  let video: VideoRecord;
+
+  beforeEach(async () => {
+    if (!create) return;
+    db = create();
+    userA = `user-a-${randomUUID()}`;
+    userB = `user-b-${randomUUID()}`;
+
+    const channel = await db.upsertChannel({
+      id: `channel-${randomUUID()}`,
+      name: "Contract Channel",
+      url: "https://www.youtube.com/@contract",
+      subscriber_count: 0,
+    });
+    const videoId = `video-${randomUUID()}`;
+    video = await db.upsertVideo({
+      id: videoId,
+      channel_id: channel.id,
+      content_type: "video",
+      unique_identifier: videoId,
+      title: "Contract video",
+      url: `https://www.youtube.com/watch?v=${videoId}`,
+      transcript_path: `transcripts/${videoId}.json`,
+      transcript_provider: "mock",
+      language: "en",
+      metadata: { duration: 15 },
+      published_at: "2024-01-01T00:00:00.000Z",
+      last_updated: "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  const test = create ? it : it.skip;
+
+  test("returns videos with their channel and finds them by URL", async () => {
+    expect(video.channel?.name).toBe("Contract Channel");
+    expect(video.metadata).toEqual({ duration: 15 });
+
+    expect((await db.findVideoById(video.id))?.title).toBe("Contract video");
+    expect((await db.findVideoByUrl(video.url))?.id).toBe(video.id);
+    expect(await db.findVideoById(`missing-${randomUUID()}`)).toBeNull();
+  });
+
+  test("upserts a video in place, keeping its summaries and creation time", async () => {
+    const summary = await db.createUserSummary({
+      user_id: userA,
+      video_id: video.id,
+      summary: "Summary",
+      detailed_summary: null,
+      tags: [],
+      content_summary_id: null,
+    });
+
+    const { channel, created_at, ...fields } = video;
+    const updated = await db.upsertVideo({ ...fields, title: "Renamed video" });
+
+    expect(updated.title).toBe("Renamed video");
+    expect(updated.created_at).toBe(created_at);
+    expect(updated.channel?.id).toBe(channel?.id);
+    expect(await db.findUserSummaryById(summary.id)).not.toBeNull();
+  });
+
+  test("creates user summaries with unique IDs and lists them per user, newest first", async () => {
+    const first = await db.createUserSummary({
+      user_id: userA,
+      video_id: video.id,
+      summary: "First",
+      detailed_summary: null,
+      tags: ["a"],
+      content_summary_id: null,
+    });
+    const second = await db.createUserSummary({
+      user_id: userA,
+      video_id: video.id,
+      summary: "Second",
+      detailed_summary: null,
+      tags: [],
+      content_summary_id: null,
+    });
+
+    expect(first.id).toMatch(UUID_PATTERN);
+    expect(first.id).not.toBe(second.id);
+    expect(first.tags).toEqual(["a"]);
+    expect(first.videos?.id).toBe(video.id);
+
+    expect((await db.getUserSummaries(userA)).map(summary => summary.id)).toEqual([second.id, first.id]);
+    expect(await db.getUserSummaries(userB)).toEqual([]);
+    expect((await db.findSummaryByVideoId(video.id, userA))?.id).toBe(first.id);
+    expect(await db.findSummaryByVideoId(video.id, userB)).toBeNull();
+
+    const updated = await db.updateUserSummary(first.id, { detailed_summary: "Detailed" });
+    expect(updated.detailed_summary).toBe("Detailed");
+    expect(updated.summary).toBe("First");
+  });
+
+  test("refuses to update records that do not exist", async () => {
+    const missing = `missing-${randomUUID()}`;
+
+    await expect(db.updateUserSummary(missing, { summary: "x" })).rejects.toMatchObject({
+      code: ErrorCode.STORAGE_FILE_NOT_FOUND,
+    });
+    await expect(db.updateVideo(missing, { title: "x" })).rejects.toMatchObject({
+      code: ErrorCode.STORAGE_FILE_NOT_FOUND,
+    });
+    await expect(db.updateJob(missing, { status: "failed" })).rejects.toMatchObject({
+      code: ErrorCode.JOB_NOT_FOUND,
+    });
+  });
+
+  test("keeps one content summary per content and prompt version", async () => {
+    const first = await db.upsertContentSummary({
+      content_id: video.id,
+      prompt_version: "1",
+      summary: "Original",
+      detailed_summary: null,
+      tags: [],
+    });
+    const again = await db.upsertContentSummary({
+      content_id: video.id,
+      prompt_version: "1",
+      summary: "Regenerated",
+      detailed_summary: null,
+      tags: ["x"],
+    });
+    const other = await db.upsertContentSummary({
+      content_id: video.id,
+      prompt_version: "2",
+      summary: "New prompt",
+      detailed_summary: null,
+      tags: [],
+    });
+
+    expect(first.id).toMatch(UUID_PATTERN);
+    expect(again.id).toBe(first.id);
+    expect(again.summary).toBe("Regenerated");
+    expect(other.id).not.toBe(first.id);
+    expect((await db.findContentSummary(video.id, "1"))?.tags).toEqual(["x"]);
+  });
+
+  test("reuses tags by name and lists a content's tags in order", async () => {
+    const name = `tag-${randomUUID()}`;
+    const tag = await db.findOrCreateTag(name);
+    const other = await db.findOrCreateTag(`${name}-other`);
+
+    expect(tag.id).toMatch(UUID_PATTERN);
+    expect((await db.findOrCreateTag(name)).id).toBe(tag.id);
+
+    await db.addContentTag({ content_id: video.id, tag_id: other.id, content_type: "video" });
+    await db.addContentTag({ content_id: video.id, tag_id: tag.id, content_type: "video" });
+    expect((await db.getContentTags(video.id)).map(found => found.name)).toEqual([other.name, name]);
+  });
+
+  test("adds and removes a user's subscriptions", async () => {
+    const subscription = await db.addSubscription({
+      user_id: userA,
+      subscription_type: "channel",
+      subscription_id: video.channel_id,
+    });
+
+    expect(subscription.id).toMatch(UUID_PATTERN);
+    expect((await db.getSubscriptions(userA)).map(found => found.id)).toEqual([subscription.id]);
+    expect(await db.getSubscriptions(userB)).toEqual([]);
+
+    await db.removeSubscription(userA, subscription.id);
+    expect(await db.findSubscriptionById(subscription.id)).toBeNull();
+  });
+
+  test("keeps a user's questions about a content, oldest first", async () => {
+    const ask = (userId: string, question: string) =>
+      db.createContentQuestion({
+        user_id: userId,
+        content_id: video.id,
+        question,
+        response: "Answer",
+        citations: [{ start: 1 }],
+      });
+    const first = await ask(userA, "First?");
+    const second = await ask(userA, "Second?");
+    await ask(userB, "Someone else's?");
+
+    expect(first.id).toMatch(UUID_PATTERN);
+    expect(first.citations).toEqual([{ start: 1 }]);
+    expect((await db.getContentQuestions(userA, video.id)).map(found => found.id)).toEqual([first.id, second.id]);
+
+    await db.deleteContentQuestion(userA, first.id);
+    expect(await db.findContentQuestionById(first.id)).toBeNull();
+    await db.deleteContentQuestions(userA, video.id);
+    expect(await db.getContentQuestions(userA, video.id)).toEqual([]);
+    expect(await db.getContentQuestions(userB, video.id)).toHaveLength(1);
+  });
+
+  test("keeps playlists and their items in order", async () => {
+    const playlist = await db.createPlaylist({
+      user_id: userA,
+      playlist_id: `PL${randomUUID()}`,
+      title: "Contract playlist",
+      url: "https://www.youtube.com/playlist?list=PLcontract",
+      provider: "youtube",
+      status: "pending",
+      synthesis: null,
+    });
+    const items = await db.createPlaylistItems(
+      [2, 0, 1].map(position => ({
+        playlist_id: playlist.id,
+        video_id: `${video.id}-${position}`,
+        title: `Video ${position}`,
+        position,
+        status: "pending" as const,
+        summary_id: null,
+        error: null,
+      }))
+    );
+
+    expect(playlist.id).toMatch(UUID_PATTERN);
+    expect(new Set(items.map(item => item.id)).size).toBe(3);
+    expect((await db.getUserPlaylists(userA)).map(found => found.id)).toEqual([playlist.id]);
+    expect((await db.getPlaylistItems(playlist.id)).map(item => item.position)).toEqual([0, 1, 2]);
+
+    const item = await db.updatePlaylistItem(items[0].id, { status: "failed", error: "Unavailable" });
+    expect(item).toMatchObject({ status: "failed", error: "Unavailable" });
+    expect((await db.updatePlaylist(playlist.id, { status: "completed" })).status).toBe("completed");
+  });
+
+  test("saves jobs and their updates", async () => {
+    const job = await db.createJob({
+      user_id: userA,
+      type: "video",
+      input: { url: video.url },
+      status: "pending",
+      stage: null,
+      error: null,
+      result_id: null,
+      heartbeat_at: null,
+    });
+
+    expect(job.id).toMatch(UUID_PATTERN);
+    expect(job.input).toEqual({ url: video.url });
+
+    const updated = await db.updateJob(job.id, { status: "processing", stage: "summary" });
+    expect(updated).toMatchObject({ status: "processing", stage: "summary", type: "video" });
+    expect((await db.getUserJobs(userA)).map(found => found.id)).toEqual([job.id]);
+    expect(await db.getUserJobs(userB)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobRecord, PlaylistItemRecord, PlaylistRecord, UserSummaryRecord } from "@/lib/types/database";
+import { DatabaseService } from "./DatabaseService";
+import { MemoryRepository } from "./MemoryRepository";
+
+const OWNER = "user-a";
+const OTHER = "user-b";
+const MISSING_ID = "00000000-0000-4000-8000-000000000000";
+
+const forbidden = expect.objectContaining({ code: ErrorCode.AUTH_FORBIDDEN, statusCode: HttpStatus.FORBIDDEN });
+const notFound = expect.objectContaining({ statusCode: HttpStatus.NOT_FOUND });
+
+describe("DatabaseService access to another user's records", () => {
+  let db: DatabaseService;
+  let summary: UserSummaryRecord;
+  let playlist: PlaylistRecord;
+  let item: PlaylistItemRecord;
+  let job: JobRecord;
+
+  beforeEach(async () => {
+    db = new DatabaseService("Test", new MemoryRepository());
+
+    summary = await db.createUserSummary({
+      user_id: OWNER,
+      video_id: "dQw4w9WgXcQ",
+      summary: "Private summary",
+      detailed_summary: null,
+      tags: [],
+      content_summary_id: null,
+    });
+    playlist = await db.createPlaylist({
+      user_id: OWNER,
+      playlist_id: "PLprivate",
+      title: "Private playlist",
+      url: "https://www.youtube.com/playlist?list=PLprivate",
+      provider: "youtube",
+      status: "pending",
+      synthesis: null,
+    });
+    [item] = await db.createPlaylistItems(OWNER, [{
+      playlist_id: playlist.id,
+      video_id: "dQw4w9WgXcQ",
+      title: null,
+      position: 0,
+      status: "pending",
+      summary_id: null,
+      error: null,
+    }]);
+    job = await db.createJob({
+      user_id: OWNER,
+      type: "video",
+      input: { url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+      status: "pending",
+      stage: null,
+      error: null,
+      result_id: null,
+      heartbeat_at: null,
+    });
+  });
+
+  it("refuses to read or update another user's summary", async () => {
+    await expect(db.findUserSummaryById(OTHER, summary.id)).rejects.toEqual(forbidden);
+    await expect(db.updateUserSummary(OTHER, summary.id, { summary: "Overwritten" })).rejects.toEqual(forbidden);
+    await expect(db.updateUserSummary(OTHER, MISSING_ID, { summary: "Overwritten" })).rejects.toEqual(notFound);
+
+    expect((await db.findUserSummaryById(OWNER, summary.id))?.summary).toBe("Private summary");
+    expect(await db.findSummaryByVideoId(summary.video_id, OTHER)).toBeNull();
+  });
+
+  it("keeps a summary with its owner when an update names another user", async () => {
+    const updated = await db.updateUserSummary(OWNER, summary.id, { user_id: OTHER, summary: "Edited" });
+
+    expect(updated.user_id).toBe(OWNER);
+    expect(updated.summary).toBe("Edited");
+  });
+
+  it("refuses to delete another user's question", async () => {
+    const question = await db.createContentQuestion({
+      user_id: OWNER,
+      content_id: summary.video_id,
+      question: "What happens?",
+      response: null,
+      citations: null,
+    });
+
+    await expect(db.deleteContentQuestion(OTHER, question.id)).rejects.toEqual(forbidden);
+    await expect(db.deleteContentQuestion(OTHER, MISSING_ID)).rejects.toEqual(notFound);
+    await db.deleteContentQuestions(OTHER, summary.video_id);
+
+    expect(await db.getContentQuestions(OWNER, summary.video_id)).toHaveLength(1);
+  });
+
+  it("refuses to remove another user's subscription", async () => {
+    const subscription = await db.addSubscription({
+      user_id: OWNER,
+      subscription_type: "channel",
+      subscription_id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+    });
+
+    await expect(db.removeSubscription(OTHER, subscription.id)).rejects.toEqual(forbidden);
+    await expect(db.removeSubscription(OTHER, MISSING_ID)).rejects.toEqual(notFound);
+
+    expect(await db.getSubscriptions(OWNER)).toHaveLength(1);
+  });
+
+  it("refuses to read or change another user's playlist and its items", async () => {
+    await expect(db.findPlaylistById(OTHER, playlist.id)).rejects.toEqual(forbidden);
+    await expect(db.updatePlaylist(OTHER, playlist.id, { title: "Renamed" })).rejects.toEqual(forbidden);
+    await expect(db.getPlaylistItems(OTHER, playlist.id)).rejects.toEqual(forbidden);
+    await expect(db.updatePlaylistItem(OTHER, item.id, { status: "failed" })).rejects.toEqual(forbidden);
+    await expect(db.createPlaylistItems(OTHER, [{ ...item, position: 1 }])).rejects.toEqual(forbidden);
+    await expect(db.updatePlaylist(OTHER, MISSING_ID, { title: "Renamed" })).rejects.toEqual(notFound);
+    await expect(db.updatePlaylistItem(OTHER, MISSING_ID, { status: "failed" })).rejects.toEqual(notFound);
+
+    expect((await db.getPlaylistItems(OWNER, playlist.id)).map(found => found.status)).toEqual(["pending"]);
+  });
+
+  it("refuses to read or update another user's job", async () => {
+    await expect(db.findJobById(OTHER, job.id)).rejects.toEqual(forbidden);
+    await expect(db.updateJob(OTHER, job.id, { status: "failed" })).rejects.toEqual(forbidden);
+    await expect(db.updateJob(OTHER, MISSING_ID, { status: "failed" })).rejects.toEqual(notFound);
+
+    expect(await db.getUserJobs(OTHER)).toEqual([]);
+    expect((await db.findJobById(OWNER, job.id))?.status).toBe("pending");
+  });
+});
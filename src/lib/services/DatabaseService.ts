@@ -1,229 +1,341 @@
+import path from "path";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
 import { logger } from "@/lib/utils/logger";
 import { 
   VideoRecord, 
   UserSummaryRecord, 
+  ContentSummaryRecord,
   ChannelRecord, 
   ProfileRecord,
   TagRecord,
   ContentTagRecord,
-  SubscriptionRecord
+  SubscriptionRecord,
+  ContentQuestionRecord,
+  PlaylistRecord,
+  PlaylistItemRecord,
+  JobRecord
 } from '@/lib/types/database';
+import { DatabaseBackendName, DatabaseRepository } from "@/lib/types/repository";
+import { MemoryRepository } from "@/lib/services/MemoryRepository";
+import { SqliteRepository } from "@/lib/services/SqliteRepository";
+import { SupabaseRepository } from "@/lib/services/SupabaseRepository";
 
-// In-memory storage
-const store = {
-  videos: new Map<string, VideoRecord>(),
-  channels: new Map<string, ChannelRecord>(),
-  profiles: new Map<string, ProfileRecord>(),
-  summaries: new Map<string, UserSummaryRecord>(),
-  tags: new Map<string, TagRecord>(),
-  contentTags: new Map<string, ContentTagRecord[]>(),
-  subscriptions: new Map<string, SubscriptionRecord[]>()
+/**
+ * Create the database backend selected by `DATABASE_BACKEND` (SQLite by
+ * default)
+ */
+export function createDatabaseRepository(): DatabaseRepository {
+  const name = process.env.DATABASE_BACKEND || DatabaseBackendName.SQLITE;
+
+  switch (name) {
+    case DatabaseBackendName.MEMORY:
+      return new MemoryRepository();
+    case DatabaseBackendName.SQLITE:
+      return new SqliteRepository(
+        process.env.DATABASE_PATH || path.join(process.cwd(), "storage", "database.sqlite")
+      );
+    case DatabaseBackendName.SUPABASE: {
+      const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !serviceKey) {
+        throw new AppError(
+          "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for the Supabase database",
+          ErrorCode.VALIDATION_REQUIRED_FIELD,
+          HttpStatus.INTERNAL_ERROR
+        );
+      }
+      return new SupabaseRepository(url.replace(/\/+$/, ""), serviceKey);
+    }
+    default:
+      throw new AppError(
+        `Unknown database backend: ${name}`,
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.INTERNAL_ERROR,
+        { known: Object.values(DatabaseBackendName) }
+      );
+  }
+}
+
+// Shared by every service, and created on first use like the transcript storage
+let defaultRepository: DatabaseRepository | null = null;
+
+const getDefaultRepository = (): DatabaseRepository => {
+  defaultRepository = defaultRepository || createDatabaseRepository();
+  return defaultRepository;
 };
 
 /**
- * Base service class for database operations
+ * Base service class for database operations. Records are kept by the
+ * configured `DatabaseRepository`.
+ *
+ * Methods that read or change one user's records by ID take the acting user
+ * and fail with 404 when the record does not exist and 403 when it belongs
+ * to someone else. Shared content (videos, channels, content summaries and
+ * tags) is readable by everyone.
  */
 export class DatabaseService {
   protected logger;
+  private repository?: DatabaseRepository;
 
-  constructor(context: string) {
+  /**
+   * @param context - Name the service logs under
+   * @param repository - Backend to use instead of the configured one
+   */
+  constructor(context: string, repository?: DatabaseRepository) {
     this.logger = logger.withContext({ service: context });
+    this.repository = repository;
+  }
+
+  protected get db(): DatabaseRepository {
+    return this.repository || getDefaultRepository();
   }
 
   // Profile methods
   async getProfile(userId: string): Promise<ProfileRecord | null> {
-    return store.profiles.get(userId) || null;
+    return this.db.getProfile(userId);
   }
 
   async upsertProfile(profile: Omit<ProfileRecord, 'created_at'>): Promise<ProfileRecord> {
-    const now = new Date().toISOString();
-    const fullProfile = {
-      ...profile,
-      created_at: now
-    };
-    store.profiles.set(profile.id, fullProfile);
-    return fullProfile;
+    return this.db.upsertProfile(profile);
   }
 
   // Channel methods
   async findChannelById(id: string): Promise<ChannelRecord | null> {
-    return store.channels.get(id) || null;
+    return this.db.findChannelById(id);
   }
 
   async upsertChannel(channel: Omit<ChannelRecord, 'created_at'>): Promise<ChannelRecord> {
-    const now = new Date().toISOString();
-    const fullChannel = {
-      ...channel,
-      created_at: now
-    };
-    store.channels.set(channel.id, fullChannel);
-    return fullChannel;
+    return this.db.upsertChannel(channel);
   }
 
   // Video methods
   async findVideoById(id: string): Promise<VideoRecord | null> {
-    const video = store.videos.get(id);
-    if (!video) return null;
-    
-    const channel = store.channels.get(video.channel_id);
-    return {
-      ...video,
-      channel
-    };
-  }
-
-  async createVideo(video: Omit<VideoRecord, 'created_at'>): Promise<VideoRecord> {
-    const now = new Date().toISOString();
-    const fullVideo = {
-      ...video,
-      created_at: now,
-      channels: {
-        name: video.channel_id,
-        url: '',
-        subscriber_count: 0,
-        created_at: now,
-        id: video.channel_id
-      }
-    };
-    store.videos.set(video.id, fullVideo);
-    return fullVideo;
+    return this.db.findVideoById(id);
   }
 
-  async updateVideo(id: string, video: Partial<VideoRecord>): Promise<VideoRecord> {
-    const existing = store.videos.get(id);
-    if (!existing) {
-      throw new AppError(
-        'Video not found',
-        ErrorCode.STORAGE_FILE_NOT_FOUND,
-        HttpStatus.NOT_FOUND
-      );
-    }
+  /**
+   * Find content by the URL it was submitted with: its page URL, its unique
+   * identifier or, for podcast episodes, the feed it came from
+   */
+  async findVideoByUrl(url: string): Promise<VideoRecord | null> {
+    return this.db.findVideoByUrl(url);
+  }
+
+  async upsertVideo(video: Omit<VideoRecord, 'created_at'>): Promise<VideoRecord> {
+    return this.db.upsertVideo(video);
+  }
 
-    const updated = {
-      ...existing,
-      ...video,
-      id
-    };
-    store.videos.set(id, updated);
-    return updated;
+  async updateVideo(id: string, video: Partial<VideoRecord>): Promise<VideoRecord> {
+    return this.db.updateVideo(id, video);
   }
 
   // Summary methods
   async getUserSummaries(userId: string): Promise<UserSummaryRecord[]> {
-    const summaries = Array.from(store.summaries.values())
-      .filter(s => s.user_id === userId)
-      .sort((a, b) => b.created_at.localeCompare(a.created_at));
-
-    return Promise.all(summaries.map(async s => {
-      const video = await this.findVideoById(s.video_id);
-      return {
-        ...s,
-        videos: video
-      };
-    }));
+    return this.db.getUserSummaries(userId);
   }
 
   async createUserSummary(summary: Omit<UserSummaryRecord, 'id' | 'created_at' | 'updated_at'>): Promise<UserSummaryRecord> {
-    const now = new Date().toISOString();
-    const id = Math.random().toString(36).substring(7);
-    const video = store.videos.get(summary.video_id);
-    
-    const fullSummary = {
-      ...summary,
-      id,
-      created_at: now,
-      updated_at: now,
-      videos: video
-    };
-    
-    store.summaries.set(id, fullSummary);
-    return fullSummary;
-  }
-
-  async updateUserSummary(id: string, summary: Partial<UserSummaryRecord>): Promise<UserSummaryRecord> {
-    const existing = store.summaries.get(id);
-    if (!existing) {
-      throw new AppError(
-        'Summary not found',
-        ErrorCode.STORAGE_FILE_NOT_FOUND,
-        HttpStatus.NOT_FOUND
-      );
-    }
+    return this.db.createUserSummary(summary);
+  }
 
-    const updated = {
-      ...existing,
-      ...summary,
-      id,
-      updated_at: new Date().toISOString()
-    };
-    store.summaries.set(id, updated);
-    return updated;
+  /**
+   * @returns The summary, or null when it does not exist
+   * @throws AppError 403 when another user owns it
+   */
+  async findUserSummaryById(userId: string, id: string): Promise<UserSummaryRecord | null> {
+    const summary = await this.db.findUserSummaryById(id);
+    return summary && this.assertOwner(summary, userId, 'summary');
+  }
+
+  async updateUserSummary(userId: string, id: string, summary: Partial<UserSummaryRecord>): Promise<UserSummaryRecord> {
+    this.requireFound(await this.findUserSummaryById(userId, id), 'Summary not found', ErrorCode.STORAGE_FILE_NOT_FOUND);
+    const { user_id: _userId, ...changes } = summary;
+    return this.db.updateUserSummary(id, changes);
   }
 
   async findSummaryByVideoId(videoId: string, userId: string): Promise<UserSummaryRecord | null> {
-    const summary = Array.from(store.summaries.values()).find(
-      s => s.video_id === videoId && s.user_id === userId
-    );
-    
-    if (!summary) return null;
+    return this.db.findSummaryByVideoId(videoId, userId);
+  }
 
-    const video = await this.findVideoById(summary.video_id);
-    return {
-      ...summary,
-      videos: video
-    };
+  // Content summary methods
+  async findContentSummary(contentId: string, promptVersion: string): Promise<ContentSummaryRecord | null> {
+    return this.db.findContentSummary(contentId, promptVersion);
+  }
+
+  async findContentSummaryById(id: string): Promise<ContentSummaryRecord | null> {
+    return this.db.findContentSummaryById(id);
+  }
+
+  async upsertContentSummary(
+    summary: Omit<ContentSummaryRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ContentSummaryRecord> {
+    return this.db.upsertContentSummary(summary);
+  }
+
+  async updateContentSummary(id: string, summary: Partial<ContentSummaryRecord>): Promise<ContentSummaryRecord> {
+    return this.db.updateContentSummary(id, summary);
   }
 
   // Tag methods
   async findOrCreateTag(name: string): Promise<TagRecord> {
-    const existingTag = Array.from(store.tags.values()).find(t => t.name === name);
-    if (existingTag) return existingTag;
-
-    const id = Math.random().toString(36).substring(7);
-    const tag = {
-      id,
-      name,
-      created_at: new Date().toISOString()
-    };
-    store.tags.set(id, tag);
-    return tag;
+    return this.db.findOrCreateTag(name);
   }
 
   async addContentTag(contentTag: ContentTagRecord): Promise<void> {
-    const tags = store.contentTags.get(contentTag.content_id) || [];
-    tags.push(contentTag);
-    store.contentTags.set(contentTag.content_id, tags);
+    return this.db.addContentTag(contentTag);
   }
 
   async getContentTags(contentId: string): Promise<TagRecord[]> {
-    const contentTags = store.contentTags.get(contentId) || [];
-    return Promise.all(contentTags.map(ct => store.tags.get(ct.tag_id)!));
+    return this.db.getContentTags(contentId);
   }
 
   // Subscription methods
   async getSubscriptions(userId: string): Promise<SubscriptionRecord[]> {
-    return store.subscriptions.get(userId) || [];
+    return this.db.getSubscriptions(userId);
   }
 
   async addSubscription(subscription: Omit<SubscriptionRecord, 'id' | 'created_at'>): Promise<SubscriptionRecord> {
-    const id = Math.random().toString(36).substring(7);
-    const fullSubscription = {
-      ...subscription,
-      id,
-      created_at: new Date().toISOString()
-    };
+    return this.db.addSubscription(subscription);
+  }
 
-    const userSubs = store.subscriptions.get(subscription.user_id) || [];
-    userSubs.push(fullSubscription);
-    store.subscriptions.set(subscription.user_id, userSubs);
+  async removeSubscription(userId: string, subscriptionId: string): Promise<void> {
+    const subscription = this.requireFound(
+      await this.db.findSubscriptionById(subscriptionId),
+      'Subscription not found',
+      ErrorCode.CHANNEL_NOT_FOUND
+    );
+    this.assertOwner(subscription, userId, 'subscription');
+    return this.db.removeSubscription(userId, subscriptionId);
+  }
 
-    return fullSubscription;
+  // Content question methods
+  async getContentQuestions(userId: string, contentId: string): Promise<ContentQuestionRecord[]> {
+    return this.db.getContentQuestions(userId, contentId);
   }
 
-  async removeSubscription(userId: string, subscriptionId: string): Promise<void> {
-    const userSubs = store.subscriptions.get(userId) || [];
-    const filtered = userSubs.filter(s => s.id !== subscriptionId);
-    store.subscriptions.set(userId, filtered);
+  async createContentQuestion(question: Omit<ContentQuestionRecord, 'id' | 'created_at'>): Promise<ContentQuestionRecord> {
+    return this.db.createContentQuestion(question);
+  }
+
+  async deleteContentQuestion(userId: string, questionId: string): Promise<void> {
+    const question = this.requireFound(
+      await this.db.findContentQuestionById(questionId),
+      'Question not found',
+      ErrorCode.STORAGE_FILE_NOT_FOUND
+    );
+    this.assertOwner(question, userId, 'question');
+    return this.db.deleteContentQuestion(userId, questionId);
+  }
+
+  async deleteContentQuestions(userId: string, contentId: string): Promise<void> {
+    return this.db.deleteContentQuestions(userId, contentId);
+  }
+
+  // Playlist methods
+  async getUserPlaylists(userId: string): Promise<PlaylistRecord[]> {
+    return this.db.getUserPlaylists(userId);
+  }
+
+  /**
+   * @returns The playlist, or null when it does not exist
+   * @throws AppError 403 when another user owns it
+   */
+  async findPlaylistById(userId: string, id: string): Promise<PlaylistRecord | null> {
+    const playlist = await this.db.findPlaylistById(id);
+    return playlist && this.assertOwner(playlist, userId, 'playlist');
+  }
+
+  async createPlaylist(playlist: Omit<PlaylistRecord, 'id' | 'created_at' | 'updated_at'>): Promise<PlaylistRecord> {
+    return this.db.createPlaylist(playlist);
+  }
+
+  async updatePlaylist(userId: string, id: string, playlist: Partial<PlaylistRecord>): Promise<PlaylistRecord> {
+    await this.requirePlaylist(userId, id);
+    const { user_id: _userId, ...changes } = playlist;
+    return this.db.updatePlaylist(id, changes);
+  }
+
+  async getPlaylistItems(userId: string, playlistId: string): Promise<PlaylistItemRecord[]> {
+    await this.requirePlaylist(userId, playlistId);
+    return this.db.getPlaylistItems(playlistId);
+  }
+
+  async createPlaylistItems(
+    userId: string,
+    items: Omit<PlaylistItemRecord, 'id' | 'updated_at'>[]
+  ): Promise<PlaylistItemRecord[]> {
+    const playlistIds = items.map(item => item.playlist_id).filter((id, i, ids) => ids.indexOf(id) === i);
+    for (let i = 0; i < playlistIds.length; i++) {
+      await this.requirePlaylist(userId, playlistIds[i]);
+    }
+    return this.db.createPlaylistItems(items);
+  }
+
+  async updatePlaylistItem(userId: string, id: string, item: Partial<PlaylistItemRecord>): Promise<PlaylistItemRecord> {
+    const existing = this.requireFound(
+      await this.db.findPlaylistItemById(id),
+      'Playlist item not found',
+      ErrorCode.PLAYLIST_NOT_FOUND
+    );
+    await this.requirePlaylist(userId, existing.playlist_id);
+
+    const { playlist_id: _playlistId, ...changes } = item;
+    return this.db.updatePlaylistItem(id, changes);
+  }
+
+  // Job methods
+  async getUserJobs(userId: string): Promise<JobRecord[]> {
+    return this.db.getUserJobs(userId);
+  }
+
+  /**
+   * @returns The job, or null when it does not exist
+   * @throws AppError 403 when another user owns it
+   */
+  async findJobById(userId: string, id: string): Promise<JobRecord | null> {
+    const job = await this.db.findJobById(id);
+    return job && this.assertOwner(job, userId, 'job');
+  }
+
+  async createJob(job: Omit<JobRecord, 'id' | 'created_at' | 'updated_at'>): Promise<JobRecord> {
+    return this.db.createJob(job);
+  }
+
+  async updateJob(userId: string, id: string, job: Partial<JobRecord>): Promise<JobRecord> {
+    this.requireFound(await this.findJobById(userId, id), 'Job not found', ErrorCode.JOB_NOT_FOUND);
+    const { user_id: _userId, ...changes } = job;
+    return this.db.updateJob(id, changes);
+  }
+
+  /**
+   * @throws AppError 404 when the playlist does not exist, 403 when another user owns it
+   */
+  protected async requirePlaylist(userId: string, id: string): Promise<PlaylistRecord> {
+    return this.requireFound(await this.findPlaylistById(userId, id), 'Playlist not found', ErrorCode.PLAYLIST_NOT_FOUND);
+  }
+
+  /**
+   * @throws AppError 404 when the record does not exist
+   */
+  private requireFound<T>(record: T | null, message: string, code: ErrorCode): T {
+    if (!record) {
+      throw new AppError(message, code, HttpStatus.NOT_FOUND);
+    }
+    return record;
+  }
+
+  /**
+   * @throws AppError 403 when the record belongs to another user
+   */
+  private assertOwner<T extends { user_id: string }>(record: T, userId: string, resource: string): T {
+    if (record.user_id !== userId) {
+      throw new AppError(
+        `You do not have access to this ${resource}`,
+        ErrorCode.AUTH_FORBIDDEN,
+        HttpStatus.FORBIDDEN,
+        { resource, id: (record as { id?: string }).id }
+      );
+    }
+    return record;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { JobRecord } from "@/lib/types/database";
+import { LoadingProgress } from "@/lib/types/loading";
+import { JobService } from "./JobService";
+import { PlaylistService } from "./PlaylistService";
+
+/**
+ * Save a job as a worker in another process would have left it
+ */
+function createRunningJob(jobs: JobService, heartbeatAgeMs: number): Promise<JobRecord> {
+  return jobs.createJob({
+    user_id: "user-a",
+    type: "video",
+    input: { url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+    status: "processing",
+    stage: "transcript",
+    error: null,
+    result_id: null,
+    heartbeat_at: new Date(Date.now() - heartbeatAgeMs).toISOString(),
+  });
+}
+
+describe("JobService", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("marks a job failed once its heartbeat is stale", async () => {
+    const jobs = new JobService();
+    const job = await createRunningJob(jobs, 5 * 60_000);
+
+    const current = await jobs.getJob("user-a", job.id);
+
+    expect(current.status).toBe("failed");
+    expect(current.error).toMatch(/interrupted/);
+  });
+
+  it("leaves a job with a recent heartbeat running, whichever process runs it", async () => {
+    const jobs = new JobService();
+    const job = await createRunningJob(jobs, 5_000);
+
+    expect((await jobs.getJob("user-a", job.id)).status).toBe("processing");
+    expect(await jobs.getJobs("user-a", true)).toHaveLength(1);
+  });
+
+  it("fails the playlist and its unfinished videos when a playlist job is interrupted", async () => {
+    const jobs = new JobService();
+    const playlists = new PlaylistService();
+    const playlist = await playlists.createPlaylist({
+      user_id: "user-a",
+      playlist_id: "PLinterrupted",
+      title: "Interrupted playlist",
+      url: "https://www.youtube.com/playlist?list=PLinterrupted",
+      provider: "fixture",
+      status: "processing",
+      synthesis: null,
+    });
+    await playlists.createPlaylistItems(
+      "user-a",
+      ["completed", "processing", "pending"].map((status, position) => ({
+        playlist_id: playlist.id,
+        video_id: `video-${position}`,
+        title: null,
+        position,
+        status: status as "completed" | "processing" | "pending",
+        summary_id: null,
+        error: null,
+      }))
+    );
+    const job = await jobs.createJob({
+      user_id: "user-a",
+      type: "playlist",
+      input: { playlist_id: playlist.id },
+      status: "processing",
+      stage: null,
+      error: null,
+      result_id: null,
+      heartbeat_at: new Date(Date.now() - 5 * 60_000).toISOString(),
+    });
+
+    await jobs.failInterruptedJobs("user-a");
+
+    expect((await jobs.getJob("user-a", job.id)).status).toBe("failed");
+    const details = await playlists.getPlaylist(playlist.id, "user-a");
+    expect(details.status).toBe("failed");
+    expect(details.items.map(item => item.status)).toEqual(["completed", "failed", "failed"]);
+    expect(details.items[2].error).toMatch(/interrupted/);
+  });
+
+  it("fails a channel job when none of its uploads could be summarized", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 503 })));
+    const jobs = new JobService();
+
+    const job = await jobs.submitChannelJob("user-a", {
+      channel_id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+      videos: [{ videoId: "dQw4w9WgXcQ", title: "Unavailable upload", publishedAt: null }],
+    });
+    const finished = await jobs.watchJob("user-a", job.id, {});
+
+    expect(finished.type).toBe("channel");
+    expect(finished.status).toBe("failed");
+    expect(finished.error).toMatch(/could be summarized/);
+  });
+
+  it("fails an import job when none of its links could be summarized", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 503 })));
+    const jobs = new JobService();
+
+    const job = await jobs.submitImportJob("user-a", { urls: ["https://www.youtube.com/watch?v=dQw4w9WgXcQ"] });
+    const finished = await jobs.watchJob("user-a", job.id, {});
+
+    expect(finished.type).toBe("import");
+    expect(finished.status).toBe("failed");
+    expect(finished.error).toMatch(/could be summarized/);
+  });
+
+  it("streams a video job's summary tokens to whoever watches it", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ title: "Streamed video", author_name: "Streamer" })));
+    const jobs = new JobService();
+    const tokens: string[] = [];
+
+    const job = await jobs.submitVideoJob("user-a", { url: "https://youtu.be/9bZkp7q5VQ0" });
+    const finished = await jobs.watchJob("user-a", job.id, { onToken: token => tokens.push(token) });
+
+    expect(finished.status).toBe("completed");
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(finished.result?.summary);
+  });
+
+  it("follows a job running in another process through the database", async () => {
+    vi.useFakeTimers();
+    const jobs = new JobService();
+    const job = await createRunningJob(jobs, 0);
+    const progress: LoadingProgress[] = [];
+
+    const watching = jobs.watchJob("user-a", job.id, { onProgress: update => progress.push(update) });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await jobs.updateJob("user-a", job.id, { stage: "summary", heartbeat_at: new Date().toISOString() });
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    await jobs.updateJob("user-a", job.id, { status: "completed" });
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    expect((await watching).status).toBe("completed");
+    expect(progress.map(update => update.message)).toEqual(["Fetching transcript", "Summarizing"]);
+  });
+
+  it("stops following a job when the signal aborts", async () => {
+    const jobs = new JobService();
+    const job = await createRunningJob(jobs, 0);
+    const controller = new AbortController();
+
+    const watching = jobs.watchJob("user-a", job.id, {}, controller.signal);
+    controller.abort();
+
+    expect((await watching).status).toBe("processing");
+  });
+});
@@ -0,0 +1,382 @@
+import { EventEmitter } from "events";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { JobRecord, Json } from "@/lib/types/database";
+import {
+  ChannelJobInput,
+  ImportJobInput,
+  isActiveJob,
+  JOB_STAGE_LABELS,
+  JOB_STAGE_LOADING_TYPES,
+  JobStage,
+  JobType,
+  PlaylistJobInput,
+  VideoJobInput,
+} from "@/lib/types/job";
+import { LoadingProgress } from "@/lib/types/loading";
+import { VideoProcessingOptions } from "@/lib/types/storage";
+import { extractVideoInfo } from "@/lib/utils/youtube";
+import { ChannelService } from "./ChannelService";
+import { DatabaseService } from "./DatabaseService";
+import { LinkImportService } from "./LinkImportService";
+import { PlaylistService } from "./PlaylistService";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+// Latest progress of each job running in this process, the summary tokens it
+// has streamed so far, and its `progress:<id>`, `token:<id>` and `done:<id>` events
+const jobProgress = new Map<string, LoadingProgress>();
+const jobTokens = new Map<string, string[]>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+type JobCallbacks = Pick<VideoProcessingOptions, "onProgress" | "onToken">;
+
+// A worker refreshes its job's heartbeat this often. An unfinished job whose
+// heartbeat is older than the timeout has lost its worker.
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const HEARTBEAT_TIMEOUT_MS = 60_000;
+
+// How often a watched job is read again when no event says it has finished
+const WATCH_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * Runs video, playlist, channel and import processing in the background. A
+ * job is saved as soon as it is submitted and the worker records each stage it reaches, then
+ * the error or the resulting summary, so clients can poll for progress after the request
+ * that submitted it has ended. The worker keeps a heartbeat on the job, so
+ * any process sharing the database can tell when it has stopped.
+ */
+export class JobService extends DatabaseService {
+  private videoProcessing: VideoProcessingService;
+
+  constructor() {
+    super("JobService");
+    this.videoProcessing = new VideoProcessingService();
+  }
+
+  /**
+   * Save a video job and start processing it without waiting for the result
+   * @returns The pending job
+   */
+  async submitVideoJob(userId: string, input: VideoJobInput): Promise<JobRecord> {
+    if (!extractVideoInfo(input.url).videoId) {
+      throw new AppError(
+        "Invalid YouTube URL",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    return this.startJob(userId, "video", input, job => this.runVideoJob(job));
+  }
+
+  /**
+   * Save a playlist job and start summarizing the playlist's videos without
+   * waiting for the result. The playlist records each video's status.
+   * @returns The pending job
+   */
+  async submitPlaylistJob(userId: string, input: PlaylistJobInput): Promise<JobRecord> {
+    return this.startJob(userId, "playlist", input, async () => {
+      await new PlaylistService().processPlaylist(input.playlist_id, userId);
+      return {};
+    });
+  }
+
+  /**
+   * Save a channel job and start summarizing the channel's latest uploads
+   * without waiting for the result. The summaries appear with the user's
+   * other summaries as they finish; the job fails if none of them could be
+   * summarized.
+   * @returns The pending job
+   */
+  async submitChannelJob(userId: string, input: ChannelJobInput): Promise<JobRecord> {
+    return this.startJob(userId, "channel", input, async () => {
+      const completed = await new ChannelService().backfillChannel(input.channel_id, input.videos, userId);
+      if (input.videos.length > 0 && completed === 0) {
+        throw new AppError(
+          "None of the channel's videos could be summarized",
+          ErrorCode.VIDEO_PROCESSING_FAILED,
+          HttpStatus.INTERNAL_ERROR,
+          { channelId: input.channel_id }
+        );
+      }
+      return {};
+    });
+  }
+
+  /**
+   * Save an import job and start summarizing the imported links without
+   * waiting for the result. The summaries appear with the user's other
+   * summaries as they finish; the job fails if none of them could be
+   * summarized.
+   * @returns The pending job
+   */
+  async submitImportJob(userId: string, input: ImportJobInput): Promise<JobRecord> {
+    return this.startJob(userId, "import", input, async () => {
+      const completed = await new LinkImportService().processImport(input.urls, userId);
+      if (input.urls.length > 0 && completed === 0) {
+        throw new AppError(
+          "None of the imported links could be summarized",
+          ErrorCode.VIDEO_PROCESSING_FAILED,
+          HttpStatus.INTERNAL_ERROR,
+          { links: input.urls.length }
+        );
+      }
+      return {};
+    });
+  }
+
+  /**
+   * Get a user's job, with its summary once it has completed
+   */
+  async getJob(userId: string, id: string): Promise<JobRecord> {
+    const job = await this.findJobById(userId, id);
+    if (!job) {
+      throw new AppError(
+        "Job not found",
+        ErrorCode.JOB_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const current = await this.failIfInterrupted(job);
+    return {
+      ...current,
+      result: current.result_id ? await this.findUserSummaryById(userId, current.result_id) : null,
+    };
+  }
+
+  /**
+   * Follow a user's job until it finishes. Jobs running in this process
+   * report every progress event and stream their summary tokens; jobs
+   * running elsewhere are read from the database and report each stage they
+   * reach.
+   * @param callbacks - `onProgress` is called with the job's latest progress,
+   * then with each update; `onToken` with the tokens streamed so far, then
+   * with each new one
+   * @param signal - Stops following the job, e.g. when the client disconnects
+   * @returns The finished job, or the job as it is when `signal` aborts
+   */
+  async watchJob(
+    userId: string,
+    id: string,
+    callbacks: JobCallbacks,
+    signal?: AbortSignal
+  ): Promise<JobRecord> {
+    let job = await this.getJob(userId, id);
+
+    // A listener that throws (e.g. a closed stream) must not stop the job
+    const listen = <T>(callback: ((value: T) => void) | undefined) => (value: T) => {
+      try {
+        callback?.(value);
+      } catch (error) {
+        this.logger.warn("Failed to report job progress", { jobId: id, error });
+      }
+    };
+    const onProgress = listen(callbacks.onProgress);
+    const onToken = listen(callbacks.onToken);
+    const reportStage = (stage: JobStage | null) => {
+      if (stage && !jobProgress.has(id)) {
+        onProgress({ type: JOB_STAGE_LOADING_TYPES[stage], message: JOB_STAGE_LABELS[stage] });
+      }
+    };
+
+    const latest = jobProgress.get(id);
+    if (latest) {
+      onProgress(latest);
+    } else if (isActiveJob(job)) {
+      reportStage(job.stage);
+    }
+    jobTokens.get(id)?.forEach(onToken);
+
+    jobEvents.on(`progress:${id}`, onProgress);
+    jobEvents.on(`token:${id}`, onToken);
+    try {
+      while (isActiveJob(job) && !signal?.aborted) {
+        await waitForJobEvent(id, signal);
+        const stage = job.stage;
+        job = await this.getJob(userId, id);
+        if (isActiveJob(job) && job.stage !== stage) {
+          reportStage(job.stage);
+        }
+      }
+    } finally {
+      jobEvents.removeListener(`progress:${id}`, onProgress);
+      jobEvents.removeListener(`token:${id}`, onToken);
+    }
+
+    return job;
+  }
+
+  /**
+   * List a user's jobs, newest first
+   * @param active - Only list jobs that are still pending or processing
+   */
+  async getJobs(userId: string, active = false): Promise<JobRecord[]> {
+    const jobs = await Promise.all(
+      (await this.getUserJobs(userId)).map(job => this.failIfInterrupted(job))
+    );
+    return active ? jobs.filter(job => isActiveJob(job)) : jobs;
+  }
+
+  /**
+   * Mark the user's jobs whose worker has stopped as failed, along with the
+   * records they were processing
+   */
+  async failInterruptedJobs(userId: string): Promise<void> {
+    await this.getJobs(userId, true);
+  }
+
+  /**
+   * Save a job and run it in the background, keeping its heartbeat fresh and
+   * recording whether it completed or failed
+   * @param run - Does the job's work and returns the fields to save on completion
+   */
+  private async startJob(
+    userId: string,
+    type: JobType,
+    input: object,
+    run: (job: JobRecord) => Promise<Partial<JobRecord>>
+  ): Promise<JobRecord> {
+    const job = await this.createJob({
+      user_id: userId,
+      type,
+      input: input as Json,
+      status: "pending",
+      stage: null,
+      error: null,
+      result_id: null,
+      heartbeat_at: new Date().toISOString(),
+    });
+    this.logger.info("Submitted job", { jobId: job.id, type });
+
+    // Not awaited: clients poll the job for progress
+    const heartbeat = setInterval(() => {
+      this.updateJob(job.user_id, job.id, { heartbeat_at: new Date().toISOString() })
+        .catch(error => this.logger.warn("Failed to save job heartbeat", { jobId: job.id, error }));
+    }, HEARTBEAT_INTERVAL_MS);
+    this.runJob(job, run)
+      .catch(error => this.logger.error("Job worker failed", error as Error, { jobId: job.id }))
+      .finally(() => {
+        clearInterval(heartbeat);
+        jobProgress.delete(job.id);
+        jobTokens.delete(job.id);
+        jobEvents.emit(`done:${job.id}`);
+      });
+
+    return job;
+  }
+
+  /**
+   * Mark a job as processing, run it and save how it ended
+   */
+  private async runJob(
+    job: JobRecord,
+    run: (job: JobRecord) => Promise<Partial<JobRecord>>
+  ): Promise<void> {
+    await this.updateJob(job.user_id, job.id, { status: "processing" });
+
+    try {
+      const result = await run(job);
+      await this.updateJob(job.user_id, job.id, { ...result, status: "completed" });
+      this.logger.info("Completed job", { jobId: job.id, type: job.type });
+    } catch (error) {
+      this.logger.error("Job failed", error as Error, { jobId: job.id, type: job.type });
+      await this.failJob(job, error instanceof Error ? error.message : "Processing failed");
+    }
+  }
+
+  /**
+   * Process a job's video, recording each stage as it starts and passing
+   * its progress and summary tokens on to anyone watching the job
+   */
+  private async runVideoJob(job: JobRecord): Promise<Partial<JobRecord>> {
+    const input = job.input as unknown as VideoJobInput;
+
+    // Stage updates are saved in order, without holding up processing
+    let stageSaved: Promise<unknown> = Promise.resolve();
+
+    try {
+      let summary = await this.videoProcessing.processVideo(input.url, job.user_id, {
+        refresh: input.refresh,
+        onStage: stage => {
+          stageSaved = stageSaved
+            .then(() => this.updateJob(job.user_id, job.id, { stage }))
+            .catch(error => this.logger.warn("Failed to save job stage", { jobId: job.id, stage, error }));
+        },
+        onProgress: progress => {
+          jobProgress.set(job.id, progress);
+          jobEvents.emit(`progress:${job.id}`, progress);
+        },
+        onToken: token => {
+          const tokens = jobTokens.get(job.id) || [];
+          tokens.push(token);
+          jobTokens.set(job.id, tokens);
+          jobEvents.emit(`token:${job.id}`, token);
+        },
+      });
+
+      if (input.detailed_summary) {
+        summary = await this.updateUserSummary(job.user_id, summary.id, {
+          detailed_summary: input.detailed_summary,
+        });
+      }
+
+      return { result_id: summary.id };
+    } finally {
+      await stageSaved;
+    }
+  }
+
+  /**
+   * Record a job's failure, and fail the records it was still processing
+   */
+  private async failJob(job: JobRecord, error: string): Promise<JobRecord> {
+    const failed = await this.updateJob(job.user_id, job.id, { status: "failed", error });
+
+    try {
+      switch (job.type) {
+        case "playlist": {
+          const input = job.input as unknown as PlaylistJobInput;
+          await new PlaylistService().failPlaylist(input.playlist_id, job.user_id, error);
+          break;
+        }
+      }
+    } catch (cleanupError) {
+      this.logger.error("Failed to fail job records", cleanupError as Error, { jobId: job.id });
+    }
+
+    return failed;
+  }
+
+  /**
+   * Mark a job as failed when its worker has stopped refreshing the heartbeat,
+   * e.g. because the server running it restarted
+   */
+  private async failIfInterrupted(job: JobRecord): Promise<JobRecord> {
+    const heartbeatAt = Date.parse(job.heartbeat_at || job.updated_at);
+    if (!isActiveJob(job) || Date.now() - heartbeatAt <= HEARTBEAT_TIMEOUT_MS) {
+      return job;
+    }
+
+    this.logger.warn("Job was interrupted", { jobId: job.id, heartbeatAt: job.heartbeat_at });
+    return this.failJob(job, "Processing was interrupted. Please submit it again.");
+  }
+}
+
+/**
+ * Wait until a job running in this process finishes, the poll interval
+ * passes or `signal` aborts
+ */
+function waitForJobEvent(id: string, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      jobEvents.removeListener(`done:${id}`, done);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, WATCH_POLL_INTERVAL_MS);
+    jobEvents.once(`done:${id}`, done);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,304 @@
+import OpenAI from "openai";
+import Groq from "groq-sdk";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import {
+  DEFAULT_LLM_MODELS,
+  DEFAULT_LLM_PROVIDER,
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMCompletionRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMTask,
+  LLMTaskConfig,
+} from "@/lib/types/llm";
+import { ConcurrencyLimiter, getLLMLimiter } from "@/lib/utils/concurrency";
+import { retryApi } from "@/lib/utils/retry";
+import { estimateTokens } from "@/lib/utils/tokens";
+
+interface CompletionChunk {
+  choices: { delta?: { content?: string | null } }[];
+}
+
+// Length of mock responses when the request sets no max_tokens
+const MOCK_DEFAULT_MAX_TOKENS = 256;
+
+/**
+ * Yield the text of each streamed completion chunk
+ */
+async function* textDeltas(chunks: AsyncIterable<CompletionChunk>): AsyncIterable<string> {
+  for await (const chunk of chunks) {
+    const token = chunk.choices[0]?.delta?.content;
+    if (token) yield token;
+  }
+}
+
+/**
+ * Generates completions with the OpenAI API
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = LLMProviderName.OPENAI;
+
+  constructor(private client: OpenAI) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({ ...request, stream: false });
+    return response.choices[0].message.content || "";
+  }
+
+  async stream(request: LLMCompletionRequest): Promise<AsyncIterable<string>> {
+    const stream = await this.client.chat.completions.create({ ...request, stream: true });
+    return textDeltas(stream);
+  }
+}
+
+/**
+ * Generates completions with any server implementing the OpenAI API,
+ * such as a local llama.cpp or vLLM server
+ */
+export class OpenAICompatibleLLMProvider extends OpenAILLMProvider {
+  readonly name: LLMProviderName = LLMProviderName.OPENAI_COMPATIBLE;
+
+  constructor(baseURL: string, apiKey?: string) {
+    // Local servers usually accept any key, but the SDK requires one
+    super(new OpenAI({ baseURL, apiKey: apiKey || "not-needed" }));
+  }
+}
+
+/**
+ * Generates completions with the Groq API
+ */
+export class GroqLLMProvider implements LLMProvider {
+  readonly name = LLMProviderName.GROQ;
+  private client: Groq;
+
+  constructor(apiKey: string) {
+    this.client = new Groq({ apiKey });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({ ...request, stream: false });
+    return response.choices[0].message.content || "";
+  }
+
+  async stream(request: LLMCompletionRequest): Promise<AsyncIterable<string>> {
+    const stream = await this.client.chat.completions.create({ ...request, stream: true });
+    return textDeltas(stream);
+  }
+}
+
+/**
+ * Answers every request without network access. The response is the start
+ * of the last user message, cut to the requested length, so the same
+ * request always produces the same text.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = LLMProviderName.MOCK;
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const lastUserMessage = request.messages.filter(message => message.role === "user").pop();
+    const words = (lastUserMessage?.content || "").split(/\s+/).filter(word => word.length > 0);
+    const maxTokens = request.max_tokens ?? MOCK_DEFAULT_MAX_TOKENS;
+
+    let response = "";
+    for (const word of words) {
+      const next = response ? `${response} ${word}` : word;
+      if (estimateTokens(next) > maxTokens) break;
+      response = next;
+    }
+
+    return response || "Mock response.";
+  }
+
+  async stream(request: LLMCompletionRequest): Promise<AsyncIterable<string>> {
+    const response = await this.complete(request);
+    return (async function* () {
+      for (const token of response.match(/\S+\s*/g) || []) {
+        yield token;
+      }
+    })();
+  }
+}
+
+/**
+ * Runs each task on its configured provider and model. Requests share one
+ * concurrency limit across the server process.
+ */
+export class LLMService {
+  constructor(
+    private tasks: Record<LLMTask, { provider: LLMProvider; model: string }>,
+    private limiter: ConcurrencyLimiter = getLLMLimiter()
+  ) {}
+
+  /**
+   * Get the model configured for a task
+   */
+  getModel(task: LLMTask): string {
+    return this.tasks[task].model;
+  }
+
+  /**
+   * Generate a completion for a task
+   * @param task - The task, which selects the provider and default model
+   * @param messages - The conversation to complete
+   * @param options - Generation parameters, including an optional model override
+   */
+  async complete(
+    task: LLMTask,
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): Promise<LLMCompletion> {
+    const { provider, request } = this.buildRequest(task, messages, options);
+
+    try {
+      const content = await this.limiter.run(() =>
+        retryApi(() => provider.complete(request), {
+          operationName: `llm:${task}`,
+        })
+      );
+      return { content, model: request.model, provider: provider.name };
+    } catch (error) {
+      throw toAppError(error, provider.name);
+    }
+  }
+
+  /**
+   * Generate a completion for a task as a stream of text tokens
+   *
+   * Only the request is retried; a stream that breaks halfway cannot be replayed.
+   * The stream keeps its concurrency slot until it has been read.
+   */
+  async stream(
+    task: LLMTask,
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): Promise<AsyncIterable<string>> {
+    const { provider, request } = this.buildRequest(task, messages, options);
+
+    try {
+      return await this.limiter.runStream(() =>
+        retryApi(() => provider.stream(request), {
+          operationName: `llm:${task}`,
+        })
+      );
+    } catch (error) {
+      throw toAppError(error, provider.name);
+    }
+  }
+
+  private buildRequest(task: LLMTask, messages: LLMMessage[], options: LLMCompletionOptions) {
+    const { provider, model } = this.tasks[task];
+    const request: LLMCompletionRequest = {
+      ...options,
+      model: options.model || model,
+      messages,
+    };
+    return { provider, request };
+  }
+}
+
+/**
+ * Convert a provider SDK error to an AppError
+ */
+function toAppError(error: unknown, provider: LLMProviderName): AppError {
+  if (error instanceof AppError) return error;
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return new AppError(
+      (error as Error).message,
+      ErrorCode.API_SERVICE_UNAVAILABLE,
+      status,
+      { provider }
+    );
+  }
+
+  return new AppError(
+    "Failed to create chat completion",
+    ErrorCode.API_SERVICE_UNAVAILABLE,
+    HttpStatus.SERVICE_UNAVAILABLE,
+    { provider, details: error }
+  );
+}
+
+/**
+ * Read the provider and model of a task from the environment.
+ *
+ * `LLM_<TASK>_PROVIDER` and `LLM_<TASK>_MODEL` (e.g. `LLM_TAGS_MODEL`) apply to
+ * one task, `LLM_PROVIDER` and `LLM_MODEL` to every task without its own setting.
+ */
+export function getLLMTaskConfig(
+  task: LLMTask,
+  env: Record<string, string | undefined> = process.env
+): LLMTaskConfig {
+  const prefix = `LLM_${task.toUpperCase().replace(/-/g, "_")}`;
+  const provider = env[`${prefix}_PROVIDER`] || env.LLM_PROVIDER || DEFAULT_LLM_PROVIDER;
+
+  const known = Object.values(LLMProviderName) as string[];
+  if (!known.includes(provider)) {
+    throw new AppError(
+      `Unknown LLM provider: ${provider}`,
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      HttpStatus.INTERNAL_ERROR,
+      { task, known }
+    );
+  }
+
+  const name = provider as LLMProviderName;
+  return {
+    provider: name,
+    model: env[`${prefix}_MODEL`] || env.LLM_MODEL || DEFAULT_LLM_MODELS[name][task],
+  };
+}
+
+/**
+ * Create a provider from its environment settings
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case LLMProviderName.OPENAI:
+      return new OpenAILLMProvider(new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+    case LLMProviderName.GROQ:
+      if (!process.env.GROQ_API_KEY) {
+        throw new AppError(
+          "GROQ_API_KEY is not set",
+          ErrorCode.VALIDATION_REQUIRED_FIELD,
+          HttpStatus.INTERNAL_ERROR
+        );
+      }
+      return new GroqLLMProvider(process.env.GROQ_API_KEY);
+    case LLMProviderName.OPENAI_COMPATIBLE:
+      if (!process.env.LLM_BASE_URL) {
+        throw new AppError(
+          "LLM_BASE_URL is not set",
+          ErrorCode.VALIDATION_REQUIRED_FIELD,
+          HttpStatus.INTERNAL_ERROR
+        );
+      }
+      return new OpenAICompatibleLLMProvider(process.env.LLM_BASE_URL, process.env.LLM_API_KEY);
+    case LLMProviderName.MOCK:
+      return new MockLLMProvider();
+  }
+}
+
+/**
+ * Build the configured provider and model for every task. Tasks that use
+ * the same provider share one client.
+ */
+export function createLLMService(): LLMService {
+  const providers = new Map<LLMProviderName, LLMProvider>();
+  const tasks = {} as Record<LLMTask, { provider: LLMProvider; model: string }>;
+
+  for (const task of Object.values(LLMTask)) {
+    const config = getLLMTaskConfig(task);
+    let provider = providers.get(config.provider);
+    if (!provider) {
+      provider = createLLMProvider(config.provider);
+      providers.set(config.provider, provider);
+    }
+    tasks[task] = { provider, model: config.model };
+  }
+
+  return new LLMService(tasks);
+}
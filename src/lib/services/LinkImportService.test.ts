@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LinkImportService } from "./LinkImportService";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+const VIDEO_URL = "https://www.youtube.com/watch?v=9bZkp7q19f0";
+
+describe("LinkImportService", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ title: "Shared video", author_name: "Shared Channel" })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("only reports links already in the importing user's summaries as duplicates", async () => {
+    await new VideoProcessingService().processVideo(VIDEO_URL, "user-a");
+    const imports = new LinkImportService();
+
+    const own = await imports.importLinks(VIDEO_URL, "user-a");
+    expect(own.results[0]).toMatchObject({ status: "duplicate", reason: 'Already in your summaries as "Shared video"' });
+
+    const colleague = await imports.importLinks(`${VIDEO_URL}\n${VIDEO_URL}`, "user-b");
+    expect(colleague.results.map(result => result.status)).toEqual(["accepted", "duplicate"]);
+    expect(colleague.accepted).toBe(1);
+
+    expect(await imports.processImport([VIDEO_URL], "user-b")).toBe(1);
+    expect((await imports.importLinks(VIDEO_URL, "user-b")).results[0].status).toBe("duplicate");
+  });
+});
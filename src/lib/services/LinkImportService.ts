@@ -0,0 +1,134 @@
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { ImportLinkResult, ImportResult } from "@/lib/types/import";
+import { parseImportedLinks } from "@/lib/utils/linkImport";
+import { parsePodcastUrl } from "@/lib/utils/podcast";
+import { buildVideoUrl, parseYouTubeUrl } from "@/lib/utils/youtube";
+import { getArticleId } from "./ArticleService";
+import { DatabaseService } from "./DatabaseService";
+import { LinkService } from "./LinkService";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+// Most links accepted from one import; the rest are reported as invalid
+const MAX_IMPORT_LINKS = 100;
+
+/**
+ * Service class for importing many links at once from a pasted list, a CSV
+ * file or an OPML file of feeds
+ */
+export class LinkImportService extends DatabaseService {
+  private videoProcessing: VideoProcessingService;
+  private links: LinkService;
+
+  constructor() {
+    super("LinkImportService");
+    this.videoProcessing = new VideoProcessingService();
+    this.links = new LinkService();
+  }
+
+  /**
+   * Validate and dedupe the links of an import
+   *
+   * Links already among the user's summaries, or listed earlier in the same
+   * import, are duplicates. Content other users have summarized is accepted;
+   * it is added from the shared summary without summarizing it again.
+   * YouTube playlists and channels are rejected since they expand into many
+   * videos of their own; import them from the home page.
+   * @param content - Newline-separated links, a CSV file or an OPML document
+   * @param userId - The user importing the links
+   * @param fileName - Name of the imported file, if any
+   * @returns The outcome for each link; submit an import job with the accepted ones
+   */
+  async importLinks(content: string, userId: string, fileName?: string): Promise<ImportResult> {
+    const { format, links } = parseImportedLinks(content, fileName);
+    if (links.length === 0) {
+      throw new AppError(
+        "No links found to import",
+        ErrorCode.IMPORT_NO_LINKS,
+        HttpStatus.BAD_REQUEST,
+        { format }
+      );
+    }
+
+    this.logger.info("Importing links", { format, links: links.length, fileName });
+
+    const seen = new Set<string>();
+    const results: ImportLinkResult[] = [];
+    let accepted = 0;
+
+    for (const input of links) {
+      const result = await this.checkLink(input, userId, seen);
+      if (result.status === "accepted") {
+        if (accepted >= MAX_IMPORT_LINKS) {
+          results.push({ ...result, status: "invalid", reason: `Only ${MAX_IMPORT_LINKS} links can be imported at once` });
+          continue;
+        }
+        accepted++;
+      }
+      results.push(result);
+    }
+
+    this.logger.info("Imported links", { format, accepted, total: results.length });
+
+    return { format, results, accepted };
+  }
+
+  /**
+   * Summarize accepted links one after another. Failures are logged and do
+   * not stop the rest of the import.
+   * @param urls - Normalized URLs of the accepted links
+   * @param userId - The user the summaries belong to
+   */
+  async processImport(urls: string[], userId: string): Promise<number> {
+    let completed = 0;
+    for (const url of urls) {
+      try {
+        if (parseYouTubeUrl(url)?.type === "video") {
+          await this.videoProcessing.processVideo(url, userId);
+        } else {
+          await this.links.processLink(url, userId);
+        }
+        completed++;
+      } catch (error) {
+        this.logger.error("Failed to process imported link", error as Error, { url });
+      }
+    }
+
+    this.logger.info("Processed imported links", { completed, total: urls.length });
+    return completed;
+  }
+
+  /**
+   * Normalize one link and check whether it is new to the user
+   * @param seen - Links accepted so far in this import
+   */
+  private async checkLink(input: string, userId: string, seen: Set<string>): Promise<ImportLinkResult> {
+    const youtube = parseYouTubeUrl(input);
+    if (youtube && youtube.type !== "video") {
+      return {
+        input,
+        url: null,
+        status: "invalid",
+        reason: `YouTube ${youtube.type}s cannot be bulk imported; add them from the home page`,
+      };
+    }
+
+    const url = youtube ? buildVideoUrl(youtube.videoId) : parsePodcastUrl(input);
+    if (!url) {
+      return { input, url: null, status: "invalid", reason: "Not a valid link" };
+    }
+
+    if (seen.has(url)) {
+      return { input, url, status: "duplicate", reason: "Listed earlier in this import" };
+    }
+    seen.add(url);
+
+    const existing = youtube
+      ? await this.findVideoById(youtube.videoId)
+      : (await this.findVideoById(getArticleId(url))) || (await this.findVideoByUrl(url));
+    if (existing && (await this.findSummaryByVideoId(existing.id, userId))) {
+      return { input, url, status: "duplicate", reason: `Already in your summaries as "${existing.title}"` };
+    }
+
+    return { input, url, status: "accepted" };
+  }
+}
@@ -0,0 +1,54 @@
+import { AppError, ErrorCode } from "@/lib/types/errors";
+import { UserSummaryRecord } from "@/lib/types/database";
+import { PodcastProcessingOptions } from "@/lib/types/podcast";
+import { ArticleService } from "./ArticleService";
+import { DatabaseService } from "./DatabaseService";
+import { PodcastService } from "./PodcastService";
+
+/**
+ * Service class for summarizing links that are not on YouTube, whatever
+ * they point to
+ */
+export class LinkService extends DatabaseService {
+  private podcasts: PodcastService;
+  private articles: ArticleService;
+
+  constructor() {
+    super("LinkService");
+    this.podcasts = new PodcastService();
+    this.articles = new ArticleService();
+  }
+
+  /**
+   * Summarize a podcast feed, episode or audio file, or failing that the
+   * page as an article
+   * @param url - Any public http(s) URL outside YouTube
+   * @param userId - The user the summary belongs to
+   */
+  async processLink(
+    url: string,
+    userId: string,
+    options: PodcastProcessingOptions = {}
+  ): Promise<UserSummaryRecord> {
+    try {
+      return await this.podcasts.processEpisode(url, userId, options);
+    } catch (error) {
+      if (!this.isNotPodcast(error)) throw error;
+
+      this.logger.info("Link is not a podcast, summarizing it as an article", { url });
+      return this.articles.processArticle(url, userId, options);
+    }
+  }
+
+  /**
+   * Whether a podcast error means the URL is some other page: one without a
+   * feed, or one whose feed (a blog's, say) lists no audio
+   */
+  private isNotPodcast(error: unknown): boolean {
+    if (!(error instanceof AppError)) return false;
+    return (
+      error.code === ErrorCode.PODCAST_INVALID_FEED ||
+      (error.code === ErrorCode.PODCAST_NOT_FOUND && !!error.details?.feedUrl)
+    );
+  }
+}
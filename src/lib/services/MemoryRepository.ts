@@ -0,0 +1,497 @@
+import { randomUUID } from "crypto";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { 
+  VideoRecord, 
+  UserSummaryRecord, 
+  ContentSummaryRecord,
+  ChannelRecord, 
+  ProfileRecord,
+  TagRecord,
+  ContentTagRecord,
+  SubscriptionRecord,
+  ContentQuestionRecord,
+  PlaylistRecord,
+  PlaylistItemRecord,
+  JobRecord
+} from '@/lib/types/database';
+import { DatabaseBackendName, DatabaseRepository } from "@/lib/types/repository";
+
+/**
+ * Keeps every record in memory. Nothing survives a restart and each server
+ * process has its own copy, so this backend is meant for tests and demos.
+ */
+export class MemoryRepository implements DatabaseRepository {
+  readonly name = DatabaseBackendName.MEMORY;
+
+  private store = {
+    videos: new Map<string, VideoRecord>(),
+    channels: new Map<string, ChannelRecord>(),
+    profiles: new Map<string, ProfileRecord>(),
+    summaries: new Map<string, UserSummaryRecord>(),
+    contentSummaries: new Map<string, ContentSummaryRecord>(),
+    tags: new Map<string, TagRecord>(),
+    contentTags: new Map<string, ContentTagRecord[]>(),
+    subscriptions: new Map<string, SubscriptionRecord[]>(),
+    questions: new Map<string, ContentQuestionRecord>(),
+    playlists: new Map<string, PlaylistRecord>(),
+    playlistItems: new Map<string, PlaylistItemRecord>(),
+    jobs: new Map<string, JobRecord>()
+  };
+
+  // Profile methods
+  async getProfile(userId: string): Promise<ProfileRecord | null> {
+    return this.store.profiles.get(userId) || null;
+  }
+
+  async upsertProfile(profile: Omit<ProfileRecord, 'created_at'>): Promise<ProfileRecord> {
+    const now = new Date().toISOString();
+    const fullProfile = {
+      ...profile,
+      created_at: this.store.profiles.get(profile.id)?.created_at || now
+    };
+    this.store.profiles.set(profile.id, fullProfile);
+    return fullProfile;
+  }
+
+  // Channel methods
+  async findChannelById(id: string): Promise<ChannelRecord | null> {
+    return this.store.channels.get(id) || null;
+  }
+
+  async upsertChannel(channel: Omit<ChannelRecord, 'created_at'>): Promise<ChannelRecord> {
+    const now = new Date().toISOString();
+    const fullChannel = {
+      ...channel,
+      created_at: this.store.channels.get(channel.id)?.created_at || now
+    };
+    this.store.channels.set(channel.id, fullChannel);
+    return fullChannel;
+  }
+
+  // Video methods
+  async findVideoById(id: string): Promise<VideoRecord | null> {
+    const video = this.store.videos.get(id);
+    if (!video) return null;
+    
+    const channel = this.store.channels.get(video.channel_id);
+    return {
+      ...video,
+      channel
+    };
+  }
+
+  /**
+   * Find content by the URL it was submitted with: its page URL, its unique
+   * identifier or, for podcast episodes, the feed it came from
+   */
+  async findVideoByUrl(url: string): Promise<VideoRecord | null> {
+    const video = Array.from(this.store.videos.values()).find(v =>
+      (v.url && v.url === url) ||
+      v.unique_identifier === url ||
+      (v.metadata as Record<string, unknown> | null)?.feed_url === url
+    );
+    return video ? this.findVideoById(video.id) : null;
+  }
+
+  async upsertVideo(video: Omit<VideoRecord, 'created_at'>): Promise<VideoRecord> {
+    const now = new Date().toISOString();
+    const fullVideo = {
+      ...video,
+      created_at: this.store.videos.get(video.id)?.created_at || now
+    };
+    this.store.videos.set(video.id, fullVideo);
+    return {
+      ...fullVideo,
+      channel: this.store.channels.get(video.channel_id)
+    };
+  }
+
+  async updateVideo(id: string, video: Partial<VideoRecord>): Promise<VideoRecord> {
+    const existing = this.store.videos.get(id);
+    if (!existing) {
+      throw new AppError(
+        'Video not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const updated = {
+      ...existing,
+      ...video,
+      id
+    };
+    this.store.videos.set(id, updated);
+    return updated;
+  }
+
+  // Summary methods
+  async getUserSummaries(userId: string): Promise<UserSummaryRecord[]> {
+    const summaries = Array.from(this.store.summaries.values())
+      .filter(s => s.user_id === userId)
+      // Reversed first so that records created in the same millisecond are newest first too
+      .reverse()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return Promise.all(summaries.map(async s => {
+      const video = await this.findVideoById(s.video_id);
+      return {
+        ...s,
+        videos: video
+      };
+    }));
+  }
+
+  async findUserSummaryById(id: string): Promise<UserSummaryRecord | null> {
+    const summary = this.store.summaries.get(id);
+    if (!summary) return null;
+
+    return {
+      ...summary,
+      videos: await this.findVideoById(summary.video_id)
+    };
+  }
+
+  async createUserSummary(summary: Omit<UserSummaryRecord, 'id' | 'created_at' | 'updated_at'>): Promise<UserSummaryRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const video = await this.findVideoById(summary.video_id);
+    
+    const fullSummary = {
+      ...summary,
+      id,
+      created_at: now,
+      updated_at: now,
+      videos: video
+    };
+    
+    this.store.summaries.set(id, fullSummary);
+    return fullSummary;
+  }
+
+  async updateUserSummary(id: string, summary: Partial<UserSummaryRecord>): Promise<UserSummaryRecord> {
+    const existing = this.store.summaries.get(id);
+    if (!existing) {
+      throw new AppError(
+        'Summary not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const updated = {
+      ...existing,
+      ...summary,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    this.store.summaries.set(id, updated);
+    return updated;
+  }
+
+  async findSummaryByVideoId(videoId: string, userId: string): Promise<UserSummaryRecord | null> {
+    const summary = Array.from(this.store.summaries.values()).find(
+      s => s.video_id === videoId && s.user_id === userId
+    );
+    
+    if (!summary) return null;
+
+    const video = await this.findVideoById(summary.video_id);
+    return {
+      ...summary,
+      videos: video
+    };
+  }
+
+  // Content summary methods
+  async findContentSummary(contentId: string, promptVersion: string): Promise<ContentSummaryRecord | null> {
+    return Array.from(this.store.contentSummaries.values()).find(
+      s => s.content_id === contentId && s.prompt_version === promptVersion
+    ) || null;
+  }
+
+  async findContentSummaryById(id: string): Promise<ContentSummaryRecord | null> {
+    return this.store.contentSummaries.get(id) || null;
+  }
+
+  async upsertContentSummary(
+    summary: Omit<ContentSummaryRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ContentSummaryRecord> {
+    const now = new Date().toISOString();
+    const existing = await this.findContentSummary(summary.content_id, summary.prompt_version);
+
+    const fullSummary = {
+      ...summary,
+      id: existing?.id || randomUUID(),
+      created_at: existing?.created_at || now,
+      updated_at: now
+    };
+    this.store.contentSummaries.set(fullSummary.id, fullSummary);
+    return fullSummary;
+  }
+
+  async updateContentSummary(id: string, summary: Partial<ContentSummaryRecord>): Promise<ContentSummaryRecord> {
+    const existing = this.store.contentSummaries.get(id);
+    if (!existing) {
+      throw new AppError(
+        'Content summary not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const updated = {
+      ...existing,
+      ...summary,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    this.store.contentSummaries.set(id, updated);
+    return updated;
+  }
+
+  // Tag methods
+  async findOrCreateTag(name: string): Promise<TagRecord> {
+    const existingTag = Array.from(this.store.tags.values()).find(t => t.name === name);
+    if (existingTag) return existingTag;
+
+    const id = randomUUID();
+    const tag = {
+      id,
+      name,
+      created_at: new Date().toISOString()
+    };
+    this.store.tags.set(id, tag);
+    return tag;
+  }
+
+  async addContentTag(contentTag: ContentTagRecord): Promise<void> {
+    const tags = this.store.contentTags.get(contentTag.content_id) || [];
+    tags.push(contentTag);
+    this.store.contentTags.set(contentTag.content_id, tags);
+  }
+
+  async getContentTags(contentId: string): Promise<TagRecord[]> {
+    const contentTags = this.store.contentTags.get(contentId) || [];
+    return Promise.all(contentTags.map(ct => this.store.tags.get(ct.tag_id)!));
+  }
+
+  // Subscription methods
+  async getSubscriptions(userId: string): Promise<SubscriptionRecord[]> {
+    return this.store.subscriptions.get(userId) || [];
+  }
+
+  async findSubscriptionById(id: string): Promise<SubscriptionRecord | null> {
+    const subscriptions = Array.from(this.store.subscriptions.values());
+    for (let i = 0; i < subscriptions.length; i++) {
+      const subscription = subscriptions[i].find(s => s.id === id);
+      if (subscription) return subscription;
+    }
+    return null;
+  }
+
+  async addSubscription(subscription: Omit<SubscriptionRecord, 'id' | 'created_at'>): Promise<SubscriptionRecord> {
+    const id = randomUUID();
+    const fullSubscription = {
+      ...subscription,
+      id,
+      created_at: new Date().toISOString()
+    };
+
+    const userSubs = this.store.subscriptions.get(subscription.user_id) || [];
+    userSubs.push(fullSubscription);
+    this.store.subscriptions.set(subscription.user_id, userSubs);
+
+    return fullSubscription;
+  }
+
+  async removeSubscription(userId: string, subscriptionId: string): Promise<void> {
+    const userSubs = this.store.subscriptions.get(userId) || [];
+    const filtered = userSubs.filter(s => s.id !== subscriptionId);
+    this.store.subscriptions.set(userId, filtered);
+  }
+
+  // Content question methods
+  async getContentQuestions(userId: string, contentId: string): Promise<ContentQuestionRecord[]> {
+    return Array.from(this.store.questions.values())
+      .filter(q => q.user_id === userId && q.content_id === contentId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async findContentQuestionById(id: string): Promise<ContentQuestionRecord | null> {
+    return this.store.questions.get(id) || null;
+  }
+
+  async createContentQuestion(question: Omit<ContentQuestionRecord, 'id' | 'created_at'>): Promise<ContentQuestionRecord> {
+    const id = randomUUID();
+    const fullQuestion = {
+      ...question,
+      id,
+      created_at: new Date().toISOString()
+    };
+    this.store.questions.set(id, fullQuestion);
+    return fullQuestion;
+  }
+
+  async deleteContentQuestion(userId: string, questionId: string): Promise<void> {
+    const question = this.store.questions.get(questionId);
+    if (!question || question.user_id !== userId) {
+      throw new AppError(
+        'Question not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    this.store.questions.delete(questionId);
+  }
+
+  async deleteContentQuestions(userId: string, contentId: string): Promise<void> {
+    Array.from(this.store.questions.values())
+      .filter(q => q.user_id === userId && q.content_id === contentId)
+      .forEach(q => this.store.questions.delete(q.id));
+  }
+
+  // Playlist methods
+  async getUserPlaylists(userId: string): Promise<PlaylistRecord[]> {
+    return Array.from(this.store.playlists.values())
+      .filter(p => p.user_id === userId)
+      .reverse()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async findPlaylistById(id: string): Promise<PlaylistRecord | null> {
+    return this.store.playlists.get(id) || null;
+  }
+
+  async createPlaylist(playlist: Omit<PlaylistRecord, 'id' | 'created_at' | 'updated_at'>): Promise<PlaylistRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const fullPlaylist = {
+      ...playlist,
+      id,
+      created_at: now,
+      updated_at: now
+    };
+    this.store.playlists.set(id, fullPlaylist);
+    return fullPlaylist;
+  }
+
+  async updatePlaylist(id: string, playlist: Partial<PlaylistRecord>): Promise<PlaylistRecord> {
+    const existing = this.store.playlists.get(id);
+    if (!existing) {
+      throw new AppError(
+        'Playlist not found',
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const updated = {
+      ...existing,
+      ...playlist,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    this.store.playlists.set(id, updated);
+    return updated;
+  }
+
+  async getPlaylistItems(playlistId: string): Promise<PlaylistItemRecord[]> {
+    const items = Array.from(this.store.playlistItems.values())
+      .filter(i => i.playlist_id === playlistId)
+      .sort((a, b) => a.position - b.position);
+
+    return Promise.all(items.map(async i => {
+      const summary = i.summary_id ? this.store.summaries.get(i.summary_id) : undefined;
+      return {
+        ...i,
+        summary: summary
+          ? { ...summary, videos: await this.findVideoById(summary.video_id) }
+          : null
+      };
+    }));
+  }
+
+  async findPlaylistItemById(id: string): Promise<PlaylistItemRecord | null> {
+    return this.store.playlistItems.get(id) || null;
+  }
+
+  async createPlaylistItems(items: Omit<PlaylistItemRecord, 'id' | 'updated_at'>[]): Promise<PlaylistItemRecord[]> {
+    const now = new Date().toISOString();
+    return items.map(item => {
+      const id = randomUUID();
+      const fullItem = {
+        ...item,
+        id,
+        updated_at: now
+      };
+      this.store.playlistItems.set(id, fullItem);
+      return fullItem;
+    });
+  }
+
+  async updatePlaylistItem(id: string, item: Partial<PlaylistItemRecord>): Promise<PlaylistItemRecord> {
+    const existing = this.store.playlistItems.get(id);
+    if (!existing) {
+      throw new AppError(
+        'Playlist item not found',
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const updated = {
+      ...existing,
+      ...item,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    this.store.playlistItems.set(id, updated);
+    return updated;
+  }
+
+  // Job methods
+  async getUserJobs(userId: string): Promise<JobRecord[]> {
+    return Array.from(this.store.jobs.values())
+      .filter(j => j.user_id === userId)
+      .reverse()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async findJobById(id: string): Promise<JobRecord | null> {
+    return this.store.jobs.get(id) || null;
+  }
+
+  async createJob(job: Omit<JobRecord, 'id' | 'created_at' | 'updated_at'>): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const fullJob = {
+      ...job,
+      id,
+      created_at: now,
+      updated_at: now
+    };
+    this.store.jobs.set(id, fullJob);
+    return fullJob;
+  }
+
+  async updateJob(id: string, job: Partial<JobRecord>): Promise<JobRecord> {
+    const existing = this.store.jobs.get(id);
+    if (!existing) {
+      throw new AppError(
+        'Job not found',
+        ErrorCode.JOB_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const updated = {
+      ...existing,
+      ...job,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    this.store.jobs.set(id, updated);
+    return updated;
+  }
+}
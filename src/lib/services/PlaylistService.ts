@@ -0,0 +1,334 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import {
+  PlaylistDetails,
+  PlaylistProvider,
+  PlaylistProviderName,
+  PlaylistResult,
+  PlaylistVideo,
+} from "@/lib/types/playlist";
+import { buildPlaylistUrl, buildVideoUrl, parseYouTubeUrl } from "@/lib/utils/youtube";
+import { DatabaseService } from "./DatabaseService";
+import { OpenAIService } from "./openai";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+interface PlaylistItemsResponse {
+  nextPageToken?: string;
+  items: {
+    snippet: {
+      title: string;
+      resourceId: { videoId: string };
+    };
+  }[];
+}
+
+const YOUTUBE_API_URL = "https://www.googleapis.com/youtube/v3";
+// Largest page the YouTube Data API returns
+const YOUTUBE_PAGE_SIZE = 50;
+// Titles YouTube lists in place of videos that can no longer be watched
+const UNAVAILABLE_TITLES = ["Deleted video", "Private video"];
+
+// Most videos summarized from one playlist
+const MAX_PLAYLIST_VIDEOS = 50;
+
+/**
+ * Lists playlist videos with the YouTube Data API
+ */
+export class YouTubeDataApiPlaylistProvider implements PlaylistProvider {
+  readonly name = PlaylistProviderName.YOUTUBE_DATA_API;
+
+  constructor(private apiKey: string) {}
+
+  async fetchPlaylist(playlistId: string): Promise<PlaylistResult> {
+    const details = await this.request<{ items: { snippet: { title: string } }[] }>("playlists", {
+      part: "snippet",
+      id: playlistId,
+    });
+    if (details.items.length === 0) {
+      throw new AppError(
+        "Playlist not found",
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const videos: PlaylistVideo[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page: PlaylistItemsResponse = await this.request("playlistItems", {
+        part: "snippet",
+        playlistId,
+        maxResults: String(YOUTUBE_PAGE_SIZE),
+        ...(pageToken ? { pageToken } : {}),
+      });
+
+      for (const { snippet } of page.items) {
+        if (UNAVAILABLE_TITLES.includes(snippet.title)) continue;
+        videos.push({ videoId: snippet.resourceId.videoId, title: snippet.title });
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken && videos.length < MAX_PLAYLIST_VIDEOS);
+
+    return {
+      provider: this.name,
+      playlistId,
+      title: details.items[0].snippet.title,
+      videos,
+    };
+  }
+
+  private async request<T>(resource: string, params: Record<string, string>): Promise<T> {
+    const query = new URLSearchParams({ ...params, key: this.apiKey });
+    const response = await fetch(`${YOUTUBE_API_URL}/${resource}?${query}`);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new AppError(
+          "Playlist not found",
+          ErrorCode.PLAYLIST_NOT_FOUND,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(
+        "Failed to fetch playlist",
+        ErrorCode.API_SERVICE_UNAVAILABLE,
+        response.status === 429 ? HttpStatus.TOO_MANY_REQUESTS : HttpStatus.SERVICE_UNAVAILABLE,
+        { details: errorData }
+      );
+    }
+
+    return response.json();
+  }
+}
+
+/**
+ * Reads playlists from local JSON files named `<playlistId>.json`, so that
+ * playlists can be imported without network access or an API key.
+ * Each file contains `{ "title": string, "videos": [{ "videoId": string, "title"?: string }] }`.
+ */
+export class FixturePlaylistProvider implements PlaylistProvider {
+  readonly name = PlaylistProviderName.FIXTURE;
+
+  constructor(private directory: string) {}
+
+  async fetchPlaylist(playlistId: string): Promise<PlaylistResult> {
+    let fixture: { title?: string; videos?: { videoId: string; title?: string }[] };
+    try {
+      const file = await readFile(path.join(this.directory, `${path.basename(playlistId)}.json`), "utf8");
+      fixture = JSON.parse(file);
+    } catch (error) {
+      throw new AppError(
+        "Playlist not found",
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND,
+        { details: error }
+      );
+    }
+
+    return {
+      provider: this.name,
+      playlistId,
+      title: fixture.title || playlistId,
+      videos: (fixture.videos || []).map(video => ({
+        videoId: video.videoId,
+        title: video.title || null,
+      })),
+    };
+  }
+}
+
+/**
+ * Create the playlist provider selected by `PLAYLIST_PROVIDER`
+ */
+export function createPlaylistProvider(): PlaylistProvider {
+  const name = process.env.PLAYLIST_PROVIDER || PlaylistProviderName.YOUTUBE_DATA_API;
+
+  switch (name) {
+    case PlaylistProviderName.YOUTUBE_DATA_API:
+      if (!process.env.YOUTUBE_API_KEY) {
+        throw new AppError(
+          "YOUTUBE_API_KEY is not set",
+          ErrorCode.VALIDATION_REQUIRED_FIELD,
+          HttpStatus.INTERNAL_ERROR
+        );
+      }
+      return new YouTubeDataApiPlaylistProvider(process.env.YOUTUBE_API_KEY);
+    case PlaylistProviderName.FIXTURE:
+      return new FixturePlaylistProvider(
+        process.env.PLAYLIST_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "playlists")
+      );
+    default:
+      throw new AppError(
+        `Unknown playlist provider: ${name}`,
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.INTERNAL_ERROR,
+        { known: Object.values(PlaylistProviderName) }
+      );
+  }
+}
+
+/**
+ * Service class for summarizing every video of a YouTube playlist
+ */
+export class PlaylistService extends DatabaseService {
+  private videoProcessing: VideoProcessingService;
+  private openAIService: OpenAIService;
+
+  /**
+   * @param provider - Playlist source; defaults to the one configured by `PLAYLIST_PROVIDER`
+   */
+  constructor(private provider?: PlaylistProvider) {
+    super("PlaylistService");
+    this.videoProcessing = new VideoProcessingService();
+    this.openAIService = new OpenAIService();
+  }
+
+  /**
+   * List a playlist's videos and save them as pending items
+   * @param url - A playlist URL, or a video URL with a `list=` parameter
+   * @param userId - The user importing the playlist
+   * @returns The saved playlist; call `processPlaylist` to summarize its videos
+   */
+  async importPlaylist(url: string, userId: string): Promise<PlaylistDetails> {
+    const parsed = parseYouTubeUrl(url);
+    const playlistId = parsed?.type === "playlist"
+      ? parsed.playlistId
+      : parsed?.type === "video" ? parsed.playlistId : null;
+
+    if (!playlistId) {
+      throw new AppError(
+        "Invalid YouTube playlist URL",
+        ErrorCode.PLAYLIST_INVALID_URL,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    this.logger.info("Importing playlist", { playlistId, userId });
+    this.provider = this.provider || createPlaylistProvider();
+    const result = await this.provider.fetchPlaylist(playlistId);
+
+    // Playlists may list the same video more than once
+    const seen = new Set<string>();
+    const videos = result.videos.filter(video => {
+      if (seen.has(video.videoId)) return false;
+      seen.add(video.videoId);
+      return true;
+    }).slice(0, MAX_PLAYLIST_VIDEOS);
+
+    if (videos.length === 0) {
+      throw new AppError(
+        "Playlist has no videos",
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const playlist = await this.createPlaylist({
+      user_id: userId,
+      playlist_id: playlistId,
+      title: result.title,
+      url: buildPlaylistUrl(playlistId),
+      provider: result.provider,
+      status: "pending",
+      synthesis: null,
+    });
+
+    const items = await this.createPlaylistItems(
+      userId,
+      videos.map((video, position) => ({
+        playlist_id: playlist.id,
+        video_id: video.videoId,
+        title: video.title,
+        position,
+        status: "pending",
+        summary_id: null,
+        error: null,
+      }))
+    );
+
+    this.logger.info("Imported playlist", { playlistId, id: playlist.id, videos: items.length });
+
+    return { ...playlist, items };
+  }
+
+  /**
+   * Summarize each pending video of a playlist in order, then write an
+   * overview of the whole playlist. Failures are recorded on the item
+   * and do not stop the rest of the playlist.
+   */
+  async processPlaylist(id: string, userId: string): Promise<PlaylistDetails> {
+    const playlist = await this.requirePlaylist(userId, id);
+    await this.updatePlaylist(userId, id, { status: "processing" });
+
+    for (const item of await this.getPlaylistItems(userId, id)) {
+      if (item.status === "completed") continue;
+
+      await this.updatePlaylistItem(userId, item.id, { status: "processing", error: null });
+      try {
+        const summary = await this.videoProcessing.processVideo(
+          buildVideoUrl(item.video_id),
+          userId
+        );
+        await this.updatePlaylistItem(userId, item.id, { status: "completed", summary_id: summary.id });
+      } catch (error) {
+        this.logger.error("Failed to process playlist video", error as Error, {
+          playlistId: id,
+          videoId: item.video_id,
+        });
+        await this.updatePlaylistItem(userId, item.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Failed to process video",
+        });
+      }
+    }
+
+    const completed = (await this.getPlaylistItems(userId, id)).filter(item => item.summary);
+    if (completed.length === 0) {
+      await this.updatePlaylist(userId, id, { status: "failed" });
+      return this.getPlaylist(id, userId);
+    }
+
+    try {
+      const synthesis = await this.openAIService.generatePlaylistSynthesis(
+        playlist.title,
+        completed.map(item => ({
+          title: item.summary?.videos?.title || item.title || item.video_id,
+          summary: item.summary?.summary || "",
+        }))
+      );
+      await this.updatePlaylist(userId, id, { status: "completed", synthesis });
+    } catch (error) {
+      this.logger.error("Failed to write playlist synthesis", error as Error, { playlistId: id });
+      await this.updatePlaylist(userId, id, { status: "failed" });
+    }
+
+    return this.getPlaylist(id, userId);
+  }
+
+  /**
+   * Mark a playlist as failed, along with each video not yet summarized,
+   * when its processing stopped before it could finish
+   * @param error - Why processing stopped, saved on the videos
+   */
+  async failPlaylist(id: string, userId: string, error: string): Promise<void> {
+    await this.requirePlaylist(userId, id);
+
+    for (const item of await this.getPlaylistItems(userId, id)) {
+      if (item.status === "pending" || item.status === "processing") {
+        await this.updatePlaylistItem(userId, item.id, { status: "failed", error });
+      }
+    }
+    await this.updatePlaylist(userId, id, { status: "failed" });
+  }
+
+  /**
+   * Get a user's playlist with its items and their summaries
+   */
+  async getPlaylist(id: string, userId: string): Promise<PlaylistDetails> {
+    const playlist = await this.requirePlaylist(userId, id);
+    return { ...playlist, items: await this.getPlaylistItems(userId, id) };
+  }
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { ErrorCode } from "@/lib/types/errors";
+import { findFeedLink, parsePodcastFeed } from "./PodcastService";
+
+const FEED_URL = "https://podcasts.example.com/show/feed.xml";
+const exampleFeed = readFileSync(path.join(process.cwd(), "fixtures/podcasts/example.xml"), "utf8");
+
+describe("parsePodcastFeed", () => {
+  it("parses the example feed", () => {
+    const feed = parsePodcastFeed(exampleFeed, FEED_URL);
+
+    expect(feed).toEqual({
+      feedUrl: FEED_URL,
+      title: "The Example Show",
+      link: "https://podcasts.example.com/show",
+      episodes: [
+        {
+          guid: "example-show-episode-2",
+          title: "Episode 2: Q&A with listeners",
+          link: "https://podcasts.example.com/show/episode-2",
+          audioUrl: "https://cdn.example.com/audio/episode-2.mp3?source=rss&v=1",
+          audioType: "audio/mpeg",
+          publishedAt: "Tue, 08 Oct 2024 09:00:00 GMT",
+        },
+        {
+          guid: "example-show-episode-1",
+          title: "Episode 1: Welcome",
+          link: "https://podcasts.example.com/show/episode-1",
+          audioUrl: "https://cdn.example.com/audio/episode-1.m4a",
+          audioType: "audio/x-m4a",
+          publishedAt: "Tue, 01 Oct 2024 09:00:00 GMT",
+        },
+      ],
+    });
+  });
+
+  it("keeps only http(s) links and audio", () => {
+    const feed = parsePodcastFeed(
+      `<rss version="2.0"><channel>
+        <title>Unsafe Show</title>
+        <link>javascript:alert(document.cookie)</link>
+        <item>
+          <title>Unsafe link</title>
+          <link>javascript:alert(1)</link>
+          <enclosure url="/audio/relative.mp3" type="audio/mpeg"/>
+        </item>
+        <item>
+          <title>Unsafe audio</title>
+          <enclosure url="data:audio/mpeg;base64,AAAA" type="audio/mpeg"/>
+        </item>
+      </channel></rss>`,
+      FEED_URL
+    );
+
+    expect(feed.link).toBeNull();
+    expect(feed.episodes).toHaveLength(1);
+    expect(feed.episodes[0].link).toBeNull();
+    expect(feed.episodes[0].audioUrl).toBe("https://podcasts.example.com/audio/relative.mp3");
+  });
+
+  it("rejects documents that are not RSS feeds", () => {
+    expect(() => parsePodcastFeed("<html><body>Not a feed</body></html>", FEED_URL)).toThrow(
+      expect.objectContaining({ code: ErrorCode.PODCAST_INVALID_FEED })
+    );
+  });
+});
+
+describe("findFeedLink", () => {
+  it("finds the feed an episode page advertises", () => {
+    const html = `<head>
+      <link rel="stylesheet" href="/style.css">
+      <link rel="alternate" type="application/rss+xml" href="/show/feed.xml">
+    </head>`;
+
+    expect(findFeedLink(html, "https://podcasts.example.com/show/episode-1")).toBe(FEED_URL);
+  });
+});
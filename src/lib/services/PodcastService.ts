@@ -0,0 +1,406 @@
+import { createHash } from "crypto";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { UserSummaryRecord, VideoRecord } from "@/lib/types/database";
+import {
+  PodcastAudio,
+  PodcastEpisode,
+  PodcastFeed,
+  PodcastProcessingOptions,
+} from "@/lib/types/podcast";
+import { LoadingType } from "@/lib/types/loading";
+import { StoredTranscript } from "@/lib/types/storage";
+import { TranscriptProviderName } from "@/lib/types/transcript";
+import {
+  canSplitAudio,
+  getAudioExtension,
+  getAudioMimeType,
+  splitAudio,
+  WHISPER_MAX_FILE_SIZE,
+} from "@/lib/utils/audio";
+import { parsePodcastUrl } from "@/lib/utils/podcast";
+import { readLimitedBody, safeFetch } from "@/lib/utils/safeFetch";
+import { getTranscript, getTranscriptPath, storeTranscript } from "@/lib/utils/storage";
+import { toHttpUrl } from "@/lib/utils/url";
+import { getAttribute, getElements, getElementText } from "@/lib/utils/xml";
+import { DatabaseService } from "./DatabaseService";
+import { OpenAIService } from "./openai";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+interface ResolvedEpisode {
+  feed: PodcastFeed | null;
+  episode: PodcastEpisode;
+}
+
+// Longest MP3, WAV, M4A or MP4 episode audio downloaded, about 3.5 hours of 128 kbps MP3;
+// other formats cannot be split and are limited to what Whisper accepts
+const MAX_EPISODE_BYTES = 200 * 1024 * 1024;
+// Feeds of long-running shows list every episode and can run to several megabytes
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+// Time allowed for downloading an episode's audio
+const AUDIO_TIMEOUT_MS = 10 * 60 * 1000;
+
+const RSS_PATTERN = /<rss[\s>]/;
+const FEED_LINK_PATTERN = /<link\s[^>]*>/gi;
+
+/**
+ * Short stable ID derived from a URL or GUID
+ */
+function hashId(prefix: string, value: string): string {
+  return `${prefix}_${createHash("sha1").update(value).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Compare two episode identifiers, ignoring trailing slashes
+ */
+function matchesEpisode(value: string | null, selector: string): boolean {
+  return !!value && value.replace(/\/+$/, "") === selector.replace(/\/+$/, "");
+}
+
+/**
+ * Parse a podcast RSS feed. Items without an http(s) audio enclosure are
+ * skipped, and page links that are not http(s) URLs are dropped.
+ * @param xml - The feed document
+ * @param feedUrl - Where the feed was fetched from
+ */
+export function parsePodcastFeed(xml: string, feedUrl: string): PodcastFeed {
+  if (!RSS_PATTERN.test(xml) || !/<channel[\s>]/.test(xml)) {
+    throw new AppError(
+      "Not a podcast RSS feed",
+      ErrorCode.PODCAST_INVALID_FEED,
+      HttpStatus.BAD_REQUEST,
+      { feedUrl }
+    );
+  }
+
+  const [header] = xml.split("<item");
+  const episodes: PodcastEpisode[] = getElements(xml, "item")
+    .map(item => {
+      const audioUrl = toHttpUrl(getAttribute(item, "enclosure", "url"), feedUrl) || "";
+      return {
+        guid: getElementText(item, "guid") || audioUrl,
+        title: getElementText(item, "title") || "Untitled Episode",
+        link: toHttpUrl(getElementText(item, "link"), feedUrl),
+        audioUrl,
+        audioType: getAttribute(item, "enclosure", "type"),
+        publishedAt: getElementText(item, "pubDate"),
+      };
+    })
+    .filter(episode => episode.audioUrl.length > 0);
+
+  return {
+    feedUrl,
+    title: getElementText(header, "title") || "Unknown Podcast",
+    link: toHttpUrl(getElementText(header, "link"), feedUrl),
+    episodes,
+  };
+}
+
+/**
+ * Find the RSS feed an HTML page advertises with `<link rel="alternate">`
+ * @returns The absolute feed URL, or null
+ */
+export function findFeedLink(html: string, pageUrl: string): string | null {
+  for (const tag of html.match(FEED_LINK_PATTERN) || []) {
+    const type = getAttribute(tag, "link", "type")?.toLowerCase();
+    const href = getAttribute(tag, "link", "href");
+    if (!href || type !== "application/rss+xml") continue;
+    if (getAttribute(tag, "link", "rel")?.toLowerCase() !== "alternate") continue;
+
+    try {
+      return new URL(href, pageUrl).toString();
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Service class for summarizing podcast episodes from their RSS feed or audio
+ */
+export class PodcastService extends DatabaseService {
+  private openAIService: OpenAIService;
+  private videoProcessing: VideoProcessingService;
+
+  constructor() {
+    super("PodcastService");
+    this.openAIService = new OpenAIService();
+    this.videoProcessing = new VideoProcessingService();
+  }
+
+  /**
+   * Transcribe and summarize a podcast episode
+   *
+   * The episode is stored alongside videos with `content_type` "podcast" and
+   * its show as the channel; summaries are shared like video summaries.
+   * @param url - A podcast RSS feed, an episode page that links to its feed,
+   * or the episode's audio file
+   * @param userId - The user the summary belongs to
+   * @param options - Pass `episode` to pick an episode other than the latest from a feed
+   */
+  async processEpisode(
+    url: string,
+    userId: string,
+    options: PodcastProcessingOptions = {}
+  ): Promise<UserSummaryRecord> {
+    this.logger.info("Processing podcast episode", { url, userId, episode: options.episode });
+
+    try {
+      const podcastUrl = parsePodcastUrl(url);
+      if (!podcastUrl) {
+        throw new AppError(
+          "Invalid podcast URL",
+          ErrorCode.VALIDATION_INVALID_FORMAT,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const { feed, episode } = await this.resolveEpisode(podcastUrl, options.episode);
+      const contentId = hashId("ep", `${feed?.feedUrl || ""}|${episode.guid}`);
+
+      let transcript = options.refresh ? null : await getTranscript(contentId);
+      if (!transcript || !(await this.findVideoById(contentId))) {
+        transcript = await this.ingestEpisode(contentId, feed, episode, options);
+      }
+
+      const userSummary = await this.videoProcessing.summarizeContent(contentId, userId, transcript, options);
+
+      this.logger.info("Processed podcast episode successfully", { contentId, summaryId: userSummary.id });
+
+      return userSummary;
+    } catch (error) {
+      this.logger.error("Failed to process podcast episode", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch and parse a podcast RSS feed
+   */
+  async fetchFeed(feedUrl: string): Promise<PodcastFeed> {
+    const response = await this.fetchUrl(feedUrl);
+    return parsePodcastFeed(await this.readText(response), feedUrl);
+  }
+
+  /**
+   * Work out which episode a URL points to. Feeds and episode pages are
+   * parsed; anything served as audio is treated as the episode itself.
+   */
+  private async resolveEpisode(url: string, selector?: string): Promise<ResolvedEpisode> {
+    const response = await this.fetchUrl(url);
+    const mimeType = getAudioMimeType(url, response.headers.get("content-type"));
+    const contentType = response.headers.get("content-type") || "";
+
+    if (mimeType && !/(xml|html|text)/.test(contentType)) {
+      // The audio is downloaded again with a longer timeout once it is needed
+      await response.body?.cancel();
+      return {
+        feed: null,
+        episode: {
+          guid: url,
+          title: decodeURIComponent(new URL(url).pathname.split("/").pop() || "") || "Untitled Episode",
+          link: null,
+          audioUrl: url,
+          audioType: mimeType,
+          publishedAt: null,
+        },
+      };
+    }
+
+    const body = await this.readText(response);
+    if (RSS_PATTERN.test(body.slice(0, 1024))) {
+      const feed = parsePodcastFeed(body, url);
+      return { feed, episode: this.selectEpisode(feed, selector) };
+    }
+
+    // An episode page: find the show's feed and the episode linking back to the page
+    const feedUrl = findFeedLink(body, url);
+    if (!feedUrl) {
+      throw new AppError(
+        "No podcast feed found at this URL",
+        ErrorCode.PODCAST_INVALID_FEED,
+        HttpStatus.BAD_REQUEST,
+        { url }
+      );
+    }
+
+    const feed = await this.fetchFeed(feedUrl);
+    return { feed, episode: this.selectEpisode(feed, selector || url) };
+  }
+
+  /**
+   * Pick an episode by GUID, page link or audio URL, or the latest one
+   */
+  private selectEpisode(feed: PodcastFeed, selector?: string): PodcastEpisode {
+    const episode = selector
+      ? feed.episodes.find(e =>
+          matchesEpisode(e.guid, selector) ||
+          matchesEpisode(e.link, selector) ||
+          matchesEpisode(e.audioUrl, selector)
+        )
+      : feed.episodes[0];
+
+    if (!episode) {
+      throw new AppError(
+        "Episode not found in podcast feed",
+        ErrorCode.PODCAST_NOT_FOUND,
+        HttpStatus.NOT_FOUND,
+        { feedUrl: feed.feedUrl, episode: selector }
+      );
+    }
+    return episode;
+  }
+
+  /**
+   * Download and transcribe an episode, then store its transcript and
+   * create or update its show and episode records
+   */
+  private async ingestEpisode(
+    contentId: string,
+    feed: PodcastFeed | null,
+    episode: PodcastEpisode,
+    options: PodcastProcessingOptions
+  ): Promise<StoredTranscript> {
+    const audio = await this.downloadAudio(episode);
+    const extension = getAudioExtension(audio.mimeType);
+    const chunks = splitAudio(audio.data, audio.mimeType).map((chunk, index) => ({
+      file: new File([chunk.data], `${contentId}-${index}.${extension}`, { type: audio.mimeType }),
+      duration: chunk.duration,
+    }));
+
+    this.logger.info("Transcribing podcast episode", { contentId, bytes: audio.data.length, chunks: chunks.length });
+    options.onProgress?.({
+      type: LoadingType.AI_TRANSCRIBING,
+      message: chunks.length > 1 ? `Transcribing ${chunks.length} parts` : "Transcribing audio",
+      progress: 0,
+    });
+    const segments = await this.openAIService.transcribeAudioChunks(chunks, (completed, total) => {
+      options.onProgress?.({
+        type: LoadingType.AI_TRANSCRIBING,
+        message: `Transcribed part ${completed} of ${total}`,
+        progress: Math.round((completed / total) * 100),
+      });
+    });
+    if (segments.length === 0) {
+      throw new AppError(
+        "No transcript content available",
+        ErrorCode.VIDEO_PROCESSING_FAILED,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    // Episodes without a feed are grouped under the host serving their audio
+    const showName = feed?.title || new URL(episode.audioUrl).hostname;
+    const showId = hashId("pod", feed?.feedUrl || showName);
+
+    const transcript: StoredTranscript = {
+      video_id: contentId,
+      language: options.language || segments[0]?.lang || "en",
+      segments,
+      metadata: {
+        title: episode.title,
+        channel: showName,
+        duration: segments[segments.length - 1]?.end || 0,
+        last_updated: new Date(),
+      }
+    };
+
+    await storeTranscript(contentId, transcript);
+
+    await this.upsertChannel({
+      id: showId,
+      name: showName,
+      url: feed?.link || feed?.feedUrl || episode.audioUrl,
+      subscriber_count: 0,
+    });
+
+    const now = new Date().toISOString();
+    const publishedAt = episode.publishedAt ? new Date(episode.publishedAt) : null;
+    const existingEpisode = await this.findVideoById(contentId);
+    if (existingEpisode) {
+      await this.updateVideo(contentId, {
+        transcript_provider: TranscriptProviderName.WHISPER,
+        language: transcript.language,
+        last_updated: now
+      });
+    } else {
+      const video: Omit<VideoRecord, 'created_at'> = {
+        id: contentId,
+        channel_id: showId,
+        content_type: 'podcast',
+        unique_identifier: episode.guid,
+        title: episode.title,
+        url: episode.link || episode.audioUrl,
+        transcript_path: getTranscriptPath(contentId),
+        transcript_provider: TranscriptProviderName.WHISPER,
+        language: transcript.language,
+        metadata: {
+          audio_url: episode.audioUrl,
+          feed_url: feed?.feedUrl || null,
+        },
+        published_at: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt.toISOString() : now,
+        last_updated: now
+      };
+
+      await this.upsertVideo(video);
+    }
+
+    return transcript;
+  }
+
+  /**
+   * Download an episode's audio, refusing files over MAX_EPISODE_BYTES
+   */
+  private async downloadAudio(episode: PodcastEpisode): Promise<PodcastAudio> {
+    const audioResponse = await this.fetchUrl(episode.audioUrl, AUDIO_TIMEOUT_MS);
+    const mimeType = getAudioMimeType(episode.audioUrl, audioResponse.headers.get("content-type"))
+      || getAudioMimeType(episode.audioUrl, episode.audioType);
+    if (!mimeType) {
+      await audioResponse.body?.cancel();
+      throw new AppError(
+        "Unsupported podcast audio format",
+        ErrorCode.PODCAST_UNSUPPORTED_AUDIO,
+        HttpStatus.BAD_REQUEST,
+        { audioUrl: episode.audioUrl, contentType: audioResponse.headers.get("content-type") }
+      );
+    }
+
+    // Audio that cannot be split has to fit in one Whisper request
+    const data = canSplitAudio(mimeType)
+      ? await readLimitedBody(audioResponse, MAX_EPISODE_BYTES, "Podcast episode")
+      : await readLimitedBody(
+          audioResponse,
+          WHISPER_MAX_FILE_SIZE,
+          `Podcast episode in ${getAudioExtension(mimeType)} format`
+        );
+    return { data, mimeType };
+  }
+
+  /**
+   * Read a feed or page, refusing documents over MAX_FEED_BYTES
+   */
+  private async readText(response: Response): Promise<string> {
+    return (await readLimitedBody(response, MAX_FEED_BYTES, "Podcast feed")).toString("utf8");
+  }
+
+  /**
+   * Fetch a podcast URL, following redirects to public hosts only
+   * @param timeoutMs - Time allowed for the request and reading its body
+   */
+  private async fetchUrl(url: string, timeoutMs?: number): Promise<Response> {
+    const response = await safeFetch(url, { timeoutMs });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw response.status === 404
+        ? new AppError("Podcast not found", ErrorCode.PODCAST_NOT_FOUND, HttpStatus.NOT_FOUND, { url })
+        : new AppError(
+            "Failed to fetch podcast",
+            ErrorCode.API_SERVICE_UNAVAILABLE,
+            HttpStatus.SERVICE_UNAVAILABLE,
+            { url, status: response.status }
+          );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,577 @@
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import path from "path";
+import BetterSqlite3 from "better-sqlite3";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import {
+  ChannelRecord,
+  ContentQuestionRecord,
+  ContentSummaryRecord,
+  ContentTagRecord,
+  JobRecord,
+  PlaylistItemRecord,
+  PlaylistRecord,
+  ProfileRecord,
+  SubscriptionRecord,
+  TagRecord,
+  Tables,
+  UserSummaryRecord,
+  VideoRecord,
+} from "@/lib/types/database";
+import { DatabaseBackendName, DatabaseRepository } from "@/lib/types/repository";
+import { pickColumns } from "@/lib/utils/records";
+
+type TableName = keyof Tables;
+type Row = Record<string, unknown>;
+
+// Columns holding JSON, stored as text
+const JSON_COLUMNS: Partial<Record<TableName, string[]>> = {
+  videos: ["metadata"],
+  user_summaries: ["tags"],
+  content_summaries: ["tags"],
+  content_questions: ["citations"],
+  jobs: ["input"],
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS channels (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    subscriber_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS videos (
+    id TEXT PRIMARY KEY,
+    channel_id TEXT NOT NULL,
+    content_type TEXT NOT NULL DEFAULT 'video',
+    unique_identifier TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    transcript_path TEXT NOT NULL,
+    transcript_provider TEXT,
+    language TEXT NOT NULL,
+    metadata TEXT,
+    published_at TEXT NOT NULL,
+    last_updated TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS videos_url ON videos (url);
+  CREATE INDEX IF NOT EXISTS videos_unique_identifier ON videos (unique_identifier);
+  CREATE TABLE IF NOT EXISTS user_summaries (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    video_id TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    detailed_summary TEXT,
+    tags TEXT NOT NULL,
+    content_summary_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS user_summaries_user ON user_summaries (user_id, created_at);
+  CREATE TABLE IF NOT EXISTS content_summaries (
+    id TEXT PRIMARY KEY,
+    content_id TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    detailed_summary TEXT,
+    tags TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (content_id, prompt_version)
+  );
+  CREATE TABLE IF NOT EXISTS tags (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE
+  );
+  CREATE TABLE IF NOT EXISTS content_tags (
+    content_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL,
+    content_type TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS content_tags_content ON content_tags (content_id);
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    subscription_type TEXT NOT NULL,
+    subscription_id TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS content_questions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    content_id TEXT NOT NULL,
+    question TEXT NOT NULL,
+    response TEXT,
+    citations TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS content_questions_user ON content_questions (user_id, content_id);
+  CREATE TABLE IF NOT EXISTS playlists (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    playlist_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    status TEXT NOT NULL,
+    synthesis TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS playlist_items (
+    id TEXT PRIMARY KEY,
+    playlist_id TEXT NOT NULL,
+    video_id TEXT NOT NULL,
+    title TEXT,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    summary_id TEXT,
+    error TEXT,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS playlist_items_playlist ON playlist_items (playlist_id, position);
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    input TEXT NOT NULL,
+    status TEXT NOT NULL,
+    stage TEXT,
+    error TEXT,
+    result_id TEXT,
+    heartbeat_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS jobs_user ON jobs (user_id, created_at);
+`;
+
+/**
+ * Keeps every record in an SQLite database file, for local and self-hosted
+ * use. The file is opened in WAL mode so that several server processes can
+ * share it.
+ */
+export class SqliteRepository implements DatabaseRepository {
+  readonly name = DatabaseBackendName.SQLITE;
+  private db: BetterSqlite3.Database;
+
+  /**
+   * @param filePath - The database file, created with its tables if missing;
+   * `:memory:` for a throwaway database
+   */
+  constructor(filePath: string) {
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+    this.db = new BetterSqlite3(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.db.exec(SCHEMA);
+  }
+
+  // Profile methods
+  async getProfile(userId: string): Promise<ProfileRecord | null> {
+    return this.get<ProfileRecord>("profiles", "SELECT * FROM profiles WHERE id = ?", userId);
+  }
+
+  async upsertProfile(profile: Omit<ProfileRecord, 'created_at'>): Promise<ProfileRecord> {
+    this.upsert("profiles", { ...profile, created_at: new Date().toISOString() });
+    return (await this.getProfile(profile.id))!;
+  }
+
+  // Channel methods
+  async findChannelById(id: string): Promise<ChannelRecord | null> {
+    return this.get<ChannelRecord>("channels", "SELECT * FROM channels WHERE id = ?", id);
+  }
+
+  async upsertChannel(channel: Omit<ChannelRecord, 'created_at'>): Promise<ChannelRecord> {
+    this.upsert("channels", { ...channel, created_at: new Date().toISOString() });
+    return (await this.findChannelById(channel.id))!;
+  }
+
+  // Video methods
+  async findVideoById(id: string): Promise<VideoRecord | null> {
+    const video = this.get<VideoRecord>("videos", "SELECT * FROM videos WHERE id = ?", id);
+    return video ? this.withChannel(video) : null;
+  }
+
+  async findVideoByUrl(url: string): Promise<VideoRecord | null> {
+    const video = this.get<VideoRecord>(
+      "videos",
+      `SELECT * FROM videos
+       WHERE (url != '' AND url = ?) OR unique_identifier = ? OR json_extract(metadata, '$.feed_url') = ?
+       LIMIT 1`,
+      url, url, url
+    );
+    return video ? this.withChannel(video) : null;
+  }
+
+  async upsertVideo(video: Omit<VideoRecord, 'created_at'>): Promise<VideoRecord> {
+    this.upsert("videos", { ...video, created_at: new Date().toISOString() });
+    return (await this.findVideoById(video.id))!;
+  }
+
+  async updateVideo(id: string, video: Partial<VideoRecord>): Promise<VideoRecord> {
+    if (!this.update("videos", id, video)) {
+      throw new AppError(
+        'Video not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return (await this.findVideoById(id))!;
+  }
+
+  // Summary methods
+  async getUserSummaries(userId: string): Promise<UserSummaryRecord[]> {
+    const summaries = this.all<UserSummaryRecord>(
+      "user_summaries",
+      "SELECT * FROM user_summaries WHERE user_id = ? ORDER BY created_at DESC, rowid DESC",
+      userId
+    );
+    return Promise.all(summaries.map(s => this.withVideo(s)));
+  }
+
+  async findUserSummaryById(id: string): Promise<UserSummaryRecord | null> {
+    const summary = this.get<UserSummaryRecord>("user_summaries", "SELECT * FROM user_summaries WHERE id = ?", id);
+    return summary ? this.withVideo(summary) : null;
+  }
+
+  async createUserSummary(summary: Omit<UserSummaryRecord, 'id' | 'created_at' | 'updated_at'>): Promise<UserSummaryRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    this.insert("user_summaries", { ...summary, id, created_at: now, updated_at: now });
+    return (await this.findUserSummaryById(id))!;
+  }
+
+  async updateUserSummary(id: string, summary: Partial<UserSummaryRecord>): Promise<UserSummaryRecord> {
+    if (!this.update("user_summaries", id, { ...summary, updated_at: new Date().toISOString() })) {
+      throw new AppError(
+        'Summary not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return (await this.findUserSummaryById(id))!;
+  }
+
+  async findSummaryByVideoId(videoId: string, userId: string): Promise<UserSummaryRecord | null> {
+    const summary = this.get<UserSummaryRecord>(
+      "user_summaries",
+      "SELECT * FROM user_summaries WHERE video_id = ? AND user_id = ? ORDER BY rowid LIMIT 1",
+      videoId, userId
+    );
+    return summary ? this.withVideo(summary) : null;
+  }
+
+  // Content summary methods
+  async findContentSummary(contentId: string, promptVersion: string): Promise<ContentSummaryRecord | null> {
+    return this.get<ContentSummaryRecord>(
+      "content_summaries",
+      "SELECT * FROM content_summaries WHERE content_id = ? AND prompt_version = ?",
+      contentId, promptVersion
+    );
+  }
+
+  async findContentSummaryById(id: string): Promise<ContentSummaryRecord | null> {
+    return this.get<ContentSummaryRecord>("content_summaries", "SELECT * FROM content_summaries WHERE id = ?", id);
+  }
+
+  async upsertContentSummary(
+    summary: Omit<ContentSummaryRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ContentSummaryRecord> {
+    const now = new Date().toISOString();
+    const existing = await this.findContentSummary(summary.content_id, summary.prompt_version);
+
+    if (existing) {
+      this.update("content_summaries", existing.id, { ...summary, updated_at: now });
+      return (await this.findContentSummaryById(existing.id))!;
+    }
+
+    const id = randomUUID();
+    this.insert("content_summaries", { ...summary, id, created_at: now, updated_at: now });
+    return (await this.findContentSummaryById(id))!;
+  }
+
+  async updateContentSummary(id: string, summary: Partial<ContentSummaryRecord>): Promise<ContentSummaryRecord> {
+    if (!this.update("content_summaries", id, { ...summary, updated_at: new Date().toISOString() })) {
+      throw new AppError(
+        'Content summary not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return (await this.findContentSummaryById(id))!;
+  }
+
+  // Tag methods
+  async findOrCreateTag(name: string): Promise<TagRecord> {
+    const existingTag = this.get<TagRecord>("tags", "SELECT * FROM tags WHERE name = ?", name);
+    if (existingTag) return existingTag;
+
+    const tag = { id: randomUUID(), name };
+    this.insert("tags", tag);
+    return tag;
+  }
+
+  async addContentTag(contentTag: ContentTagRecord): Promise<void> {
+    this.insert("content_tags", contentTag);
+  }
+
+  async getContentTags(contentId: string): Promise<TagRecord[]> {
+    return this.all<TagRecord>(
+      "tags",
+      `SELECT tags.* FROM content_tags JOIN tags ON tags.id = content_tags.tag_id
+       WHERE content_tags.content_id = ? ORDER BY content_tags.rowid`,
+      contentId
+    );
+  }
+
+  // Subscription methods
+  async getSubscriptions(userId: string): Promise<SubscriptionRecord[]> {
+    return this.all<SubscriptionRecord>(
+      "subscriptions",
+      "SELECT * FROM subscriptions WHERE user_id = ? ORDER BY rowid",
+      userId
+    );
+  }
+
+  async findSubscriptionById(id: string): Promise<SubscriptionRecord | null> {
+    return this.get<SubscriptionRecord>("subscriptions", "SELECT * FROM subscriptions WHERE id = ?", id);
+  }
+
+  async addSubscription(subscription: Omit<SubscriptionRecord, 'id' | 'created_at'>): Promise<SubscriptionRecord> {
+    const fullSubscription = {
+      ...subscription,
+      id: randomUUID(),
+      created_at: new Date().toISOString()
+    };
+    this.insert("subscriptions", fullSubscription);
+    return fullSubscription;
+  }
+
+  async removeSubscription(userId: string, subscriptionId: string): Promise<void> {
+    this.db.prepare("DELETE FROM subscriptions WHERE id = ? AND user_id = ?").run(subscriptionId, userId);
+  }
+
+  // Content question methods
+  async getContentQuestions(userId: string, contentId: string): Promise<ContentQuestionRecord[]> {
+    return this.all<ContentQuestionRecord>(
+      "content_questions",
+      "SELECT * FROM content_questions WHERE user_id = ? AND content_id = ? ORDER BY created_at, rowid",
+      userId, contentId
+    );
+  }
+
+  async createContentQuestion(question: Omit<ContentQuestionRecord, 'id' | 'created_at'>): Promise<ContentQuestionRecord> {
+    const id = randomUUID();
+    this.insert("content_questions", { ...question, id, created_at: new Date().toISOString() });
+    return (await this.findContentQuestionById(id))!;
+  }
+
+  async findContentQuestionById(id: string): Promise<ContentQuestionRecord | null> {
+    return this.get<ContentQuestionRecord>("content_questions", "SELECT * FROM content_questions WHERE id = ?", id);
+  }
+
+  async deleteContentQuestion(userId: string, questionId: string): Promise<void> {
+    const result = this.db
+      .prepare("DELETE FROM content_questions WHERE id = ? AND user_id = ?")
+      .run(questionId, userId);
+    if (result.changes === 0) {
+      throw new AppError(
+        'Question not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+  }
+
+  async deleteContentQuestions(userId: string, contentId: string): Promise<void> {
+    this.db.prepare("DELETE FROM content_questions WHERE user_id = ? AND content_id = ?").run(userId, contentId);
+  }
+
+  // Playlist methods
+  async getUserPlaylists(userId: string): Promise<PlaylistRecord[]> {
+    return this.all<PlaylistRecord>(
+      "playlists",
+      "SELECT * FROM playlists WHERE user_id = ? ORDER BY created_at DESC, rowid DESC",
+      userId
+    );
+  }
+
+  async findPlaylistById(id: string): Promise<PlaylistRecord | null> {
+    return this.get<PlaylistRecord>("playlists", "SELECT * FROM playlists WHERE id = ?", id);
+  }
+
+  async createPlaylist(playlist: Omit<PlaylistRecord, 'id' | 'created_at' | 'updated_at'>): Promise<PlaylistRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    this.insert("playlists", { ...playlist, id, created_at: now, updated_at: now });
+    return (await this.findPlaylistById(id))!;
+  }
+
+  async updatePlaylist(id: string, playlist: Partial<PlaylistRecord>): Promise<PlaylistRecord> {
+    if (!this.update("playlists", id, { ...playlist, updated_at: new Date().toISOString() })) {
+      throw new AppError(
+        'Playlist not found',
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return (await this.findPlaylistById(id))!;
+  }
+
+  async getPlaylistItems(playlistId: string): Promise<PlaylistItemRecord[]> {
+    const items = this.all<PlaylistItemRecord>(
+      "playlist_items",
+      "SELECT * FROM playlist_items WHERE playlist_id = ? ORDER BY position",
+      playlistId
+    );
+
+    return Promise.all(items.map(async i => ({
+      ...i,
+      summary: i.summary_id ? await this.findUserSummaryById(i.summary_id) : null
+    })));
+  }
+
+  async findPlaylistItemById(id: string): Promise<PlaylistItemRecord | null> {
+    return this.get<PlaylistItemRecord>("playlist_items", "SELECT * FROM playlist_items WHERE id = ?", id);
+  }
+
+  async createPlaylistItems(items: Omit<PlaylistItemRecord, 'id' | 'updated_at'>[]): Promise<PlaylistItemRecord[]> {
+    const now = new Date().toISOString();
+    const fullItems = items.map(item => ({
+      ...item,
+      id: randomUUID(),
+      updated_at: now
+    }));
+    this.db.transaction(() => fullItems.forEach(item => this.insert("playlist_items", item)))();
+    return fullItems;
+  }
+
+  async updatePlaylistItem(id: string, item: Partial<PlaylistItemRecord>): Promise<PlaylistItemRecord> {
+    if (!this.update("playlist_items", id, { ...item, updated_at: new Date().toISOString() })) {
+      throw new AppError(
+        'Playlist item not found',
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return (await this.findPlaylistItemById(id))!;
+  }
+
+  // Job methods
+  async getUserJobs(userId: string): Promise<JobRecord[]> {
+    return this.all<JobRecord>(
+      "jobs",
+      "SELECT * FROM jobs WHERE user_id = ? ORDER BY created_at DESC, rowid DESC",
+      userId
+    );
+  }
+
+  async findJobById(id: string): Promise<JobRecord | null> {
+    return this.get<JobRecord>("jobs", "SELECT * FROM jobs WHERE id = ?", id);
+  }
+
+  async createJob(job: Omit<JobRecord, 'id' | 'created_at' | 'updated_at'>): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    this.insert("jobs", { ...job, id, created_at: now, updated_at: now });
+    return (await this.findJobById(id))!;
+  }
+
+  async updateJob(id: string, job: Partial<JobRecord>): Promise<JobRecord> {
+    if (!this.update("jobs", id, { ...job, updated_at: new Date().toISOString() })) {
+      throw new AppError(
+        'Job not found',
+        ErrorCode.JOB_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return (await this.findJobById(id))!;
+  }
+
+  private async withChannel(video: VideoRecord): Promise<VideoRecord> {
+    return { ...video, channel: (await this.findChannelById(video.channel_id)) || undefined };
+  }
+
+  private async withVideo(summary: UserSummaryRecord): Promise<UserSummaryRecord> {
+    return { ...summary, videos: await this.findVideoById(summary.video_id) };
+  }
+
+  private get<T>(table: TableName, sql: string, ...params: unknown[]): T | null {
+    const row = this.db.prepare(sql).get(...params) as Row | undefined;
+    return row ? this.fromRow<T>(table, row) : null;
+  }
+
+  private all<T>(table: TableName, sql: string, ...params: unknown[]): T[] {
+    return (this.db.prepare(sql).all(...params) as Row[]).map(row => this.fromRow<T>(table, row));
+  }
+
+  private insert(table: TableName, record: object): void {
+    const row = this.toRow(table, record);
+    const columns = Object.keys(row);
+    this.db
+      .prepare(
+        `INSERT INTO ${table} (${columns.join(", ")}) ` +
+        `VALUES (${columns.map(column => `@${column}`).join(", ")})`
+      )
+      .run(row);
+  }
+
+  /**
+   * Insert a record, or update every column but `created_at` when its ID exists
+   */
+  private upsert(table: TableName, record: object): void {
+    const row = this.toRow(table, record);
+    const columns = Object.keys(row);
+    const updates = columns.filter(column => column !== "id" && column !== "created_at");
+    this.db
+      .prepare(
+        `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(column => `@${column}`).join(", ")}) ` +
+        `ON CONFLICT (id) DO UPDATE SET ${updates.map(column => `${column} = excluded.${column}`).join(", ")}`
+      )
+      .run(row);
+  }
+
+  /**
+   * Update the given columns of a record
+   * @returns Whether the record exists
+   */
+  private update(table: TableName, id: string, changes: object): boolean {
+    const row = this.toRow(table, changes);
+    delete row.id;
+    const columns = Object.keys(row);
+    if (columns.length === 0) {
+      return !!this.db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id);
+    }
+
+    const result = this.db
+      .prepare(`UPDATE ${table} SET ${columns.map(column => `${column} = @${column}`).join(", ")} WHERE id = @id`)
+      .run({ ...row, id });
+    return result.changes > 0;
+  }
+
+  private toRow(table: TableName, record: object): Row {
+    const row = pickColumns(table, record);
+    for (const column of JSON_COLUMNS[table] || []) {
+      if (column in row) row[column] = row[column] === null ? null : JSON.stringify(row[column]);
+    }
+    return row;
+  }
+
+  private fromRow<T>(table: TableName, row: Row): T {
+    const record = { ...row };
+    for (const column of JSON_COLUMNS[table] || []) {
+      if (typeof record[column] === "string") record[column] = JSON.parse(record[column] as string);
+    }
+    return record as T;
+  }
+}
@@ -0,0 +1,562 @@
+import { randomUUID } from "crypto";
+import { createClient, PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import {
+  ChannelRecord,
+  ContentQuestionRecord,
+  ContentSummaryRecord,
+  ContentTagRecord,
+  JobRecord,
+  PlaylistItemRecord,
+  PlaylistRecord,
+  ProfileRecord,
+  SubscriptionRecord,
+  TagRecord,
+  UserSummaryRecord,
+  VideoRecord,
+} from "@/lib/types/database";
+import { DatabaseBackendName, DatabaseRepository } from "@/lib/types/repository";
+import { pickColumns } from "@/lib/utils/records";
+
+interface QueryResult<T> {
+  data: T | null;
+  error: PostgrestError | null;
+}
+
+/**
+ * Keeps every record in the Supabase Postgres database, using the tables
+ * created by the migrations in `supabase/migrations`. Queries run with the
+ * service role key, so access checks are left to the services.
+ */
+export class SupabaseRepository implements DatabaseRepository {
+  readonly name = DatabaseBackendName.SUPABASE;
+  private client: SupabaseClient;
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, { auth: { persistSession: false } });
+  }
+
+  // Profile methods
+  async getProfile(userId: string): Promise<ProfileRecord | null> {
+    return this.run<ProfileRecord | null>(
+      "Failed to load profile",
+      this.client.from("profiles").select("*").eq("id", userId).maybeSingle()
+    );
+  }
+
+  async upsertProfile(profile: Omit<ProfileRecord, 'created_at'>): Promise<ProfileRecord> {
+    return this.run<ProfileRecord>(
+      "Failed to save profile",
+      this.client.from("profiles").upsert(pickColumns("profiles", profile)).select().single()
+    );
+  }
+
+  // Channel methods
+  async findChannelById(id: string): Promise<ChannelRecord | null> {
+    return this.run<ChannelRecord | null>(
+      "Failed to load channel",
+      this.client.from("channels").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async upsertChannel(channel: Omit<ChannelRecord, 'created_at'>): Promise<ChannelRecord> {
+    return this.run<ChannelRecord>(
+      "Failed to save channel",
+      this.client.from("channels").upsert(pickColumns("channels", channel)).select().single()
+    );
+  }
+
+  // Video methods
+  async findVideoById(id: string): Promise<VideoRecord | null> {
+    const video = await this.run<VideoRecord | null>(
+      "Failed to load video",
+      this.client.from("videos").select("*").eq("id", id).maybeSingle()
+    );
+    return video ? this.withChannel(video) : null;
+  }
+
+  async findVideoByUrl(url: string): Promise<VideoRecord | null> {
+    // Three queries rather than an `or` filter, which would need the URL escaped
+    const filters: [string, string][] = [
+      ["url", url],
+      ["unique_identifier", url],
+      ["metadata->>feed_url", url],
+    ];
+
+    for (let i = 0; i < filters.length; i++) {
+      const [column, value] = filters[i];
+      if (!value) continue;
+      const videos = await this.run<VideoRecord[]>(
+        "Failed to load video",
+        this.client.from("videos").select("*").eq(column, value).limit(1)
+      );
+      if (videos.length > 0) return this.withChannel(videos[0]);
+    }
+    return null;
+  }
+
+  async upsertVideo(video: Omit<VideoRecord, 'created_at'>): Promise<VideoRecord> {
+    const created = await this.run<VideoRecord>(
+      "Failed to save video",
+      this.client.from("videos").upsert(pickColumns("videos", video)).select().single()
+    );
+    return this.withChannel(created);
+  }
+
+  async updateVideo(id: string, video: Partial<VideoRecord>): Promise<VideoRecord> {
+    const updated = await this.updateById<VideoRecord>("videos", id, video);
+    if (!updated) {
+      throw new AppError(
+        'Video not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return this.withChannel(updated);
+  }
+
+  // Summary methods
+  async getUserSummaries(userId: string): Promise<UserSummaryRecord[]> {
+    const summaries = await this.run<UserSummaryRecord[]>(
+      "Failed to load summaries",
+      this.client
+        .from("user_summaries")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+    );
+    return Promise.all(summaries.map(s => this.withVideo(s)));
+  }
+
+  async findUserSummaryById(id: string): Promise<UserSummaryRecord | null> {
+    const summary = await this.run<UserSummaryRecord | null>(
+      "Failed to load summary",
+      this.client.from("user_summaries").select("*").eq("id", id).maybeSingle()
+    );
+    return summary ? this.withVideo(summary) : null;
+  }
+
+  async createUserSummary(summary: Omit<UserSummaryRecord, 'id' | 'created_at' | 'updated_at'>): Promise<UserSummaryRecord> {
+    const now = new Date().toISOString();
+    const created = await this.run<UserSummaryRecord>(
+      "Failed to save summary",
+      this.client
+        .from("user_summaries")
+        .insert({
+          ...pickColumns("user_summaries", summary),
+          id: randomUUID(),
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single()
+    );
+    return this.withVideo(created);
+  }
+
+  async updateUserSummary(id: string, summary: Partial<UserSummaryRecord>): Promise<UserSummaryRecord> {
+    const updated = await this.updateById<UserSummaryRecord>("user_summaries", id, {
+      ...summary,
+      updated_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new AppError(
+        'Summary not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return this.withVideo(updated);
+  }
+
+  async findSummaryByVideoId(videoId: string, userId: string): Promise<UserSummaryRecord | null> {
+    const summaries = await this.run<UserSummaryRecord[]>(
+      "Failed to load summary",
+      this.client
+        .from("user_summaries")
+        .select("*")
+        .eq("video_id", videoId)
+        .eq("user_id", userId)
+        .order("created_at")
+        .limit(1)
+    );
+    return summaries.length > 0 ? this.withVideo(summaries[0]) : null;
+  }
+
+  // Content summary methods
+  async findContentSummary(contentId: string, promptVersion: string): Promise<ContentSummaryRecord | null> {
+    return this.run<ContentSummaryRecord | null>(
+      "Failed to load content summary",
+      this.client
+        .from("content_summaries")
+        .select("*")
+        .eq("content_id", contentId)
+        .eq("prompt_version", promptVersion)
+        .maybeSingle()
+    );
+  }
+
+  async findContentSummaryById(id: string): Promise<ContentSummaryRecord | null> {
+    return this.run<ContentSummaryRecord | null>(
+      "Failed to load content summary",
+      this.client.from("content_summaries").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async upsertContentSummary(
+    summary: Omit<ContentSummaryRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ContentSummaryRecord> {
+    const now = new Date().toISOString();
+    const existing = await this.findContentSummary(summary.content_id, summary.prompt_version);
+
+    if (existing) {
+      return this.updateContentSummary(existing.id, summary);
+    }
+
+    return this.run<ContentSummaryRecord>(
+      "Failed to save content summary",
+      this.client
+        .from("content_summaries")
+        .insert({
+          ...pickColumns("content_summaries", summary),
+          id: randomUUID(),
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single()
+    );
+  }
+
+  async updateContentSummary(id: string, summary: Partial<ContentSummaryRecord>): Promise<ContentSummaryRecord> {
+    const updated = await this.updateById<ContentSummaryRecord>("content_summaries", id, {
+      ...summary,
+      updated_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new AppError(
+        'Content summary not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return updated;
+  }
+
+  // Tag methods
+  async findOrCreateTag(name: string): Promise<TagRecord> {
+    const existingTag = await this.run<TagRecord | null>(
+      "Failed to load tag",
+      this.client.from("tags").select("*").eq("name", name).maybeSingle()
+    );
+    if (existingTag) return existingTag;
+
+    return this.run<TagRecord>(
+      "Failed to save tag",
+      this.client
+        .from("tags")
+        .insert({ id: randomUUID(), name })
+        .select()
+        .single()
+    );
+  }
+
+  async addContentTag(contentTag: ContentTagRecord): Promise<void> {
+    await this.run<null>(
+      "Failed to save content tag",
+      this.client.from("content_tags").insert(pickColumns("content_tags", contentTag))
+    );
+  }
+
+  async getContentTags(contentId: string): Promise<TagRecord[]> {
+    const rows = await this.run<{ tags: TagRecord | null }[]>(
+      "Failed to load content tags",
+      this.client.from("content_tags").select("tags(*)").eq("content_id", contentId)
+    );
+    return rows.map(row => row.tags).filter((tag): tag is TagRecord => !!tag);
+  }
+
+  // Subscription methods
+  async getSubscriptions(userId: string): Promise<SubscriptionRecord[]> {
+    return this.run<SubscriptionRecord[]>(
+      "Failed to load subscriptions",
+      this.client.from("subscriptions").select("*").eq("user_id", userId).order("created_at")
+    );
+  }
+
+  async findSubscriptionById(id: string): Promise<SubscriptionRecord | null> {
+    return this.run<SubscriptionRecord | null>(
+      "Failed to load subscription",
+      this.client.from("subscriptions").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async addSubscription(subscription: Omit<SubscriptionRecord, 'id' | 'created_at'>): Promise<SubscriptionRecord> {
+    return this.run<SubscriptionRecord>(
+      "Failed to save subscription",
+      this.client
+        .from("subscriptions")
+        .insert({
+          ...pickColumns("subscriptions", subscription),
+          id: randomUUID(),
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single()
+    );
+  }
+
+  async removeSubscription(userId: string, subscriptionId: string): Promise<void> {
+    await this.run<null>(
+      "Failed to remove subscription",
+      this.client.from("subscriptions").delete().eq("id", subscriptionId).eq("user_id", userId)
+    );
+  }
+
+  // Content question methods
+  async getContentQuestions(userId: string, contentId: string): Promise<ContentQuestionRecord[]> {
+    return this.run<ContentQuestionRecord[]>(
+      "Failed to load questions",
+      this.client
+        .from("content_questions")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("content_id", contentId)
+        .order("created_at")
+    );
+  }
+
+  async findContentQuestionById(id: string): Promise<ContentQuestionRecord | null> {
+    return this.run<ContentQuestionRecord | null>(
+      "Failed to load question",
+      this.client.from("content_questions").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async createContentQuestion(question: Omit<ContentQuestionRecord, 'id' | 'created_at'>): Promise<ContentQuestionRecord> {
+    return this.run<ContentQuestionRecord>(
+      "Failed to save question",
+      this.client
+        .from("content_questions")
+        .insert({
+          ...pickColumns("content_questions", question),
+          id: randomUUID(),
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single()
+    );
+  }
+
+  async deleteContentQuestion(userId: string, questionId: string): Promise<void> {
+    const deleted = await this.run<ContentQuestionRecord[]>(
+      "Failed to delete question",
+      this.client.from("content_questions").delete().eq("id", questionId).eq("user_id", userId).select()
+    );
+    if (deleted.length === 0) {
+      throw new AppError(
+        'Question not found',
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+  }
+
+  async deleteContentQuestions(userId: string, contentId: string): Promise<void> {
+    await this.run<null>(
+      "Failed to delete questions",
+      this.client.from("content_questions").delete().eq("user_id", userId).eq("content_id", contentId)
+    );
+  }
+
+  // Playlist methods
+  async getUserPlaylists(userId: string): Promise<PlaylistRecord[]> {
+    return this.run<PlaylistRecord[]>(
+      "Failed to load playlists",
+      this.client
+        .from("playlists")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+    );
+  }
+
+  async findPlaylistById(id: string): Promise<PlaylistRecord | null> {
+    return this.run<PlaylistRecord | null>(
+      "Failed to load playlist",
+      this.client.from("playlists").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async createPlaylist(playlist: Omit<PlaylistRecord, 'id' | 'created_at' | 'updated_at'>): Promise<PlaylistRecord> {
+    const now = new Date().toISOString();
+    return this.run<PlaylistRecord>(
+      "Failed to save playlist",
+      this.client
+        .from("playlists")
+        .insert({
+          ...pickColumns("playlists", playlist),
+          id: randomUUID(),
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single()
+    );
+  }
+
+  async updatePlaylist(id: string, playlist: Partial<PlaylistRecord>): Promise<PlaylistRecord> {
+    const updated = await this.updateById<PlaylistRecord>("playlists", id, {
+      ...playlist,
+      updated_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new AppError(
+        'Playlist not found',
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return updated;
+  }
+
+  async getPlaylistItems(playlistId: string): Promise<PlaylistItemRecord[]> {
+    const items = await this.run<PlaylistItemRecord[]>(
+      "Failed to load playlist items",
+      this.client.from("playlist_items").select("*").eq("playlist_id", playlistId).order("position")
+    );
+
+    return Promise.all(items.map(async i => ({
+      ...i,
+      summary: i.summary_id ? await this.findUserSummaryById(i.summary_id) : null
+    })));
+  }
+
+  async findPlaylistItemById(id: string): Promise<PlaylistItemRecord | null> {
+    return this.run<PlaylistItemRecord | null>(
+      "Failed to load playlist item",
+      this.client.from("playlist_items").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async createPlaylistItems(items: Omit<PlaylistItemRecord, 'id' | 'updated_at'>[]): Promise<PlaylistItemRecord[]> {
+    if (items.length === 0) return [];
+
+    const now = new Date().toISOString();
+    return this.run<PlaylistItemRecord[]>(
+      "Failed to save playlist items",
+      this.client
+        .from("playlist_items")
+        .insert(items.map(item => ({
+          ...pickColumns("playlist_items", item),
+          id: randomUUID(),
+          updated_at: now
+        })))
+        .select()
+        .order("position")
+    );
+  }
+
+  async updatePlaylistItem(id: string, item: Partial<PlaylistItemRecord>): Promise<PlaylistItemRecord> {
+    const updated = await this.updateById<PlaylistItemRecord>("playlist_items", id, {
+      ...item,
+      updated_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new AppError(
+        'Playlist item not found',
+        ErrorCode.PLAYLIST_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return updated;
+  }
+
+  // Job methods
+  async getUserJobs(userId: string): Promise<JobRecord[]> {
+    return this.run<JobRecord[]>(
+      "Failed to load jobs",
+      this.client.from("jobs").select("*").eq("user_id", userId).order("created_at", { ascending: false })
+    );
+  }
+
+  async findJobById(id: string): Promise<JobRecord | null> {
+    return this.run<JobRecord | null>(
+      "Failed to load job",
+      this.client.from("jobs").select("*").eq("id", id).maybeSingle()
+    );
+  }
+
+  async createJob(job: Omit<JobRecord, 'id' | 'created_at' | 'updated_at'>): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    return this.run<JobRecord>(
+      "Failed to save job",
+      this.client
+        .from("jobs")
+        .insert({
+          ...pickColumns("jobs", job),
+          id: randomUUID(),
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single()
+    );
+  }
+
+  async updateJob(id: string, job: Partial<JobRecord>): Promise<JobRecord> {
+    const updated = await this.updateById<JobRecord>("jobs", id, {
+      ...job,
+      updated_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new AppError(
+        'Job not found',
+        ErrorCode.JOB_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return updated;
+  }
+
+  private async withChannel(video: VideoRecord): Promise<VideoRecord> {
+    return { ...video, channel: (await this.findChannelById(video.channel_id)) || undefined };
+  }
+
+  private async withVideo(summary: UserSummaryRecord): Promise<UserSummaryRecord> {
+    return { ...summary, videos: await this.findVideoById(summary.video_id) };
+  }
+
+  /**
+   * Update the given columns of a record
+   * @returns The updated record, or null when it does not exist
+   */
+  private async updateById<T>(
+    table: "videos" | "user_summaries" | "content_summaries" | "playlists" | "playlist_items" | "jobs",
+    id: string,
+    changes: object
+  ): Promise<T | null> {
+    const row = pickColumns(table, changes);
+    delete row.id;
+    return this.run<T | null>(
+      `Failed to update ${table}`,
+      this.client.from(table).update(row).eq("id", id).select().maybeSingle()
+    );
+  }
+
+  /**
+   * Await a query, turning a Postgres error into an AppError
+   */
+  private async run<T>(message: string, query: PromiseLike<QueryResult<unknown>>): Promise<T> {
+    const { data, error } = await query;
+    if (error) {
+      throw new AppError(
+        message,
+        ErrorCode.DATABASE_QUERY_FAILED,
+        HttpStatus.SERVICE_UNAVAILABLE,
+        { details: error.message, code: error.code }
+      );
+    }
+    return data as T;
+  }
+}
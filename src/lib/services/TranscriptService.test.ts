@@ -0,0 +1,114 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { TranscriptProvider, TranscriptProviderName, TranscriptResult } from "@/lib/types/transcript";
+import { ConcurrencyLimiter } from "@/lib/utils/concurrency";
+import {
+  getTranscriptProviderOrder,
+  MockTranscriptProvider,
+  RapidApiTranscriptProvider,
+  TranscriptService,
+} from "./TranscriptService";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+
+/**
+ * A provider that fails with `status`, or returns one segment when it is null
+ */
+function provider(name: TranscriptProviderName, status: number | null): TranscriptProvider {
+  return {
+    name,
+    fetchTranscript: vi.fn(async (): Promise<TranscriptResult> => {
+      if (status !== null) {
+        throw new AppError(`Failed with ${status}`, ErrorCode.API_SERVICE_UNAVAILABLE, status);
+      }
+      return { provider: name, segments: [{ start: 0, end: 1, text: name }] };
+    }),
+  };
+}
+
+const createService = (providers: TranscriptProvider[]) =>
+  new TranscriptService(providers, new ConcurrencyLimiter("test", 1, 10));
+
+describe("TranscriptService", () => {
+  // Every fallback is logged
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("falls through to the next provider when a transcript is missing or rate limited", async () => {
+    const missing = provider(TranscriptProviderName.RAPID_API, HttpStatus.NOT_FOUND);
+    const limited = provider(TranscriptProviderName.YOUTUBE_TRANSCRIPT, HttpStatus.TOO_MANY_REQUESTS);
+    const whisper = provider(TranscriptProviderName.WHISPER, null);
+
+    const result = await createService([missing, limited, whisper]).fetchTranscript(VIDEO_ID);
+
+    expect(result.provider).toBe(TranscriptProviderName.WHISPER);
+    expect(missing.fetchTranscript).toHaveBeenCalledWith(VIDEO_ID);
+    expect(limited.fetchTranscript).toHaveBeenCalledWith(VIDEO_ID);
+  });
+
+  it("stops at the first provider that has the transcript", async () => {
+    const first = provider(TranscriptProviderName.RAPID_API, null);
+    const second = provider(TranscriptProviderName.WHISPER, null);
+
+    const result = await createService([first, second]).fetchTranscript(VIDEO_ID);
+
+    expect(result.provider).toBe(TranscriptProviderName.RAPID_API);
+    expect(second.fetchTranscript).not.toHaveBeenCalled();
+  });
+
+  it("does not fall through on other errors", async () => {
+    const failing = provider(TranscriptProviderName.RAPID_API, HttpStatus.INTERNAL_ERROR);
+    const next = provider(TranscriptProviderName.WHISPER, null);
+
+    await expect(createService([failing, next]).fetchTranscript(VIDEO_ID)).rejects.toMatchObject({
+      statusCode: HttpStatus.INTERNAL_ERROR,
+    });
+    expect(next.fetchTranscript).not.toHaveBeenCalled();
+  });
+
+  it("throws the last provider's error when none has the transcript", async () => {
+    const service = createService([
+      provider(TranscriptProviderName.RAPID_API, HttpStatus.TOO_MANY_REQUESTS),
+      provider(TranscriptProviderName.YOUTUBE_TRANSCRIPT, HttpStatus.NOT_FOUND),
+    ]);
+
+    await expect(service.fetchTranscript(VIDEO_ID)).rejects.toMatchObject({
+      statusCode: HttpStatus.NOT_FOUND,
+    });
+  });
+
+  it.each([
+    [HttpStatus.NOT_FOUND, ErrorCode.VIDEO_NOT_FOUND],
+    [HttpStatus.TOO_MANY_REQUESTS, ErrorCode.API_RATE_LIMIT],
+  ])("moves on from a RapidAPI %i response", async (status, code) => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({}, { status })));
+    const rapidApi = new RapidApiTranscriptProvider("key");
+
+    await expect(rapidApi.fetchTranscript(VIDEO_ID)).rejects.toMatchObject({ code, statusCode: status });
+
+    const result = await createService([rapidApi, new MockTranscriptProvider()]).fetchTranscript(VIDEO_ID);
+    expect(result.provider).toBe(TranscriptProviderName.MOCK);
+  });
+});
+
+describe("getTranscriptProviderOrder", () => {
+  it("reads a comma-separated provider list", () => {
+    expect(getTranscriptProviderOrder(" whisper, mock ,")).toEqual([
+      TranscriptProviderName.WHISPER,
+      TranscriptProviderName.MOCK,
+    ]);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => getTranscriptProviderOrder("rapidapi,captions")).toThrow(/captions/);
+  });
+});
@@ -0,0 +1,389 @@
+import ytdl from "ytdl-core";
+import {
+  YoutubeTranscript,
+  YoutubeTranscriptDisabledError,
+  YoutubeTranscriptNotAvailableError,
+  YoutubeTranscriptNotAvailableLanguageError,
+  YoutubeTranscriptTooManyRequestError,
+  YoutubeTranscriptVideoUnavailableError,
+} from "youtube-transcript";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import {
+  DEFAULT_TRANSCRIPT_PROVIDERS,
+  TranscriptProvider,
+  TranscriptProviderName,
+  TranscriptResult,
+} from "@/lib/types/transcript";
+import { WHISPER_MAX_FILE_SIZE } from "@/lib/utils/audio";
+import { ConcurrencyLimiter, getTranscriptLimiter } from "@/lib/utils/concurrency";
+import { logger } from "@/lib/utils/logger";
+import { sortSegments } from "@/lib/utils/transcript";
+import type { OpenAIService } from "./openai";
+
+// Length of each segment of a mock transcript
+const MOCK_SEGMENT_SECONDS = 5;
+
+interface RapidApiSegment {
+  text: string;
+  offset: string;
+  duration: number;
+  lang?: string;
+}
+
+/**
+ * Fetches transcripts from the youtube-transcript3 RapidAPI endpoint
+ */
+export class RapidApiTranscriptProvider implements TranscriptProvider {
+  readonly name = TranscriptProviderName.RAPID_API;
+
+  constructor(private apiKey: string) {}
+
+  async fetchTranscript(videoId: string): Promise<TranscriptResult> {
+    const response = await fetch(
+      `https://youtube-transcript3.p.rapidapi.com/api/transcript?videoId=${videoId}`,
+      {
+        headers: {
+          "x-rapidapi-host": "youtube-transcript3.p.rapidapi.com",
+          "x-rapidapi-key": this.apiKey,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+
+      if (response.status === 404) {
+        throw new AppError(
+          "No transcript available for this video",
+          ErrorCode.VIDEO_NOT_FOUND,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      if (response.status === 429) {
+        throw new AppError(
+          "Rate limit exceeded for transcript service",
+          ErrorCode.API_RATE_LIMIT,
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+
+      throw new AppError(
+        errorData.message || "Failed to fetch transcript",
+        ErrorCode.API_SERVICE_UNAVAILABLE,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+
+    // Check for the specific RapidAPI response format
+    if (!data || !data.transcript || !Array.isArray(data.transcript)) {
+      throw new AppError(
+        "Invalid transcript format received",
+        ErrorCode.API_INVALID_RESPONSE,
+        HttpStatus.INTERNAL_ERROR
+      );
+    }
+
+    const segments = data.transcript as RapidApiSegment[];
+    if (segments.length === 0) {
+      throw new AppError(
+        "No transcript content available",
+        ErrorCode.VIDEO_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    return {
+      provider: this.name,
+      segments: sortSegments(
+        segments.map(segment => {
+          const start = parseFloat(segment.offset);
+          return {
+            start,
+            end: start + segment.duration,
+            text: segment.text,
+            lang: segment.lang,
+          };
+        })
+      ),
+    };
+  }
+}
+
+/**
+ * Scrapes the captions YouTube serves on the watch page via the youtube-transcript package
+ */
+export class YoutubeTranscriptProvider implements TranscriptProvider {
+  readonly name = TranscriptProviderName.YOUTUBE_TRANSCRIPT;
+
+  async fetchTranscript(videoId: string): Promise<TranscriptResult> {
+    try {
+      const segments = await YoutubeTranscript.fetchTranscript(videoId);
+      if (segments.length === 0) {
+        throw new AppError(
+          "No transcript content available",
+          ErrorCode.VIDEO_NOT_FOUND,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      return {
+        provider: this.name,
+        segments: sortSegments(
+          segments.map(segment => ({
+            start: segment.offset,
+            end: segment.offset + segment.duration,
+            text: segment.text,
+            lang: segment.lang,
+          }))
+        ),
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      if (error instanceof YoutubeTranscriptTooManyRequestError) {
+        throw new AppError(
+          "Rate limit exceeded for transcript service",
+          ErrorCode.API_RATE_LIMIT,
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+
+      if (
+        error instanceof YoutubeTranscriptVideoUnavailableError ||
+        error instanceof YoutubeTranscriptDisabledError ||
+        error instanceof YoutubeTranscriptNotAvailableError ||
+        error instanceof YoutubeTranscriptNotAvailableLanguageError
+      ) {
+        throw new AppError(
+          "No transcript available for this video",
+          ErrorCode.VIDEO_NOT_FOUND,
+          HttpStatus.NOT_FOUND,
+          { details: error.message }
+        );
+      }
+
+      throw new AppError(
+        "Failed to fetch transcript",
+        ErrorCode.API_SERVICE_UNAVAILABLE,
+        HttpStatus.SERVICE_UNAVAILABLE,
+        { details: error }
+      );
+    }
+  }
+}
+
+/**
+ * Downloads the audio track and transcribes it with Whisper
+ */
+export class WhisperTranscriptProvider implements TranscriptProvider {
+  readonly name = TranscriptProviderName.WHISPER;
+
+  constructor(private openAIService: OpenAIService) {}
+
+  async fetchTranscript(videoId: string): Promise<TranscriptResult> {
+    const audio = await this.downloadAudio(videoId);
+    const segments = await this.openAIService.transcribeAudioSegments(
+      new File([audio], `${videoId}.webm`, { type: "audio/webm" })
+    );
+
+    if (segments.length === 0) {
+      throw new AppError(
+        "No transcript content available",
+        ErrorCode.VIDEO_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    return { provider: this.name, segments };
+  }
+
+  /**
+   * Download the smallest audio-only format of the video
+   */
+  private async downloadAudio(videoId: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    try {
+      const stream = ytdl(`https://www.youtube.com/watch?v=${videoId}`, {
+        filter: "audioonly",
+        quality: "lowestaudio",
+      });
+
+      for await (const chunk of stream) {
+        size += chunk.length;
+        if (size > WHISPER_MAX_FILE_SIZE) {
+          stream.destroy();
+          throw new AppError(
+            "Audio is too large to transcribe",
+            ErrorCode.VIDEO_PROCESSING_FAILED,
+            HttpStatus.BAD_REQUEST,
+            { maxBytes: WHISPER_MAX_FILE_SIZE }
+          );
+        }
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        "Failed to download video audio",
+        ErrorCode.VIDEO_NOT_FOUND,
+        HttpStatus.NOT_FOUND,
+        { details: error }
+      );
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
+
+/**
+ * Returns a fixed transcript for every video without network access, so the
+ * processing pipeline can run and be tested offline
+ */
+export class MockTranscriptProvider implements TranscriptProvider {
+  readonly name = TranscriptProviderName.MOCK;
+
+  async fetchTranscript(videoId: string): Promise<TranscriptResult> {
+    const lines = [
+      `This is the mock transcript of video ${videoId}.`,
+      "It is generated locally so that no transcript service is called.",
+      "Every request for the same video returns the same text.",
+    ];
+
+    return {
+      provider: this.name,
+      segments: lines.map((text, index) => ({
+        start: index * MOCK_SEGMENT_SECONDS,
+        end: (index + 1) * MOCK_SEGMENT_SECONDS,
+        text,
+        lang: "en",
+      })),
+    };
+  }
+}
+
+/**
+ * Tries a list of transcript providers in order, falling through to the next
+ * provider when one reports that the transcript is missing or rate limited.
+ * Fetches share one concurrency limit across the server process.
+ */
+export class TranscriptService {
+  private logger = logger.withContext({ service: "TranscriptService" });
+
+  constructor(
+    private providers: TranscriptProvider[],
+    private limiter: ConcurrencyLimiter = getTranscriptLimiter()
+  ) {
+    if (providers.length === 0) {
+      throw new AppError(
+        "At least one transcript provider is required",
+        ErrorCode.VALIDATION_REQUIRED_FIELD,
+        HttpStatus.INTERNAL_ERROR
+      );
+    }
+  }
+
+  /**
+   * Fetch a transcript from the first provider that has one
+   * @param videoId - The YouTube video ID
+   * @returns The transcript and the name of the provider that produced it
+   */
+  async fetchTranscript(videoId: string): Promise<TranscriptResult> {
+    return this.limiter.run(() => this.fetchFromProviders(videoId));
+  }
+
+  /**
+   * Try each provider in turn
+   */
+  private async fetchFromProviders(videoId: string): Promise<TranscriptResult> {
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.fetchTranscript(videoId);
+        this.logger.info("Fetched transcript", { videoId, provider: provider.name });
+        return result;
+      } catch (error) {
+        if (!isFallbackError(error)) throw error;
+
+        lastError = error;
+        this.logger.warn(
+          "Transcript provider failed, trying next provider",
+          { videoId, provider: provider.name },
+          error as Error
+        );
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Errors that should make the chain move on to the next provider
+ */
+function isFallbackError(error: unknown): boolean {
+  return (
+    error instanceof AppError &&
+    (error.statusCode === HttpStatus.NOT_FOUND ||
+      error.statusCode === HttpStatus.TOO_MANY_REQUESTS)
+  );
+}
+
+/**
+ * Parse the provider order from TRANSCRIPT_PROVIDERS (comma-separated)
+ */
+export function getTranscriptProviderOrder(
+  value: string | undefined = process.env.TRANSCRIPT_PROVIDERS
+): TranscriptProviderName[] {
+  if (!value) return DEFAULT_TRANSCRIPT_PROVIDERS;
+
+  const known = Object.values(TranscriptProviderName) as string[];
+  const names = value.split(",").map(name => name.trim()).filter(name => name.length > 0);
+  const unknown = names.filter(name => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new AppError(
+      `Unknown transcript provider: ${unknown.join(", ")}`,
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      HttpStatus.INTERNAL_ERROR,
+      { known }
+    );
+  }
+
+  return names as TranscriptProviderName[];
+}
+
+/**
+ * Build the configured transcript provider chain
+ * @param openAIService - Service used by the Whisper provider
+ */
+export function createTranscriptService(openAIService: OpenAIService): TranscriptService {
+  const providers: TranscriptProvider[] = [];
+
+  for (const name of getTranscriptProviderOrder()) {
+    switch (name) {
+      case TranscriptProviderName.RAPID_API:
+        if (!process.env.RAPIDAPI_KEY) {
+          logger.warn("RAPIDAPI_KEY is not set, skipping RapidAPI transcript provider");
+          break;
+        }
+        providers.push(new RapidApiTranscriptProvider(process.env.RAPIDAPI_KEY));
+        break;
+      case TranscriptProviderName.YOUTUBE_TRANSCRIPT:
+        providers.push(new YoutubeTranscriptProvider());
+        break;
+      case TranscriptProviderName.WHISPER:
+        providers.push(new WhisperTranscriptProvider(openAIService));
+        break;
+      case TranscriptProviderName.MOCK:
+        providers.push(new MockTranscriptProvider());
+        break;
+    }
+  }
+
+  return new TranscriptService(providers);
+}
@@ -0,0 +1,172 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { TranscriptStorageName } from "@/lib/types/storage";
+import {
+  createTranscriptStorage,
+  FileSystemTranscriptStorage,
+  SupabaseTranscriptStorage,
+} from "./TranscriptStorageService";
+
+const TRANSCRIPT = JSON.stringify({ video_id: "dQw4w9WgXcQ", segments: [] });
+
+/**
+ * Read a transcript stream into a string
+ */
+async function readAll(stream: Readable | null): Promise<string | null> {
+  if (!stream) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+describe("FileSystemTranscriptStorage", () => {
+  let dir: string;
+  let root: string;
+  let storage: FileSystemTranscriptStorage;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "transcripts-"));
+    root = path.join(dir, "storage");
+    storage = new FileSystemTranscriptStorage(root);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes, reads and deletes transcripts under the root", async () => {
+    await storage.write("transcripts/abc.json", TRANSCRIPT);
+
+    expect(await storage.exists("transcripts/abc.json")).toBe(true);
+    expect(await readAll(await storage.read("transcripts/abc.json"))).toBe(TRANSCRIPT);
+    expect(await readFile(path.join(root, "transcripts", "abc.json"), "utf8")).toBe(TRANSCRIPT);
+
+    await storage.delete("transcripts/abc.json");
+    expect(await storage.exists("transcripts/abc.json")).toBe(false);
+    expect(await storage.read("transcripts/abc.json")).toBeNull();
+  });
+
+  it("replaces a transcript without leaving temporary files", async () => {
+    await storage.write("transcripts/abc.json", "old");
+    await storage.write("transcripts/abc.json", TRANSCRIPT);
+
+    expect(await readAll(await storage.read("transcripts/abc.json"))).toBe(TRANSCRIPT);
+    expect(await readdir(path.join(root, "transcripts"))).toEqual(["abc.json"]);
+  });
+
+  it("treats missing files and directories as missing", async () => {
+    await storage.write("transcripts/abc.json", TRANSCRIPT);
+
+    expect(await storage.exists("transcripts/missing.json")).toBe(false);
+    expect(await storage.exists("transcripts")).toBe(false);
+    await expect(storage.delete("transcripts/missing.json")).resolves.toBeUndefined();
+  });
+
+  it.each([
+    "../outside.json",
+    "transcripts/../../outside.json",
+    "../storage-evil/outside.json",
+  ])("refuses paths outside the root: %s", async filePath => {
+    const outside = path.resolve(root, filePath);
+    await writeFile(outside, "secret").catch(() => undefined);
+
+    await expect(storage.write(filePath, TRANSCRIPT)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_INVALID_FORMAT,
+      statusCode: HttpStatus.BAD_REQUEST,
+    });
+    await expect(storage.delete(filePath)).rejects.toMatchObject({ code: ErrorCode.VALIDATION_INVALID_FORMAT });
+    expect(await storage.exists(filePath)).toBe(false);
+    expect(await storage.read(filePath)).toBeNull();
+  });
+
+  it("refuses absolute paths and the root itself", async () => {
+    await expect(storage.write(path.join(dir, "outside.json"), TRANSCRIPT)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_INVALID_FORMAT,
+    });
+    await expect(storage.write(".", TRANSCRIPT)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_INVALID_FORMAT,
+    });
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
+
+describe("SupabaseTranscriptStorage", () => {
+  const SUPABASE_URL = "https://project.supabase.co";
+  const KEY = "service-role-key";
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("streams an object from the Storage API", async () => {
+    const fetch = vi.fn(async () => new Response(TRANSCRIPT));
+    vi.stubGlobal("fetch", fetch);
+    const storage = new SupabaseTranscriptStorage(SUPABASE_URL, KEY, "transcripts");
+
+    expect(await readAll(await storage.read("transcripts/a b.json"))).toBe(TRANSCRIPT);
+    expect(fetch).toHaveBeenCalledWith(`${SUPABASE_URL}/storage/v1/object/transcripts/transcripts/a%20b.json`, {
+      headers: { Authorization: `Bearer ${KEY}`, apikey: KEY },
+    });
+  });
+
+  it.each([HttpStatus.NOT_FOUND, HttpStatus.BAD_REQUEST])("treats a %i response as missing", async status => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ error: "not_found" }, { status })));
+    const storage = new SupabaseTranscriptStorage(SUPABASE_URL, KEY, "transcripts");
+
+    expect(await storage.read("transcripts/missing.json")).toBeNull();
+  });
+
+  it("fails on other errors", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    const storage = new SupabaseTranscriptStorage(SUPABASE_URL, KEY, "transcripts");
+
+    await expect(storage.read("transcripts/abc.json")).rejects.toMatchObject({
+      code: ErrorCode.STORAGE_DOWNLOAD_FAILED,
+      statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+    });
+  });
+
+  it("fails when an upload is rejected", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      Response.json({ statusCode: "403", error: "Unauthorized", message: "new row violates row-level security policy" }, { status: 403 })
+    ));
+    const storage = new SupabaseTranscriptStorage(SUPABASE_URL, KEY, "transcripts");
+
+    await expect(storage.write("transcripts/abc.json", TRANSCRIPT)).rejects.toMatchObject({
+      code: ErrorCode.STORAGE_UPLOAD_FAILED,
+    });
+  });
+});
+
+describe("createTranscriptStorage", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("creates the configured backend", () => {
+    vi.stubEnv("TRANSCRIPT_STORAGE", TranscriptStorageName.FILESYSTEM);
+    expect(createTranscriptStorage().name).toBe(TranscriptStorageName.FILESYSTEM);
+  });
+
+  it("requires Supabase credentials for Supabase storage", () => {
+    vi.stubEnv("TRANSCRIPT_STORAGE", TranscriptStorageName.SUPABASE);
+    vi.stubEnv("SUPABASE_URL", "");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "");
+    vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "");
+
+    expect(() => createTranscriptStorage()).toThrow(
+      expect.objectContaining({ code: ErrorCode.VALIDATION_REQUIRED_FIELD })
+    );
+  });
+
+  it("rejects unknown backends", () => {
+    vi.stubEnv("TRANSCRIPT_STORAGE", "s3");
+    expect(() => createTranscriptStorage()).toThrow(/Unknown transcript storage: s3/);
+  });
+});
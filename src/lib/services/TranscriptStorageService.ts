@@ -0,0 +1,199 @@
+import { createReadStream } from "fs";
+import { mkdir, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { ReadableStream as NodeReadableStream } from "stream/web";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { TranscriptStorageBackend, TranscriptStorageName } from "@/lib/types/storage";
+
+/**
+ * Keeps transcripts in memory; they are lost when the server restarts
+ */
+export class MemoryTranscriptStorage implements TranscriptStorageBackend {
+  readonly name = TranscriptStorageName.MEMORY;
+  private files = new Map<string, string>();
+
+  async write(filePath: string, data: string): Promise<void> {
+    this.files.set(filePath, data);
+  }
+
+  async read(filePath: string): Promise<Readable | null> {
+    const data = this.files.get(filePath);
+    return data === undefined ? null : Readable.from([Buffer.from(data)]);
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.files.has(filePath);
+  }
+
+  async delete(filePath: string): Promise<void> {
+    this.files.delete(filePath);
+  }
+}
+
+/**
+ * Keeps transcripts as files under a local directory. Writes go to a
+ * temporary file that is renamed over the old one, so a crash never leaves
+ * a half-written transcript.
+ */
+export class FileSystemTranscriptStorage implements TranscriptStorageBackend {
+  readonly name = TranscriptStorageName.FILESYSTEM;
+
+  constructor(private root: string) {}
+
+  async write(filePath: string, data: string): Promise<void> {
+    const target = this.resolve(filePath);
+    const temporary = `${target}.${process.pid}.${Math.random().toString(36).substring(7)}.tmp`;
+
+    try {
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(temporary, data, "utf8");
+      await rename(temporary, target);
+    } catch (error) {
+      await unlink(temporary).catch(() => undefined);
+      throw new AppError(
+        "Failed to store transcript",
+        ErrorCode.STORAGE_UPLOAD_FAILED,
+        HttpStatus.INTERNAL_ERROR,
+        { path: filePath, details: String(error) }
+      );
+    }
+  }
+
+  async read(filePath: string): Promise<Readable | null> {
+    if (!(await this.exists(filePath))) return null;
+    return createReadStream(this.resolve(filePath));
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    try {
+      return (await stat(this.resolve(filePath))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await unlink(this.resolve(filePath)).catch(() => undefined);
+  }
+
+  /**
+   * Resolve a storage path inside the root directory, refusing paths that
+   * would leave it
+   */
+  private resolve(filePath: string): string {
+    const root = path.resolve(this.root);
+    const target = path.resolve(root, filePath);
+    if (!target.startsWith(root + path.sep)) {
+      throw new AppError(
+        "Invalid transcript path",
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.BAD_REQUEST,
+        { path: filePath }
+      );
+    }
+    return target;
+  }
+}
+
+/**
+ * Keeps transcripts in a Supabase Storage bucket. An upload replaces the
+ * object as a whole, and reads stream the object from the Storage API
+ * instead of buffering it like the client's `download`.
+ */
+export class SupabaseTranscriptStorage implements TranscriptStorageBackend {
+  readonly name = TranscriptStorageName.SUPABASE;
+  private client: SupabaseClient;
+
+  constructor(private url: string, private serviceKey: string, private bucket: string) {
+    this.client = createClient(url, serviceKey, { auth: { persistSession: false } });
+  }
+
+  async write(filePath: string, data: string): Promise<void> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .upload(filePath, Buffer.from(data, "utf8"), { contentType: "application/json", upsert: true });
+
+    if (error) {
+      throw new AppError(
+        "Failed to store transcript",
+        ErrorCode.STORAGE_UPLOAD_FAILED,
+        HttpStatus.SERVICE_UNAVAILABLE,
+        { path: filePath, details: error.message }
+      );
+    }
+  }
+
+  async read(filePath: string): Promise<Readable | null> {
+    const objectPath = filePath.split("/").map(encodeURIComponent).join("/");
+    const response = await fetch(`${this.url}/storage/v1/object/${this.bucket}/${objectPath}`, {
+      headers: { Authorization: `Bearer ${this.serviceKey}`, apikey: this.serviceKey },
+    });
+
+    // The Storage API answers 400 as well as 404 for missing objects
+    if (response.status === 404 || response.status === 400) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok || !response.body) {
+      throw new AppError(
+        "Failed to read transcript",
+        ErrorCode.STORAGE_DOWNLOAD_FAILED,
+        HttpStatus.SERVICE_UNAVAILABLE,
+        { path: filePath, status: response.status }
+      );
+    }
+
+    return Readable.fromWeb(response.body as unknown as NodeReadableStream<Uint8Array>);
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    const { data, error } = await this.client.storage.from(this.bucket).exists(filePath);
+    return !error && data;
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await this.client.storage.from(this.bucket).remove([filePath]);
+  }
+}
+
+/**
+ * Create the transcript storage selected by `TRANSCRIPT_STORAGE`
+ * (filesystem by default)
+ */
+export function createTranscriptStorage(): TranscriptStorageBackend {
+  const name = process.env.TRANSCRIPT_STORAGE || TranscriptStorageName.FILESYSTEM;
+
+  switch (name) {
+    case TranscriptStorageName.MEMORY:
+      return new MemoryTranscriptStorage();
+    case TranscriptStorageName.FILESYSTEM:
+      return new FileSystemTranscriptStorage(
+        process.env.TRANSCRIPT_STORAGE_DIR || path.join(process.cwd(), "storage")
+      );
+    case TranscriptStorageName.SUPABASE: {
+      const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !serviceKey) {
+        throw new AppError(
+          "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for Supabase transcript storage",
+          ErrorCode.VALIDATION_REQUIRED_FIELD,
+          HttpStatus.INTERNAL_ERROR
+        );
+      }
+      return new SupabaseTranscriptStorage(
+        url.replace(/\/+$/, ""),
+        serviceKey,
+        process.env.TRANSCRIPT_STORAGE_BUCKET || "transcripts"
+      );
+    }
+    default:
+      throw new AppError(
+        `Unknown transcript storage: ${name}`,
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.INTERNAL_ERROR,
+        { known: Object.values(TranscriptStorageName) }
+      );
+  }
+}
@@ -0,0 +1,271 @@
+import { createHash } from "crypto";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { UserSummaryRecord, VideoRecord } from "@/lib/types/database";
+import { LoadingType } from "@/lib/types/loading";
+import { StoredTranscript, TranscriptSegment } from "@/lib/types/storage";
+import { SUBTITLE_FILE_PROVIDER, TranscriptProviderName } from "@/lib/types/transcript";
+import {
+  MAX_SUBTITLE_BYTES,
+  MAX_UPLOAD_BYTES,
+  SUBTITLE_EXTENSIONS,
+  UPLOAD_EXTENSIONS,
+  UploadProcessingOptions,
+} from "@/lib/types/upload";
+import { getAudioExtension, getAudioMimeType, splitAudio } from "@/lib/utils/audio";
+import { getTranscript, getTranscriptPath, storeTranscript } from "@/lib/utils/storage";
+import { parseSubtitles } from "@/lib/utils/subtitles";
+import { DatabaseService } from "./DatabaseService";
+import { OpenAIService } from "./openai";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+// Channel every uploaded file is listed under
+const UPLOADS_CHANNEL = {
+  id: "uploads",
+  name: "Uploaded Files",
+  url: "",
+  subscriber_count: 0,
+};
+
+/**
+ * Service class for transcribing and summarizing uploaded audio, video and subtitle files
+ */
+export class UploadService extends DatabaseService {
+  private openAIService: OpenAIService;
+  private videoProcessing: VideoProcessingService;
+
+  constructor() {
+    super("UploadService");
+    this.openAIService = new OpenAIService();
+    this.videoProcessing = new VideoProcessingService();
+  }
+
+  /**
+   * Transcribe and summarize an uploaded file
+   *
+   * The upload is stored like a video, with `content_type` "upload" and an ID
+   * derived from the file contents, so the same file uploaded again reuses
+   * its transcript and shared summary.
+   * @param file - An mp3, m4a, wav or mp4 file of up to 200 MB, split into
+   * parts when it is over the Whisper size limit
+   * @param userId - The user the summary belongs to
+   * @param options - Pass `onProgress` to follow the transcription
+   */
+  async processUpload(
+    file: File,
+    userId: string,
+    options: UploadProcessingOptions = {}
+  ): Promise<UserSummaryRecord> {
+    this.logger.info("Processing upload", { name: file.name, size: file.size, userId });
+
+    try {
+      const mimeType = getAudioMimeType(file.name, file.type);
+      if (!mimeType || !UPLOAD_EXTENSIONS.includes(getAudioExtension(mimeType))) {
+        throw new AppError(
+          "Unsupported file type; upload an mp3, m4a, wav or mp4 file",
+          ErrorCode.VALIDATION_INVALID_TYPE,
+          HttpStatus.BAD_REQUEST,
+          { name: file.name, type: file.type }
+        );
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        throw new AppError(
+          `Files can be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+          ErrorCode.VALIDATION_INVALID_FORMAT,
+          HttpStatus.BAD_REQUEST,
+          { maxBytes: MAX_UPLOAD_BYTES }
+        );
+      }
+
+      const data = Buffer.from(await file.arrayBuffer());
+      const contentId = `upload_${createHash("sha1").update(data).digest("hex").slice(0, 16)}`;
+
+      let transcript = options.refresh ? null : await getTranscript(contentId);
+      if (!transcript || !(await this.findVideoById(contentId))) {
+        transcript = await this.ingestUpload(contentId, file, data, mimeType, options);
+      }
+
+      const userSummary = await this.videoProcessing.summarizeContent(contentId, userId, transcript, options);
+
+      this.logger.info("Processed upload successfully", { contentId, summaryId: userSummary.id });
+
+      return userSummary;
+    } catch (error) {
+      this.logger.error("Failed to process upload", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import an SRT or WebVTT subtitle file as a transcript and summarize it.
+   * Nothing is fetched over the network besides the LLM calls.
+   * @param file - The subtitle file; its cue timings become the segment timings
+   * @param userId - The user the summary belongs to
+   */
+  async importSubtitles(
+    file: File,
+    userId: string,
+    options: UploadProcessingOptions = {}
+  ): Promise<UserSummaryRecord> {
+    this.logger.info("Importing subtitles", { name: file.name, size: file.size, userId });
+
+    try {
+      const extension = file.name.split(".").pop()?.toLowerCase() || "";
+      if (!SUBTITLE_EXTENSIONS.includes(extension)) {
+        throw new AppError(
+          "Unsupported file type; import an srt or vtt file",
+          ErrorCode.VALIDATION_INVALID_TYPE,
+          HttpStatus.BAD_REQUEST,
+          { name: file.name, type: file.type }
+        );
+      }
+      if (file.size > MAX_SUBTITLE_BYTES) {
+        throw new AppError(
+          "Subtitle file is too large to import",
+          ErrorCode.VALIDATION_INVALID_FORMAT,
+          HttpStatus.BAD_REQUEST,
+          { maxBytes: MAX_SUBTITLE_BYTES }
+        );
+      }
+
+      const content = await file.text();
+      const contentId = `upload_${createHash("sha1").update(content).digest("hex").slice(0, 16)}`;
+
+      let transcript = options.refresh ? null : await getTranscript(contentId);
+      if (!transcript || !(await this.findVideoById(contentId))) {
+        const segments = parseSubtitles(content);
+        if (segments.length === 0) {
+          throw new AppError(
+            "No subtitle cues found in the file",
+            ErrorCode.VALIDATION_INVALID_FORMAT,
+            HttpStatus.BAD_REQUEST,
+            { name: file.name }
+          );
+        }
+        transcript = await this.saveUpload(
+          contentId,
+          file,
+          segments,
+          SUBTITLE_FILE_PROVIDER,
+          { subtitle_format: extension },
+          options
+        );
+      }
+
+      const userSummary = await this.videoProcessing.summarizeContent(contentId, userId, transcript, options);
+
+      this.logger.info("Imported subtitles successfully", { contentId, summaryId: userSummary.id });
+
+      return userSummary;
+    } catch (error) {
+      this.logger.error("Failed to import subtitles", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Transcribe an upload in Whisper-sized chunks, then store its transcript
+   * and create or update its record
+   */
+  private async ingestUpload(
+    contentId: string,
+    file: File,
+    data: Buffer,
+    mimeType: string,
+    options: UploadProcessingOptions
+  ): Promise<StoredTranscript> {
+    const extension = getAudioExtension(mimeType);
+    const chunks = splitAudio(data, mimeType).map((chunk, index) => ({
+      file: new File([chunk.data], `${contentId}-${index}.${extension}`, { type: mimeType }),
+      duration: chunk.duration,
+    }));
+
+    options.onProgress?.({
+      type: LoadingType.AI_TRANSCRIBING,
+      message: chunks.length > 1 ? `Transcribing ${chunks.length} parts` : "Transcribing audio",
+      progress: 0,
+    });
+    const segments = await this.openAIService.transcribeAudioChunks(chunks, (completed, total) => {
+      options.onProgress?.({
+        type: LoadingType.AI_TRANSCRIBING,
+        message: `Transcribed part ${completed} of ${total}`,
+        progress: Math.round((completed / total) * 100),
+      });
+    });
+    if (segments.length === 0) {
+      throw new AppError(
+        "No speech found in the uploaded file",
+        ErrorCode.VIDEO_PROCESSING_FAILED,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    return this.saveUpload(contentId, file, segments, TranscriptProviderName.WHISPER, { mime_type: mimeType }, options);
+  }
+
+  /**
+   * Store the transcript of an upload and create or update its record
+   * @param provider - What produced the transcript
+   * @param metadata - Details of the file kept with the record
+   */
+  private async saveUpload(
+    contentId: string,
+    file: File,
+    segments: TranscriptSegment[],
+    provider: string,
+    metadata: Record<string, string>,
+    options: UploadProcessingOptions
+  ): Promise<StoredTranscript> {
+    const title = options.title?.trim() || file.name.replace(/\.[^.]+$/, "") || "Uploaded File";
+    const transcript: StoredTranscript = {
+      video_id: contentId,
+      language: options.language || segments[0]?.lang || "en",
+      segments,
+      metadata: {
+        title,
+        channel: UPLOADS_CHANNEL.name,
+        duration: segments[segments.length - 1]?.end || 0,
+        last_updated: new Date(),
+      }
+    };
+
+    await storeTranscript(contentId, transcript);
+
+    if (!(await this.findChannelById(UPLOADS_CHANNEL.id))) {
+      await this.upsertChannel(UPLOADS_CHANNEL);
+    }
+
+    const now = new Date().toISOString();
+    const existingUpload = await this.findVideoById(contentId);
+    if (existingUpload) {
+      await this.updateVideo(contentId, {
+        transcript_provider: provider,
+        language: transcript.language,
+        last_updated: now
+      });
+    } else {
+      const video: Omit<VideoRecord, 'created_at'> = {
+        id: contentId,
+        channel_id: UPLOADS_CHANNEL.id,
+        content_type: 'upload',
+        unique_identifier: contentId,
+        title,
+        // Uploads have no page to link to
+        url: '',
+        transcript_path: getTranscriptPath(contentId),
+        transcript_provider: provider,
+        language: transcript.language,
+        metadata: {
+          file_name: file.name,
+          file_size: file.size,
+          ...metadata,
+        },
+        published_at: now,
+        last_updated: now
+      };
+
+      await this.upsertVideo(video);
+    }
+
+    return transcript;
+  }
+}
@@ -0,0 +1,118 @@
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { TranscriptCitation, VideoChatAnswer, VideoChatMessage } from "@/lib/types/chat";
+import { ContentQuestionRecord } from "@/lib/types/database";
+import { getTranscript } from "@/lib/utils/storage";
+import { buildTranscriptChunks, retrieveChunks } from "@/lib/utils/retrieval";
+import { formatTimestamp } from "@/lib/utils/transcript";
+import { DatabaseService } from "./DatabaseService";
+import { OpenAIService } from "./openai";
+
+// Number of transcript chunks given to the model per question
+const RETRIEVED_CHUNKS = 6;
+// Earlier question/answer pairs sent along with the question
+const HISTORY_QUESTIONS = 5;
+
+const CHAT_SYSTEM_PROMPT =
+  "You answer questions about a video using only the transcript excerpts provided. " +
+  "Each excerpt starts with its timestamp in square brackets. Cite the excerpts you used " +
+  "by their timestamp, e.g. [12:34]. If the excerpts do not contain the answer, say so.";
+
+// Articles have no timestamps to cite
+const ARTICLE_CHAT_SYSTEM_PROMPT =
+  "You answer questions about an article using only the excerpts provided. " +
+  "If the excerpts do not contain the answer, say so.";
+
+/**
+ * Service class for answering questions about a video from its transcript
+ */
+export class VideoChatService extends DatabaseService {
+  private openAIService: OpenAIService;
+
+  constructor() {
+    super("VideoChatService");
+    this.openAIService = new OpenAIService();
+  }
+
+  /**
+   * Answer a question about a video, continuing the user's earlier conversation
+   * @param videoId - The YouTube video ID
+   * @param userId - The user asking
+   * @param question - The question text
+   * @returns The saved answer and the transcript passages it was based on
+   */
+  async askQuestion(videoId: string, userId: string, question: string): Promise<VideoChatAnswer> {
+    this.logger.info("Answering question", { videoId, userId });
+
+    const transcript = await getTranscript(videoId);
+    if (!transcript) {
+      throw new AppError(
+        "Transcript not found",
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const citations = retrieveChunks(
+      buildTranscriptChunks(transcript.segments),
+      question,
+      RETRIEVED_CHUNKS
+    );
+    const hasTimeline = transcript.segments.some(segment => segment.end > 0);
+    const context = citations
+      .map(chunk => hasTimeline ? `[${formatTimestamp(chunk.start)}] ${chunk.text}` : chunk.text)
+      .join("\n\n");
+
+    const history = await this.getContentQuestions(userId, videoId);
+    const previousMessages = history
+      .slice(-HISTORY_QUESTIONS)
+      .flatMap((entry): VideoChatMessage[] => [
+        { role: "user", content: entry.question },
+        { role: "assistant", content: entry.response || "" }
+      ]);
+
+    const response = await this.openAIService.generateChatCompletion([
+      {
+        role: "system",
+        content: hasTimeline
+          ? `${CHAT_SYSTEM_PROMPT}\n\nVideo: ${transcript.metadata.title}\n\nTranscript excerpts:\n${context}`
+          : `${ARTICLE_CHAT_SYSTEM_PROMPT}\n\nArticle: ${transcript.metadata.title}\n\nExcerpts:\n${context}`
+      },
+      ...previousMessages,
+      { role: "user", content: question }
+    ]);
+
+    const answer = response.content;
+    const record = await this.createContentQuestion({
+      user_id: userId,
+      content_id: videoId,
+      question,
+      response: answer,
+      citations: citations.map(({ start, end, text }) => ({ start, end, text })),
+    });
+
+    this.logger.info("Answered question", { videoId, questionId: record.id, citations: citations.length });
+
+    return toChatAnswer(record);
+  }
+
+  /**
+   * Get a user's earlier questions about a video, oldest first
+   */
+  async getHistory(videoId: string, userId: string): Promise<VideoChatAnswer[]> {
+    const questions = await this.getContentQuestions(userId, videoId);
+    return questions.map(toChatAnswer);
+  }
+}
+
+/**
+ * Convert a stored question to the shape returned by the API
+ */
+function toChatAnswer(record: ContentQuestionRecord): VideoChatAnswer {
+  return {
+    id: record.id,
+    question: record.question,
+    answer: record.response || "",
+    citations: (record.citations as unknown as TranscriptCitation[] | null) || [],
+    created_at: record.created_at,
+  };
+}
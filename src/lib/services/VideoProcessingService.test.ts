@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TranscriptProviderName } from "@/lib/types/transcript";
+import { getTranscript } from "@/lib/utils/storage";
+import { VideoProcessingService } from "./VideoProcessingService";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+const CHANNEL_ID = "UCuAXFkgsw1L7xaCfnd5JJOw";
+
+const oEmbed = {
+  title: "Offline video",
+  author_name: "Offline Channel",
+  author_url: "https://www.youtube.com/@offline",
+  thumbnail_url: "https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg",
+};
+
+// oEmbed and the author's channel page are the only requests the pipeline
+// makes once transcripts and summaries come from the mock providers
+const oEmbedFetch = vi.fn(async (input: RequestInfo | URL) => {
+  const url = String(input);
+  if (url.startsWith("https://www.youtube.com/oembed?")) {
+    return Response.json(oEmbed);
+  }
+  if (url === oEmbed.author_url) {
+    return new Response(`<link rel="canonical" href="https://www.youtube.com/channel/${CHANNEL_ID}">`);
+  }
+  throw new Error(`Unexpected network request: ${url}`);
+});
+
+describe("VideoProcessingService", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", oEmbedFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    oEmbedFetch.mockClear();
+  });
+
+  it("processes a video without network access", async () => {
+    const service = new VideoProcessingService();
+    const stages: string[] = [];
+
+    const summary = await service.processVideo(`https://youtu.be/${VIDEO_ID}`, "user-a", {
+      onStage: stage => stages.push(stage),
+    });
+
+    expect(summary.user_id).toBe("user-a");
+    expect(summary.video_id).toBe(VIDEO_ID);
+    expect(summary.summary.length).toBeGreaterThan(0);
+    expect(summary.content_summary_id).not.toBeNull();
+    expect(stages).toEqual(["transcript", "summary", "tags", "persist"]);
+
+    const video = await service.findVideoById(VIDEO_ID);
+    expect(video?.title).toBe("Offline video");
+    expect(video?.channel_id).toBe(CHANNEL_ID);
+    expect(video?.transcript_provider).toBe(TranscriptProviderName.MOCK);
+
+    const transcript = await getTranscript(VIDEO_ID);
+    expect(transcript?.segments[0].text).toContain(VIDEO_ID);
+  });
+
+  it("reuses the shared summary for another user", async () => {
+    const service = new VideoProcessingService();
+    const first = await service.processVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}`, "user-a");
+    oEmbedFetch.mockClear();
+
+    const second = await service.processVideo(`https://www.youtube.com/shorts/${VIDEO_ID}`, "user-b");
+
+    expect(second.user_id).toBe("user-b");
+    expect(second.content_summary_id).toBe(first.content_summary_id);
+    expect(second.summary).toBe(first.summary);
+    expect(oEmbedFetch).not.toHaveBeenCalled();
+  });
+
+  it("streams a shared run to every waiting request, even when one of them fails", async () => {
+    const service = new VideoProcessingService();
+    const videoId = "jNQXAC9IVRw";
+    const tokens: string[] = [];
+    const stages: string[] = [];
+
+    // The first request's client has gone away
+    const [first, second] = await Promise.all([
+      service.processVideo(`https://youtu.be/${videoId}`, "user-a", {
+        onToken: () => {
+          throw new Error("Stream closed");
+        },
+      }),
+      service.processVideo(`https://youtu.be/${videoId}`, "user-b", {
+        onToken: token => tokens.push(token),
+        onStage: stage => stages.push(stage),
+      }),
+    ]);
+
+    expect(second.content_summary_id).toBe(first.content_summary_id);
+    expect(tokens.join("")).toBe(second.summary);
+    expect(stages).toEqual(["transcript", "summary", "tags", "persist"]);
+  });
+
+  it("files a video under its author's channel, not the channel named in the link", async () => {
+    const service = new VideoProcessingService();
+    const videoId = "9bZkp7q5VQ0";
+
+    await service.processVideo(`https://www.youtube.com/watch?v=${videoId}&ab_channel=Spoofed`, "user-a");
+
+    const video = await service.findVideoById(videoId);
+    expect(video?.channel_id).toBe(CHANNEL_ID);
+    expect(await service.findChannelById("Spoofed")).toBeNull();
+    expect((await service.findChannelById(CHANNEL_ID))?.name).toBe("Offline Channel");
+  });
+
+  it("files a video under the placeholder channel when its author cannot be resolved", async () => {
+    const service = new VideoProcessingService();
+    const videoId = "kJQP7kiw5Fk";
+    oEmbedFetch.mockImplementationOnce(async () =>
+      Response.json({ title: "Orphaned video", author_name: "Someone Else" })
+    );
+
+    await service.processVideo(`https://youtu.be/${videoId}`, "user-a");
+
+    const video = await service.findVideoById(videoId);
+    expect(video?.channel_id).toBe("unknown");
+    expect((await service.findChannelById("unknown"))?.name).toBe("Unknown Channel");
+  });
+});
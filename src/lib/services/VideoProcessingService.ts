@@ -1,11 +1,88 @@
 import { StoredTranscript } from "@/lib/types/storage";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
-import { storeTranscript } from "@/lib/utils/storage";
-import { extractVideoInfo } from "@/lib/utils/youtube";
+import { getTranscript, getTranscriptPath, storeTranscript } from "@/lib/utils/storage";
+import { segmentsToText } from "@/lib/utils/transcript";
+import {
+  buildChannelUrl,
+  buildVideoUrl,
+  extractVideoInfo,
+  fetchChannelId,
+  fetchVideoMetadata,
+  parseYouTubeUrl,
+  VideoMetadata,
+} from "@/lib/utils/youtube";
 import { VideoProcessingOptions } from "@/lib/types/storage";
 import { DatabaseService } from "./DatabaseService";
-import { OpenAIService } from "./openai";
-import { UserSummaryRecord, VideoRecord } from "@/lib/types/database";
+import { OpenAIService, SUMMARY_PROMPT_VERSION, TokenHandler } from "./openai";
+import { ChannelRecord, ContentSummaryRecord, UserSummaryRecord, VideoRecord } from "@/lib/types/database";
+import { JOB_STAGE_LABELS, JOB_STAGE_LOADING_TYPES, JobStage } from "@/lib/types/job";
+import { LoadingType } from "@/lib/types/loading";
+import { InFlightRequests } from "@/lib/utils/concurrency";
+import { logger } from "@/lib/utils/logger";
+
+// Channel for videos whose author could not be resolved to a channel ID
+const UNKNOWN_CHANNEL = {
+  id: "unknown",
+  name: "Unknown Channel",
+  url: "",
+  subscriber_count: 0,
+};
+
+type ProgressCallbacks = Pick<VideoProcessingOptions, "onToken" | "onStage" | "onProgress">;
+
+/**
+ * Passes the progress of a shared run on to every request waiting for it, so
+ * the run never depends on one caller staying connected. Requests that join
+ * late first receive the tokens streamed so far.
+ */
+class ProgressFanOut {
+  private listeners = new Set<ProgressCallbacks>();
+  private tokens: string[] = [];
+  private logger = logger.withContext({ service: "ProgressFanOut" });
+
+  // Callbacks for the shared run
+  readonly callbacks: Required<ProgressCallbacks> = {
+    onToken: token => {
+      this.tokens.push(token);
+      this.emit(listener => listener.onToken?.(token));
+    },
+    onStage: stage => this.emit(listener => listener.onStage?.(stage)),
+    onProgress: progress => this.emit(listener => listener.onProgress?.(progress)),
+  };
+
+  /**
+   * Start passing progress on to `listener`; returns a function that stops it
+   */
+  join(listener: ProgressCallbacks): () => void {
+    if (this.tokens.length > 0) {
+      this.notify(listener, () => listener.onToken?.(this.tokens.join("")));
+    }
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(callback: (listener: ProgressCallbacks) => void): void {
+    this.listeners.forEach(listener => this.notify(listener, () => callback(listener)));
+  }
+
+  // A failing listener must not break the run for the others
+  private notify(listener: ProgressCallbacks, callback: () => void): void {
+    try {
+      callback();
+    } catch (error) {
+      this.logger.warn("Progress listener failed", { error: (error as Error).message });
+    }
+  }
+}
+
+// Work in progress, shared by concurrent requests: the shared summary of each
+// content ID with the requests following its progress, and the summary of each
+// user and content ID
+const inFlightContent = new InFlightRequests<ContentSummaryRecord>();
+const contentProgress = new Map<string, ProgressFanOut>();
+const inFlightUserSummaries = new InFlightRequests<UserSummaryRecord>();
 
 /**
  * Service class for handling video processing and summary generation
@@ -20,9 +97,15 @@ export class VideoProcessingService extends DatabaseService {
 
   /**
    * Process a video URL and generate summary
+   *
+   * Summaries are shared between users through a content-level cache keyed by
+   * video ID and prompt version, so a video is only summarized once. Requests
+   * for a video that is already being processed wait for that run instead of
+   * fetching and summarizing it again. Pass `options.refresh` to fetch the
+   * transcript again and regenerate the summary.
    */
   async processVideo(url: string, userId: string, options: VideoProcessingOptions = {}): Promise<UserSummaryRecord> {
-    this.logger.info("Processing video", { url, userId });
+    this.logger.info("Processing video", { url, userId, refresh: !!options.refresh });
 
     try {
       const videoInfo = extractVideoInfo(url);
@@ -33,66 +116,356 @@ export class VideoProcessingService extends DatabaseService {
           HttpStatus.BAD_REQUEST
         );
       }
+      const videoId = videoInfo.videoId;
 
-      // Process video using OpenAI service
-      const result = await this.openAIService.processYouTubeVideo(url);
-
-      // Create transcript object
-      const transcript: StoredTranscript = {
-        video_id: videoInfo.videoId,
-        language: options.language || "en",
-        segments: [
-          {
-            text: result.transcript,
-            start: 0,
-            end: 1,
-          }
-        ],
-        metadata: {
-          title: "Unknown",
-          channel: "Unknown",
-          duration: 0,
-          last_updated: new Date(),
+      this.reportStage("transcript", options);
+      const contentSummary = await this.shareContentSummary(videoId, options, async shared => {
+        let transcript = shared.refresh ? null : await getTranscript(videoId);
+        if (!transcript || !(await this.findVideoById(videoId))) {
+          // Store the canonical URL so that Shorts, live and embed links work with oEmbed and timestamps
+          transcript = await this.ingestVideo(buildVideoUrl(videoId), videoId, shared);
         }
-      };
+        return this.getContentSummary(videoId, transcript, shared);
+      });
+
+      const userSummary = await this.linkUserSummary(videoId, userId, contentSummary, options);
+
+      this.logger.info("Processed video successfully", { videoId, summaryId: userSummary.id });
+
+      return userSummary;
+    } catch (error) {
+      this.logger.error("Failed to process video", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Summarize a stored transcript and link the user's summary to it. The
+   * summary is shared through the content-level cache unless
+   * `options.refresh` is set.
+   * @param contentId - ID of the video or episode the transcript belongs to
+   * @param userId - The user the summary belongs to
+   * @param transcript - The stored transcript to summarize
+   */
+  async summarizeContent(
+    contentId: string,
+    userId: string,
+    transcript: StoredTranscript,
+    options: VideoProcessingOptions = {}
+  ): Promise<UserSummaryRecord> {
+    const contentSummary = await this.shareContentSummary(contentId, options, shared =>
+      this.getContentSummary(contentId, transcript, shared)
+    );
+    return this.linkUserSummary(contentId, userId, contentSummary, options);
+  }
+
+  /**
+   * Run `task` to produce the shared summary of a content ID, or wait for the
+   * run already in progress for it. `task` reports its progress through the
+   * options it is given, which reach every caller waiting for the run.
+   */
+  private async shareContentSummary(
+    contentId: string,
+    options: VideoProcessingOptions,
+    task: (shared: VideoProcessingOptions) => Promise<ContentSummaryRecord>
+  ): Promise<ContentSummaryRecord> {
+    // A refresh does not join a run that may reuse the cached summary
+    const key = options.refresh ? `${contentId}:refresh` : contentId;
+    const running = inFlightContent.get(key);
+    const progress = running && contentProgress.get(key);
+    if (!running || !progress) {
+      const fanOut = new ProgressFanOut();
+      const leave = fanOut.join(options);
+      contentProgress.set(key, fanOut);
+      try {
+        return await inFlightContent.run(key, () => task({ ...options, ...fanOut.callbacks }));
+      } finally {
+        leave();
+        if (contentProgress.get(key) === fanOut) contentProgress.delete(key);
+      }
+    }
+
+    this.logger.info("Waiting for content already being processed", { contentId });
+    options.onProgress?.({
+      type: LoadingType.VIDEO_PROCESSING,
+      message: "Waiting for another request for the same content",
+    });
+    const leave = progress.join(options);
+    try {
+      return await running;
+    } finally {
+      leave();
+    }
+  }
+
+  /**
+   * Get the shared summary of a transcript from the content-level cache, or
+   * generate and save it
+   */
+  private async getContentSummary(
+    contentId: string,
+    transcript: StoredTranscript,
+    options: VideoProcessingOptions
+  ): Promise<ContentSummaryRecord> {
+    let contentSummary = options.refresh
+      ? null
+      : await this.findContentSummary(contentId, SUMMARY_PROMPT_VERSION);
+
+    if (contentSummary) {
+      this.logger.info("Using cached summary", { contentId, contentSummaryId: contentSummary.id });
+      // Streaming clients still expect the summary text as tokens
+      options.onToken?.(contentSummary.summary);
+      this.reportStage("persist", options);
+    } else {
+      this.reportStage("summary", options);
+      const { summary, tags } = await this.openAIService.summarizeTranscript(
+        segmentsToText(transcript.segments),
+        options.onToken,
+        (completed, total) => {
+          // The chunk summaries still have to be combined, so the last chunk is not 100%
+          options.onProgress?.({
+            type: LoadingType.VIDEO_SUMMARIZING,
+            message: `Summarized chunk ${completed} of ${total}`,
+            progress: Math.round((completed / (total + 1)) * 100),
+          });
+        },
+        () => this.reportStage("tags", options)
+      );
+      this.reportStage("persist", options);
+      contentSummary = await this.upsertContentSummary({
+        content_id: contentId,
+        prompt_version: SUMMARY_PROMPT_VERSION,
+        summary,
+        detailed_summary: null,
+        tags,
+      });
+    }
+
+    return contentSummary;
+  }
+
+  /**
+   * Create or update the user's summary of a content ID from the shared one.
+   * Concurrent calls for the same user and content share one result, so a
+   * user never gets two summaries of the same content.
+   */
+  private linkUserSummary(
+    contentId: string,
+    userId: string,
+    contentSummary: ContentSummaryRecord,
+    options: VideoProcessingOptions
+  ): Promise<UserSummaryRecord> {
+    return inFlightUserSummaries.run(`${userId}:${contentId}`, () =>
+      this.saveUserSummary(contentId, userId, contentSummary, options)
+    );
+  }
+
+  private async saveUserSummary(
+    contentId: string,
+    userId: string,
+    contentSummary: ContentSummaryRecord,
+    options: VideoProcessingOptions
+  ): Promise<UserSummaryRecord> {
+    // Link the user's summary to the shared one
+    const sharedFields = {
+      summary: contentSummary.summary,
+      detailed_summary: contentSummary.detailed_summary,
+      tags: contentSummary.tags,
+      content_summary_id: contentSummary.id,
+    };
+    const existingSummary = await this.findSummaryByVideoId(contentId, userId);
+
+    let userSummary: UserSummaryRecord;
+    if (!existingSummary) {
+      userSummary = await this.createUserSummary({
+        user_id: userId,
+        video_id: contentId,
+        ...sharedFields,
+      });
+    } else if (existingSummary.content_summary_id !== contentSummary.id || options.refresh) {
+      userSummary = await this.updateUserSummary(userId, existingSummary.id, sharedFields);
+    } else {
+      userSummary = existingSummary;
+    }
+
+    this.logger.info("Linked user summary", {
+      contentId,
+      summaryId: userSummary.id,
+      contentSummaryId: contentSummary.id
+    });
+
+    return userSummary;
+  }
+
+  /**
+   * Tell the caller that processing has moved on to `stage`
+   */
+  private reportStage(stage: JobStage, options: VideoProcessingOptions): void {
+    options.onStage?.(stage);
+    options.onProgress?.({
+      type: JOB_STAGE_LOADING_TYPES[stage],
+      message: JOB_STAGE_LABELS[stage],
+    });
+  }
 
-      // Store transcript
-      await storeTranscript(videoInfo.videoId, transcript);
+  /**
+   * Fetch and store the transcript of a video, and create or update its
+   * channel and video records
+   */
+  private async ingestVideo(
+    url: string,
+    videoId: string,
+    options: VideoProcessingOptions
+  ): Promise<StoredTranscript> {
+    const { segments, provider } = await this.openAIService.fetchTranscript(videoId);
+
+    // Get video metadata from YouTube oEmbed
+    const videoData = await fetchVideoMetadata(url);
+
+    // Create transcript object
+    const transcript: StoredTranscript = {
+      video_id: videoId,
+      language: options.language || segments[0]?.lang || "en",
+      segments,
+      metadata: {
+        title: videoData.title || "Unknown",
+        channel: videoData.author_name || "Unknown Channel",
+        duration: segments[segments.length - 1]?.end || 0,
+        last_updated: new Date(),
+      }
+    };
+
+    // Store transcript
+    await storeTranscript(videoId, transcript);
+
+    // Create or update channel, unless the caller already resolved it
+    const channelId = options.channelId || (await this.saveVideoChannel(videoId, videoData)).id;
 
-      // Create video record
+    const now = new Date().toISOString();
+    const existingVideo = await this.findVideoById(videoId);
+    if (existingVideo) {
+      await this.updateVideo(videoId, {
+        ...(channelId !== UNKNOWN_CHANNEL.id ? { channel_id: channelId } : {}),
+        transcript_provider: provider,
+        language: transcript.language,
+        last_updated: now
+      });
+    } else {
       const video: Omit<VideoRecord, 'created_at'> = {
-        id: videoInfo.videoId,
-        channel_id: 'anonymous',
-        unique_identifier: videoInfo.videoId,
-        title: 'Unknown',
+        id: videoId,
+        channel_id: channelId,
+        content_type: 'video',
+        unique_identifier: videoId,
+        title: videoData.title || 'Unknown',
         url,
-        transcript_path: `transcripts/${videoInfo.videoId}.json`,
+        transcript_path: getTranscriptPath(videoId),
+        transcript_provider: provider,
         language: transcript.language,
-        metadata: null,
-        published_at: new Date().toISOString(),
-        last_updated: new Date().toISOString()
+        metadata: {
+          author_name: videoData.author_name,
+          author_url: videoData.author_url,
+          thumbnail_url: videoData.thumbnail_url
+        },
+        published_at: now,
+        last_updated: now
       };
 
-      await this.createVideo(video);
+      await this.upsertVideo(video);
+    }
 
-      // Create user summary
-      const userSummary = await this.createUserSummary({
-        user_id: userId,
-        video_id: videoInfo.videoId,
-        summary: result.summary,
-        detailed_summary: null,
-        tags: result.tags,
-      });
+    return transcript;
+  }
+
+  /**
+   * Save the channel that oEmbed names as the video's author. The channel ID
+   * is resolved from the author URL on YouTube, never taken from the
+   * submitted link. Videos whose channel cannot be resolved are filed under a
+   * fixed placeholder channel that is never renamed.
+   */
+  private async saveVideoChannel(videoId: string, videoData: VideoMetadata): Promise<ChannelRecord> {
+    const author = videoData.author_url ? parseYouTubeUrl(videoData.author_url) : null;
+    if (author?.type === "channel") {
+      try {
+        const id = await fetchChannelId(author);
+        return await this.upsertChannel({
+          id,
+          name: videoData.author_name || UNKNOWN_CHANNEL.name,
+          url: buildChannelUrl(id),
+          subscriber_count: (await this.findChannelById(id))?.subscriber_count || 0,
+        });
+      } catch (error) {
+        this.logger.warn("Failed to resolve video channel", {
+          videoId,
+          authorUrl: videoData.author_url,
+          error,
+        });
+      }
+    }
+
+    return (await this.findChannelById(UNKNOWN_CHANNEL.id)) || this.upsertChannel(UNKNOWN_CHANNEL);
+  }
+
+  /**
+   * Get the detailed summary of a video for a user, generating it from the
+   * stored transcript on first request and returning the saved one afterwards
+   * @param videoId - The YouTube video ID
+   * @param userId - The user the summary belongs to
+   * @param onToken - Optional callback receiving a newly generated summary as it streams
+   */
+  async getDetailedSummary(videoId: string, userId: string, onToken?: TokenHandler): Promise<UserSummaryRecord> {
+    this.logger.info("Getting detailed summary", { videoId, userId });
 
-      this.logger.info("Processed video successfully", {
-        videoId: videoInfo.videoId,
-        summaryId: userSummary.id
+    const summary = await this.findSummaryByVideoId(videoId, userId);
+    if (!summary) {
+      throw new AppError(
+        "Summary not found",
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    if (summary.detailed_summary) {
+      this.logger.info("Returning cached detailed summary", { videoId, summaryId: summary.id });
+      return summary;
+    }
+
+    const contentSummary = summary.content_summary_id
+      ? await this.findContentSummaryById(summary.content_summary_id)
+      : null;
+    if (contentSummary?.detailed_summary) {
+      this.logger.info("Using shared detailed summary", { videoId, contentSummaryId: contentSummary.id });
+      onToken?.(contentSummary.detailed_summary);
+      return this.updateUserSummary(userId, summary.id, {
+        detailed_summary: contentSummary.detailed_summary,
       });
+    }
 
-      return userSummary;
-    } catch (error) {
-      this.logger.error("Failed to process video", error as Error);
-      throw error;
+    const transcript = await getTranscript(videoId);
+    if (!transcript) {
+      throw new AppError(
+        "Transcript not found",
+        ErrorCode.STORAGE_FILE_NOT_FOUND,
+        HttpStatus.NOT_FOUND
+      );
     }
+
+    const detailedSummary = await this.openAIService.generateDetailedSummary(
+      segmentsToText(transcript.segments),
+      onToken
+    );
+
+    if (contentSummary) {
+      await this.updateContentSummary(contentSummary.id, {
+        detailed_summary: detailedSummary,
+      });
+    }
+
+    const updatedSummary = await this.updateUserSummary(userId, summary.id, {
+      detailed_summary: detailedSummary,
+    });
+
+    this.logger.info("Generated detailed summary", { videoId, summaryId: summary.id });
+
+    return updatedSummary;
   }
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LLMCompletionRequest } from "@/lib/types/llm";
+import { ConcurrencyLimiter } from "@/lib/utils/concurrency";
+import { MockLLMProvider } from "./LLMService";
+import { OpenAIService } from "./openai";
+
+describe("OpenAIService.summarizeTranscript", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // The mock model gets the default 4096-token window, about 2700 tokens per chunk
+  const longTranscript = Array.from({ length: 6000 }, (_, index) => `word${index}`).join(" ");
+
+  const systemPrompts = (requests: [LLMCompletionRequest][]) => requests.map(([request]) => request.messages[0].content);
+
+  it("summarizes a transcript that fits the context window in one request", async () => {
+    const complete = vi.spyOn(MockLLMProvider.prototype, "complete");
+    const onChunk = vi.fn();
+
+    const { summary, tags } = await new OpenAIService().summarizeTranscript("A short transcript.", undefined, onChunk);
+
+    expect(summary).toBe("A short transcript.");
+    expect(tags.length).toBeGreaterThan(0);
+    expect(onChunk).not.toHaveBeenCalled();
+    // One summary request, then the tags
+    expect(systemPrompts(complete.mock.calls)[0]).toMatch(/concise summary of the video transcript/);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it("summarizes each chunk of a long transcript, then streams the combined summary", async () => {
+    const complete = vi.spyOn(MockLLMProvider.prototype, "complete");
+    const onChunk = vi.fn();
+    const tokens: string[] = [];
+
+    const { summary } = await new OpenAIService().summarizeTranscript(
+      longTranscript,
+      token => tokens.push(token),
+      onChunk
+    );
+
+    // Seven chunks are summarized; their summaries still do not fit in one
+    // request, so they are collapsed in another round before the final one
+    const prompts = systemPrompts(complete.mock.calls);
+    expect(onChunk).toHaveBeenCalledTimes(7);
+    expect(onChunk).toHaveBeenLastCalledWith(7, 7);
+    expect(prompts.filter(prompt => prompt.includes("one part of a longer video transcript"))).toHaveLength(9);
+
+    const reduce = complete.mock.calls.filter(([request]) =>
+      request.messages[0].content.includes("summaries of consecutive parts")
+    );
+    expect(reduce).toHaveLength(1);
+    expect(reduce[0][0].messages[1].content).toMatch(/^Part 1:\nword0 [\s\S]*\n\nPart 2:\n/);
+    expect(tokens.join("")).toBe(summary);
+  });
+});
+
+describe("OpenAIService.transcribeAudioChunks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("offsets each chunk's segments by the duration of the chunks before it", async () => {
+    const service = new OpenAIService();
+    // Speech in each chunk ends well before the chunk does
+    vi.spyOn(service, "transcribeAudioSegments").mockResolvedValue([
+      { text: "first", start: 1, end: 4 },
+      { text: "second", start: 5, end: 8 },
+    ]);
+    const onChunk = vi.fn();
+
+    const segments = await service.transcribeAudioChunks(
+      [
+        { file: new File(["a"], "part-1.mp3"), duration: 30 },
+        { file: new File(["b"], "part-2.mp3"), duration: 30 },
+        { file: new File(["c"], "part-3.mp3"), duration: 12 },
+      ],
+      onChunk
+    );
+
+    expect(segments.map(segment => segment.start)).toEqual([1, 5, 31, 35, 61, 65]);
+    expect(segments.map(segment => segment.end)).toEqual([4, 8, 34, 38, 64, 68]);
+    expect(onChunk).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it("transcribes every chunk in one transcript slot", async () => {
+    // With one slot and no queue, a chunk waiting for a second slot would be refused
+    const limiter = new ConcurrencyLimiter("transcripts", 1, 0);
+    const service = new OpenAIService(limiter);
+    vi.spyOn(service, "transcribeAudioSegments").mockImplementation(() =>
+      limiter.run(async () => [{ text: "chunk", start: 0, end: 1 }])
+    );
+
+    const segments = await service.transcribeAudioChunks([
+      { file: new File(["a"], "part-1.mp3"), duration: 10 },
+      { file: new File(["b"], "part-2.mp3"), duration: 10 },
+    ]);
+
+    expect(segments.map(segment => segment.start)).toEqual([0, 10]);
+    await expect(limiter.run(async () => "free")).resolves.toBe("free");
+  });
+});
@@ -1,37 +1,157 @@
 import OpenAI from "openai";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
-import { retryApi } from "@/lib/utils/retry";
 import { extractVideoInfo } from "@/lib/utils/youtube";
-import { fetchTranscript } from "@/lib/utils/youtube";
-import { OpenAIStream } from "ai";
+import { TranscriptProviderName, TranscriptResult } from "@/lib/types/transcript";
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMTask } from "@/lib/types/llm";
+import { TranscriptSegment } from "@/lib/types/storage";
+import { segmentsToText } from "@/lib/utils/transcript";
+import { chunkText, estimateTokens, getChunkOptions } from "@/lib/utils/tokens";
+import { createTranscriptService, TranscriptService } from "./TranscriptService";
+import { createLLMService, LLMService } from "./LLMService";
+import { ConcurrencyLimiter, getTranscriptLimiter } from "@/lib/utils/concurrency";
 
 interface VideoSummary {
   videoId: string;
-  channelId: string | null;
   summary: string;
   detailed_summary: string;
   tags: string[];
   transcript: string;
+  segments: TranscriptSegment[];
+  transcriptProvider: TranscriptProviderName;
 }
 
 /**
- * OpenAI service for handling AI operations
+ * Callback receiving summary text as it is generated
+ */
+export type TokenHandler = (token: string) => void;
+
+/**
+ * Callback told how many of a task's chunks are done
+ */
+export type ChunkHandler = (completed: number, total: number) => void;
+
+/**
+ * Prompts and output budgets for one kind of map-reduce summary
+ */
+interface SummaryPrompts {
+  task: LLMTask;
+  single: string;
+  chunk: string;
+  reduce: string;
+  maxTokens: number;
+  chunkMaxTokens: number;
+}
+
+// Identifies the summary prompts in the shared summary cache. Bump it when
+// the prompts change so that existing summaries are generated again.
+export const SUMMARY_PROMPT_VERSION = "1";
+
+// Room for the system prompt on top of the completion
+const PROMPT_RESERVED_TOKENS = 200;
+
+const BRIEF_SUMMARY_PROMPTS: SummaryPrompts = {
+  task: LLMTask.SUMMARY,
+  single:
+    "You are a highly skilled summarizer. Create a concise summary of the video transcript provided. Focus on the main points and key takeaways.",
+  chunk:
+    "You are a highly skilled summarizer. The text is one part of a longer video transcript. Summarize the main points and key takeaways of this part only, keeping names, numbers and conclusions.",
+  reduce:
+    "You are a highly skilled summarizer. The text contains summaries of consecutive parts of one video. Combine them into a single concise summary of the whole video. Focus on the main points and key takeaways.",
+  maxTokens: 500,
+  chunkMaxTokens: 400,
+};
+
+const DETAILED_SUMMARY_PROMPTS: SummaryPrompts = {
+  task: LLMTask.DETAILED_SUMMARY,
+  single:
+    "Create a detailed summary of the video transcript. Include important details, key points, and maintain the logical flow of information.",
+  chunk:
+    "The text is one part of a longer video transcript. Create a detailed summary of this part only. Include important details, examples, names and numbers, and maintain the logical flow of information.",
+  reduce:
+    "The text contains detailed summaries of consecutive parts of one video. Combine them into a single detailed summary of the whole video. Keep important details and key points, and maintain the logical flow of information.",
+  maxTokens: 1000,
+  chunkMaxTokens: 600,
+};
+
+const PLAYLIST_SYNTHESIS_PROMPTS: SummaryPrompts = {
+  task: LLMTask.SUMMARY,
+  single:
+    "The text contains summaries of the videos in one playlist, in playlist order. Write an overview of the whole playlist: the themes it covers, how the videos build on each other, and the key takeaways.",
+  chunk:
+    "The text contains summaries of some of the videos in one playlist, in playlist order. Summarize the themes and key takeaways of these videos, keeping names, numbers and conclusions.",
+  reduce:
+    "The text contains overviews of consecutive parts of one playlist. Combine them into a single overview of the whole playlist: the themes it covers, how the videos build on each other, and the key takeaways.",
+  maxTokens: 800,
+  chunkMaxTokens: 500,
+};
+
+/**
+ * Turn a stream of text tokens into a stream of UTF-8 encoded chunks
+ */
+function toTextStream(
+  tokens: AsyncIterable<string>,
+  onCompletion?: (completion: string) => Promise<void> | void
+): ReadableStream<Uint8Array> {
+  const iterator = tokens[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  let completion = "";
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        await onCompletion?.(completion);
+        controller.close();
+        return;
+      }
+      completion += value;
+      controller.enqueue(encoder.encode(value));
+    },
+    async cancel() {
+      // Lets the token stream release its resources when the reader goes away
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * AI service for summaries, tags, chat and transcription. Text generation
+ * runs on the provider configured for each task; transcription uses OpenAI.
  */
 export class OpenAIService {
-  private client: OpenAI;
+  private audioClient?: OpenAI;
+  private llm: LLMService;
+  private transcriptService: TranscriptService;
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  /**
+   * @param transcriptLimiter - Limiter shared with transcript fetches, which
+   * every Whisper request waits for
+   */
+  constructor(private transcriptLimiter: ConcurrencyLimiter = getTranscriptLimiter()) {
+    this.llm = createLLMService();
+    this.transcriptService = createTranscriptService(this);
+  }
+
+  /**
+   * OpenAI client for Whisper, created on first use so that text generation
+   * can run without an OpenAI key
+   */
+  private get client(): OpenAI {
+    if (!this.audioClient) {
+      this.audioClient = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+    return this.audioClient;
   }
 
   /**
    * Process a YouTube video URL to generate summary and tags
    * @param url - The YouTube video URL
+   * @param onToken - Optional callback receiving the final summary as it streams
    * @returns A VideoSummary object containing the summary, tags, and transcript
    */
-  async processYouTubeVideo(url: string): Promise<VideoSummary> {
+  async processYouTubeVideo(url: string, onToken?: TokenHandler): Promise<VideoSummary> {
     const videoInfo = extractVideoInfo(url);
     if (!videoInfo.videoId) {
       throw new AppError(
@@ -41,169 +161,356 @@ export class OpenAIService {
       );
     }
 
-    // Get transcript
-    const transcript = await fetchTranscript(videoInfo.videoId);
+    // Get transcript from the first provider in the chain that has one
+    const { segments, provider } = await this.fetchTranscript(videoInfo.videoId);
+    const transcript = segmentsToText(segments);
 
-    // Generate summary directly
-    const summary = await this.generateSummary(transcript);
-
-    // Generate tags in parallel with the summary
-    const tags = await this.generateTags(summary);
+    const { summary, tags } = await this.summarizeTranscript(transcript, onToken);
 
     return {
       videoId: videoInfo.videoId,
-      channelId: videoInfo.channelId,
       summary,
       detailed_summary: "", // Will be generated on demand
       tags,
-      transcript
+      transcript,
+      segments,
+      transcriptProvider: provider
     };
   }
 
+  /**
+   * Fetch the transcript of a YouTube video from the configured providers
+   * @param videoId - The YouTube video ID
+   */
+  async fetchTranscript(videoId: string): Promise<TranscriptResult> {
+    return this.transcriptService.fetchTranscript(videoId);
+  }
+
+  /**
+   * Generate the summary and tags of a transcript
+   * @param transcript - The full transcript text
+   * @param onToken - Optional callback receiving the summary as it streams
+   * @param onChunk - Optional callback told how many chunks of a long transcript are summarized so far
+   * @param onTags - Optional callback called once the summary is done and tagging starts
+   */
+  async summarizeTranscript(
+    transcript: string,
+    onToken?: TokenHandler,
+    onChunk?: ChunkHandler,
+    onTags?: () => void
+  ): Promise<{ summary: string; tags: string[] }> {
+    const summary = await this.generateSummary(transcript, onToken, onChunk);
+    onTags?.();
+    const tags = await this.generateTags(summary);
+    return { summary, tags };
+  }
+
   /**
    * Generate a summary of the transcript
    */
-  private async generateSummary(transcript: string): Promise<string> {
-    const response = await retryApi(() =>
-      this.client.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "You are a highly skilled summarizer. Create a concise summary of the video transcript provided. Focus on the main points and key takeaways."
-          },
-          {
-            role: "user",
-            content: transcript
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 500
-      })
+  private async generateSummary(transcript: string, onToken?: TokenHandler, onChunk?: ChunkHandler): Promise<string> {
+    return this.mapReduceSummary(BRIEF_SUMMARY_PROMPTS, transcript, onToken, onChunk);
+  }
+
+  /**
+   * Summarize a transcript with the given prompts. Transcripts that do not fit
+   * in the model's context window are summarized chunk by chunk (map) and the
+   * chunk summaries are then combined into one summary (reduce). When `onToken`
+   * is given, the final request is streamed through it; `onChunk` is called
+   * after each chunk is summarized.
+   */
+  private async mapReduceSummary(
+    prompts: SummaryPrompts,
+    transcript: string,
+    onToken?: TokenHandler,
+    onChunk?: ChunkHandler
+  ): Promise<string> {
+    const chunkOptions = getChunkOptions(
+      this.llm.getModel(prompts.task),
+      PROMPT_RESERVED_TOKENS + prompts.maxTokens
     );
+    if (estimateTokens(transcript) <= chunkOptions.chunkTokens) {
+      return this.summarizeText(prompts.task, prompts.single, transcript, prompts.maxTokens, onToken);
+    }
+
+    const chunks = chunkText(transcript, chunkOptions);
+    const chunkSummaries: string[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      chunkSummaries.push(
+        await this.summarizeText(prompts.task, prompts.chunk, chunks[index], prompts.chunkMaxTokens)
+      );
+      onChunk?.(index + 1, chunks.length);
+    }
+
+    return this.reduceSummaries(prompts, chunkSummaries, onToken);
+  }
+
+  /**
+   * Combine partial summaries into one, collapsing them in rounds
+   * while they still do not fit in a single request
+   */
+  private async reduceSummaries(
+    prompts: SummaryPrompts,
+    summaries: string[],
+    onToken?: TokenHandler
+  ): Promise<string> {
+    const chunkOptions = getChunkOptions(
+      this.llm.getModel(prompts.task),
+      PROMPT_RESERVED_TOKENS + prompts.maxTokens
+    );
+    const combined = summaries
+      .map((summary, index) => `Part ${index + 1}:\n${summary}`)
+      .join("\n\n");
+
+    if (summaries.length === 1 || estimateTokens(combined) <= chunkOptions.chunkTokens) {
+      return this.summarizeText(prompts.task, prompts.reduce, combined, prompts.maxTokens, onToken);
+    }
+
+    const collapsed: string[] = [];
+    for (const chunk of chunkText(summaries.join("\n\n"), { ...chunkOptions, overlapTokens: 0 })) {
+      collapsed.push(
+        await this.summarizeText(prompts.task, prompts.chunk, chunk, prompts.chunkMaxTokens)
+      );
+    }
 
-    return response.choices[0].message.content || "";
+    return this.reduceSummaries(prompts, collapsed, onToken);
+  }
+
+  /**
+   * Run a single summarization request, streaming it when `onToken` is given
+   */
+  private async summarizeText(
+    task: LLMTask,
+    systemPrompt: string,
+    text: string,
+    maxTokens: number,
+    onToken?: TokenHandler
+  ): Promise<string> {
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: "user",
+        content: text
+      }
+    ];
+    const options: LLMCompletionOptions = {
+      temperature: 0.7,
+      max_tokens: maxTokens
+    };
+
+    if (!onToken) {
+      const response = await this.llm.complete(task, messages, options);
+      return response.content;
+    }
+
+    const stream = await this.llm.stream(task, messages, options);
+
+    let content = "";
+    for await (const token of stream) {
+      content += token;
+      onToken(token);
+    }
+
+    return content;
   }
 
   /**
    * Generate tags for the video based on the summary
    */
   private async generateTags(summary: string): Promise<string[]> {
-    const response = await retryApi(() =>
-      this.client.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "Generate 5-7 relevant tags for this video based on its summary. Return only the tags as a comma-separated list."
-          },
-          {
-            role: "user",
-            content: summary
-          }
-        ],
+    const response = await this.llm.complete(
+      LLMTask.TAGS,
+      [
+        {
+          role: "system",
+          content: "Generate 5-7 relevant tags for this video based on its summary. Return only the tags as a comma-separated list."
+        },
+        {
+          role: "user",
+          content: summary
+        }
+      ],
+      {
         temperature: 0.7,
         max_tokens: 100
-      })
+      }
     );
 
-    const tags = response.choices[0].message.content?.split(",") || [];
+    const tags = response.content.split(",");
     return tags.map(tag => tag.trim()).filter(tag => tag.length > 0);
   }
 
   /**
    * Generate a detailed summary on demand
+   * @param transcript - The full transcript text
+   * @param onToken - Optional callback receiving the summary as it streams
    */
-  async generateDetailedSummary(transcript: string): Promise<string> {
-    const response = await retryApi(() =>
-      this.client.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "Create a detailed summary of the video transcript. Include important details, key points, and maintain the logical flow of information."
-          },
-          {
-            role: "user",
-            content: transcript
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      })
-    );
+  async generateDetailedSummary(transcript: string, onToken?: TokenHandler): Promise<string> {
+    return this.mapReduceSummary(DETAILED_SUMMARY_PROMPTS, transcript, onToken);
+  }
+
+  /**
+   * Write an overview of a playlist from the summaries of its videos
+   * @param title - The playlist title
+   * @param videos - The video titles and summaries, in playlist order
+   */
+  async generatePlaylistSynthesis(
+    title: string,
+    videos: { title: string; summary: string }[]
+  ): Promise<string> {
+    const text = [
+      `Playlist: ${title}`,
+      ...videos.map((video, index) => `Video ${index + 1}: ${video.title}\n${video.summary}`),
+    ].join("\n\n");
 
-    return response.choices[0].message.content || "";
+    return this.mapReduceSummary(PLAYLIST_SYNTHESIS_PROMPTS, text);
   }
 
   /**
-   * Generate a chat completion using the OpenAI API
+   * Generate a chat completion with the provider configured for chat
    * @param messages - Array of messages for the chat completion
    * @param options - Optional parameters for the chat completion
-   * @returns A chat completion response
+   * @returns The generated message and the model that wrote it
    */
   async generateChatCompletion(
-    messages: OpenAI.Chat.ChatCompletionMessageParam[],
-    options: Partial<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming> = {}
-  ): Promise<OpenAI.Chat.ChatCompletion> {
-    const defaultOptions: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
-      model: "gpt-4o-mini",
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): Promise<LLMCompletion> {
+    return this.llm.complete(LLMTask.CHAT, messages, {
       temperature: 0.3,
       max_tokens: 1000,
-      messages,
-      stream: false,
-    };
+      ...options,
+    });
+  }
+
+  /**
+   * Stream a chat completion as plain text
+   * @param messages - Array of messages for the chat completion
+   * @param options - Optional parameters for the chat completion
+   * @param onCompletion - Called with the full text once the stream ends
+   * @returns A stream of UTF-8 encoded text chunks
+   */
+  async streamChatCompletion(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {},
+    onCompletion?: (completion: string) => Promise<void> | void
+  ): Promise<ReadableStream> {
+    const tokens = await this.llm.stream(LLMTask.CHAT, messages, {
+      temperature: 0.3,
+      max_tokens: 1000,
+      ...options,
+    });
+    return toTextStream(tokens, onCompletion);
+  }
 
-    const params = { ...defaultOptions, ...options };
+  /**
+   * Transcribe audio to text using Whisper
+   * @param audioFile - The audio file to transcribe
+   * @returns The transcribed text
+   */
+  async transcribeAudio(audioFile: File): Promise<string> {
+    return this.transcriptLimiter.run(async () => {
+      try {
+        const response = await this.client.audio.transcriptions.create({
+          file: audioFile,
+          model: "whisper-1",
+        });
 
-    try {
-      return await retryApi(() =>
-        this.client.chat.completions.create(params)
-      );
-    } catch (error) {
-      if (error instanceof OpenAI.APIError) {
+        return response.text;
+      } catch (error) {
+        if (error instanceof OpenAI.APIError) {
+          throw new AppError(
+            error.message,
+            ErrorCode.API_SERVICE_UNAVAILABLE,
+            error.status || HttpStatus.SERVICE_UNAVAILABLE
+          );
+        }
         throw new AppError(
-          error.message,
+          "Failed to transcribe audio",
           ErrorCode.API_SERVICE_UNAVAILABLE,
-          error.status || HttpStatus.SERVICE_UNAVAILABLE
+          HttpStatus.SERVICE_UNAVAILABLE,
+          { details: error }
         );
       }
-      throw new AppError(
-        "Failed to create chat completion",
-        ErrorCode.API_SERVICE_UNAVAILABLE,
-        HttpStatus.SERVICE_UNAVAILABLE,
-        { details: error }
-      );
-    }
+    });
   }
 
   /**
-   * Transcribe audio to text using Whisper
+   * Transcribe audio with Whisper, keeping the timing of each segment
    * @param audioFile - The audio file to transcribe
-   * @returns The transcribed text
+   * @returns The timed transcript segments
    */
-  async transcribeAudio(audioFile: File): Promise<string> {
-    try {
-      const response = await this.client.audio.transcriptions.create({
-        file: audioFile,
-        model: "whisper-1",
-      });
+  async transcribeAudioSegments(audioFile: File): Promise<TranscriptSegment[]> {
+    return this.transcriptLimiter.run(async () => {
+      try {
+        const response = await this.client.audio.transcriptions.create({
+          file: audioFile,
+          model: "whisper-1",
+          response_format: "verbose_json",
+          timestamp_granularities: ["segment"],
+        });
+
+        // The SDK types only describe the plain JSON format
+        const verbose = response as unknown as {
+          language?: string;
+          segments?: { start: number; end: number; text: string }[];
+        };
 
-      return response.text;
-    } catch (error) {
-      if (error instanceof OpenAI.APIError) {
+        return (verbose.segments || []).map(segment => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+          lang: verbose.language,
+        }));
+      } catch (error) {
+        if (error instanceof OpenAI.APIError) {
+          throw new AppError(
+            error.message,
+            ErrorCode.API_SERVICE_UNAVAILABLE,
+            error.status || HttpStatus.SERVICE_UNAVAILABLE
+          );
+        }
         throw new AppError(
-          error.message,
+          "Failed to transcribe audio",
           ErrorCode.API_SERVICE_UNAVAILABLE,
-          error.status || HttpStatus.SERVICE_UNAVAILABLE
+          HttpStatus.SERVICE_UNAVAILABLE,
+          { details: error }
         );
       }
-      throw new AppError(
-        "Failed to transcribe audio",
-        ErrorCode.API_SERVICE_UNAVAILABLE,
-        HttpStatus.SERVICE_UNAVAILABLE,
-        { details: error }
-      );
-    }
+    });
   }
-}
\ No newline at end of file
+
+  /**
+   * Transcribe audio that was split into chunks, one Whisper request per
+   * chunk, shifting the timing of each chunk's segments by the duration of
+   * the chunks before it. The chunks are transcribed one after another in a
+   * single transcript slot.
+   * @param chunks - The audio chunks in order, with the duration of each in
+   * seconds when it is known; otherwise the chunk's last segment end is used
+   * @param onChunk - Optional callback told how many chunks are transcribed so far
+   * @returns The timed transcript segments of the whole audio
+   */
+  async transcribeAudioChunks(
+    chunks: { file: File; duration: number | null }[],
+    onChunk?: ChunkHandler
+  ): Promise<TranscriptSegment[]> {
+    return this.transcriptLimiter.run(async () => {
+      const segments: TranscriptSegment[] = [];
+      let offset = 0;
+
+      for (let index = 0; index < chunks.length; index++) {
+        const chunkSegments = await this.transcribeAudioSegments(chunks[index].file);
+        for (const segment of chunkSegments) {
+          segments.push({ ...segment, start: segment.start + offset, end: segment.end + offset });
+        }
+        offset += chunks[index].duration ?? chunkSegments[chunkSegments.length - 1]?.end ?? 0;
+        onChunk?.(index + 1, chunks.length);
+      }
+
+      return segments;
+    });
+  }
+}
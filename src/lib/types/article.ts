@@ -0,0 +1,14 @@
+/**
+ * Readable content extracted from a web article
+ */
+export interface ExtractedArticle {
+  title: string;
+  // Publication name, falling back to the host
+  siteName: string;
+  author: string | null;
+  publishedAt: string | null;
+  // Canonical link the page declares, when it is an http(s) URL
+  canonicalUrl: string | null;
+  // Body text, one entry per paragraph
+  paragraphs: string[];
+}
@@ -0,0 +1,30 @@
+import { ChannelRecord, SubscriptionRecord } from "@/lib/types/database";
+
+/**
+ * An upload listed in a channel's feed
+ */
+export interface ChannelFeedVideo {
+  videoId: string;
+  title: string;
+  publishedAt: string | null;
+}
+
+/**
+ * A channel's public Atom feed, newest uploads first
+ */
+export interface ChannelFeed {
+  channelId: string;
+  title: string;
+  url: string;
+  videos: ChannelFeedVideo[];
+}
+
+/**
+ * Result of subscribing to a channel; the listed videos are summarized
+ * in the background
+ */
+export interface ChannelBackfill {
+  channel: ChannelRecord;
+  subscription: SubscriptionRecord;
+  videos: ChannelFeedVideo[];
+}
@@ -0,0 +1,27 @@
+/**
+ * A message in a conversation about a video
+ */
+export interface VideoChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * A transcript passage an answer was based on (times in seconds)
+ */
+export interface TranscriptCitation {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A saved question about a video and its answer
+ */
+export interface VideoChatAnswer {
+  id: string;
+  question: string;
+  answer: string;
+  citations: TranscriptCitation[];
+  created_at: string;
+}
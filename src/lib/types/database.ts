@@ -53,10 +53,12 @@ export interface Database {
         Row: {
           id: string;
           channel_id: string;
+          content_type: 'video' | 'podcast' | 'upload' | 'article';
           unique_identifier: string;
           title: string;
           url: string;
           transcript_path: string;
+          transcript_provider: string | null;
           language: string;
           metadata: Json | null;
           published_at: string;
@@ -66,10 +68,12 @@ export interface Database {
         Insert: {
           id: string;
           channel_id: string;
+          content_type?: 'video' | 'podcast' | 'upload' | 'article';
           unique_identifier: string;
           title: string;
           url: string;
           transcript_path: string;
+          transcript_provider?: string | null;
           language?: string;
           metadata?: Json | null;
           published_at: string;
@@ -79,10 +83,12 @@ export interface Database {
         Update: {
           id?: string;
           channel_id?: string;
+          content_type?: 'video' | 'podcast' | 'upload' | 'article';
           unique_identifier?: string;
           title?: string;
           url?: string;
           transcript_path?: string;
+          transcript_provider?: string | null;
           language?: string;
           metadata?: Json | null;
           published_at?: string;
@@ -98,6 +104,7 @@ export interface Database {
           summary: string;
           detailed_summary: string | null;
           tags: string[];
+          content_summary_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -108,6 +115,7 @@ export interface Database {
           summary: string;
           detailed_summary?: string | null;
           tags?: string[];
+          content_summary_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -118,6 +126,153 @@ export interface Database {
           summary?: string;
           detailed_summary?: string | null;
           tags?: string[];
+          content_summary_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      content_summaries: {
+        Row: {
+          id: string;
+          content_id: string;
+          prompt_version: string;
+          summary: string;
+          detailed_summary: string | null;
+          tags: string[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          content_id: string;
+          prompt_version: string;
+          summary: string;
+          detailed_summary?: string | null;
+          tags?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          content_id?: string;
+          prompt_version?: string;
+          summary?: string;
+          detailed_summary?: string | null;
+          tags?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      playlists: {
+        Row: {
+          id: string;
+          user_id: string;
+          playlist_id: string;
+          title: string;
+          url: string;
+          provider: string;
+          status: 'pending' | 'processing' | 'completed' | 'failed';
+          synthesis: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          playlist_id: string;
+          title: string;
+          url: string;
+          provider: string;
+          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          synthesis?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          playlist_id?: string;
+          title?: string;
+          url?: string;
+          provider?: string;
+          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          synthesis?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      playlist_items: {
+        Row: {
+          id: string;
+          playlist_id: string;
+          video_id: string;
+          title: string | null;
+          position: number;
+          status: 'pending' | 'processing' | 'completed' | 'failed';
+          summary_id: string | null;
+          error: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          playlist_id: string;
+          video_id: string;
+          title?: string | null;
+          position: number;
+          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          summary_id?: string | null;
+          error?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          playlist_id?: string;
+          video_id?: string;
+          title?: string | null;
+          position?: number;
+          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          summary_id?: string | null;
+          error?: string | null;
+          updated_at?: string;
+        };
+      };
+      jobs: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'video' | 'playlist' | 'channel' | 'import';
+          input: Json;
+          status: 'pending' | 'processing' | 'completed' | 'failed';
+          stage: 'transcript' | 'summary' | 'tags' | 'persist' | null;
+          error: string | null;
+          result_id: string | null;
+          heartbeat_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'video' | 'playlist' | 'channel' | 'import';
+          input: Json;
+          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          stage?: 'transcript' | 'summary' | 'tags' | 'persist' | null;
+          error?: string | null;
+          result_id?: string | null;
+          heartbeat_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: 'video' | 'playlist' | 'channel' | 'import';
+          input?: Json;
+          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          stage?: 'transcript' | 'summary' | 'tags' | 'persist' | null;
+          error?: string | null;
+          result_id?: string | null;
+          heartbeat_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -176,6 +331,35 @@ export interface Database {
           created_at?: string;
         };
       };
+      content_questions: {
+        Row: {
+          id: string;
+          user_id: string;
+          content_id: string;
+          question: string;
+          response: string | null;
+          citations: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          content_id: string;
+          question: string;
+          response?: string | null;
+          citations?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          content_id?: string;
+          question?: string;
+          response?: string | null;
+          citations?: Json | null;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -191,9 +375,15 @@ export interface Database {
 
 export type Tables = Database['public']['Tables'];
 export type VideoRecord = Tables['videos']['Row'] & { channel?: ChannelRecord | null };
+export type ContentType = Tables['videos']['Row']['content_type'];
 export type UserSummaryRecord = Tables['user_summaries']['Row'] & { videos?: VideoRecord | null };
+export type ContentSummaryRecord = Tables['content_summaries']['Row'];
 export type ChannelRecord = Tables['channels']['Row'];
 export type ProfileRecord = Tables['profiles']['Row'];
 export type TagRecord = Tables['tags']['Row'];
 export type ContentTagRecord = Tables['content_tags']['Row'];
-export type SubscriptionRecord = Tables['subscriptions']['Row'] & { channels?: ChannelRecord | null }; 
\ No newline at end of file
+export type SubscriptionRecord = Tables['subscriptions']['Row'] & { channels?: ChannelRecord | null };
+export type ContentQuestionRecord = Tables['content_questions']['Row'];
+export type PlaylistRecord = Tables['playlists']['Row'];
+export type PlaylistItemRecord = Tables['playlist_items']['Row'] & { summary?: UserSummaryRecord | null };
+export type JobRecord = Tables['jobs']['Row'] & { result?: UserSummaryRecord | null };
\ No newline at end of file
@@ -6,6 +6,7 @@ export enum ErrorCode {
   API_SERVICE_UNAVAILABLE = "api/service-unavailable",
   API_RATE_LIMIT = "api/rate-limit",
   API_INVALID_RESPONSE = "api/invalid-response",
+  API_QUEUE_FULL = "api/queue-full",
 
   // Validation Errors
   VALIDATION_INVALID_FORMAT = "validation/invalid-format",
@@ -17,11 +18,48 @@ export enum ErrorCode {
   STORAGE_UPLOAD_FAILED = "storage/upload-failed",
   STORAGE_DOWNLOAD_FAILED = "storage/download-failed",
 
+  // Auth Errors
+  AUTH_UNAUTHORIZED = "auth/unauthorized",
+  AUTH_FORBIDDEN = "auth/forbidden",
+  AUTH_NOT_CONFIGURED = "auth/not-configured",
+
+  // Database Errors
+  DATABASE_QUERY_FAILED = "database/query-failed",
+
   // Video Processing Errors
   VIDEO_NOT_FOUND = "video/not-found",
   VIDEO_INVALID_URL = "video/invalid-url",
   VIDEO_PROCESSING_FAILED = "video/processing-failed",
 
+  // Playlist Errors
+  PLAYLIST_NOT_FOUND = "playlist/not-found",
+  PLAYLIST_INVALID_URL = "playlist/invalid-url",
+
+  // Channel Errors
+  CHANNEL_NOT_FOUND = "channel/not-found",
+  CHANNEL_INVALID_URL = "channel/invalid-url",
+
+  // Job Errors
+  JOB_NOT_FOUND = "job/not-found",
+
+  // Import Errors
+  IMPORT_NO_LINKS = "import/no-links",
+
+  // Fetch Errors
+  FETCH_FORBIDDEN_URL = "fetch/forbidden-url",
+  FETCH_FAILED = "fetch/failed",
+  FETCH_TIMEOUT = "fetch/timeout",
+  FETCH_TOO_LARGE = "fetch/too-large",
+
+  // Article Errors
+  ARTICLE_NO_CONTENT = "article/no-content",
+  ARTICLE_UNSUPPORTED_CONTENT = "article/unsupported-content",
+
+  // Podcast Errors
+  PODCAST_NOT_FOUND = "podcast/not-found",
+  PODCAST_INVALID_FEED = "podcast/invalid-feed",
+  PODCAST_UNSUPPORTED_AUDIO = "podcast/unsupported-audio",
+
   // AI Service Errors
   AI_GENERATION_FAILED = "ai/generation-failed",
   AI_INVALID_RESPONSE = "ai/invalid-response",
@@ -37,11 +75,13 @@ export enum HttpStatus {
   OK = 200,
   CREATED = 201,
   BAD_REQUEST = 400,
+  UNAUTHORIZED = 401,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
   TOO_MANY_REQUESTS = 429,
   INTERNAL_ERROR = 500,
   SERVICE_UNAVAILABLE = 503,
+  GATEWAY_TIMEOUT = 504,
 }
 
 /**
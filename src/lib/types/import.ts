@@ -0,0 +1,29 @@
+/**
+ * Formats links can be imported from
+ */
+export type ImportFormat = "list" | "csv" | "opml";
+
+/**
+ * What happened to one imported link: accepted links are summarized in the
+ * background, duplicates are already among the user's summaries or were
+ * listed earlier in the import
+ */
+export type ImportLinkStatus = "accepted" | "duplicate" | "invalid";
+
+export interface ImportLinkResult {
+  // The link as it appeared in the import
+  input: string;
+  // The normalized link, when it could be parsed
+  url: string | null;
+  status: ImportLinkStatus;
+  reason?: string;
+}
+
+/**
+ * Result of a bulk import, one entry per link found, in import order
+ */
+export interface ImportResult {
+  format: ImportFormat;
+  results: ImportLinkResult[];
+  accepted: number;
+}
@@ -0,0 +1,71 @@
+import { ChannelFeedVideo } from "@/lib/types/channel";
+import { JobRecord } from "@/lib/types/database";
+import { LoadingType } from "@/lib/types/loading";
+
+export type JobStatus = JobRecord['status'];
+
+/**
+ * Kinds of work run as background jobs
+ */
+export type JobType = JobRecord['type'];
+
+/**
+ * Stages a video job runs through, in order
+ */
+export type JobStage = NonNullable<JobRecord['stage']>;
+
+export const JOB_STAGES: JobStage[] = ['transcript', 'summary', 'tags', 'persist'];
+
+export const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  transcript: 'Fetching transcript',
+  summary: 'Summarizing',
+  tags: 'Generating tags',
+  persist: 'Saving summary',
+};
+
+// Loading operation reported to clients for each stage
+export const JOB_STAGE_LOADING_TYPES: Record<JobStage, LoadingType> = {
+  transcript: LoadingType.VIDEO_TRANSCRIBING,
+  summary: LoadingType.VIDEO_SUMMARIZING,
+  tags: LoadingType.AI_GENERATING,
+  persist: LoadingType.DATA_SAVE,
+};
+
+/**
+ * What a video job was submitted with
+ */
+export interface VideoJobInput {
+  url: string;
+  refresh?: boolean;
+  detailed_summary?: string;
+}
+
+/**
+ * What a playlist job was submitted with: the imported playlist to summarize
+ */
+export interface PlaylistJobInput {
+  playlist_id: string;
+}
+
+/**
+ * What a channel job was submitted with: the subscribed channel and the
+ * uploads to summarize
+ */
+export interface ChannelJobInput {
+  channel_id: string;
+  videos: ChannelFeedVideo[];
+}
+
+/**
+ * What an import job was submitted with: the normalized links accepted from
+ * the import
+ */
+export interface ImportJobInput {
+  urls: string[];
+}
+
+/**
+ * Whether a job is still waiting or running
+ */
+export const isActiveJob = (job: Pick<JobRecord, 'status'>): boolean =>
+  job.status === 'pending' || job.status === 'processing';
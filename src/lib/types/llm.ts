@@ -0,0 +1,107 @@
+/**
+ * Identifiers of the available language model providers
+ */
+export enum LLMProviderName {
+  OPENAI = "openai",
+  GROQ = "groq",
+  OPENAI_COMPATIBLE = "openai-compatible",
+  MOCK = "mock",
+}
+
+/**
+ * Tasks that can each be given their own provider and model
+ */
+export enum LLMTask {
+  SUMMARY = "summary",
+  DETAILED_SUMMARY = "detailed-summary",
+  TAGS = "tags",
+  CHAT = "chat",
+}
+
+/**
+ * A chat message sent to a language model
+ */
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Generation parameters that callers may override
+ */
+export interface LLMCompletionOptions {
+  model?: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+}
+
+/**
+ * A complete request as sent to a provider
+ */
+export interface LLMCompletionRequest extends LLMCompletionOptions {
+  model: string;
+  messages: LLMMessage[];
+}
+
+/**
+ * Text generated for a request, with where it came from
+ */
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  provider: LLMProviderName;
+}
+
+/**
+ * A backend that can generate chat completions
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  stream(request: LLMCompletionRequest): Promise<AsyncIterable<string>>;
+}
+
+/**
+ * Provider and model used for a task
+ */
+export interface LLMTaskConfig {
+  provider: LLMProviderName;
+  model: string;
+}
+
+/**
+ * Default provider for every task
+ */
+export const DEFAULT_LLM_PROVIDER = LLMProviderName.OPENAI;
+
+/**
+ * Default model of each provider per task
+ */
+export const DEFAULT_LLM_MODELS: Record<LLMProviderName, Record<LLMTask, string>> = {
+  [LLMProviderName.OPENAI]: {
+    [LLMTask.SUMMARY]: "gpt-3.5-turbo",
+    [LLMTask.DETAILED_SUMMARY]: "gpt-3.5-turbo",
+    [LLMTask.TAGS]: "gpt-3.5-turbo",
+    [LLMTask.CHAT]: "gpt-4o-mini",
+  },
+  [LLMProviderName.GROQ]: {
+    [LLMTask.SUMMARY]: "llama-3.1-8b-instant",
+    [LLMTask.DETAILED_SUMMARY]: "llama-3.3-70b-versatile",
+    [LLMTask.TAGS]: "llama-3.1-8b-instant",
+    [LLMTask.CHAT]: "llama-3.3-70b-versatile",
+  },
+  // Local servers such as llama.cpp serve whatever model they were started with
+  [LLMProviderName.OPENAI_COMPATIBLE]: {
+    [LLMTask.SUMMARY]: "local-model",
+    [LLMTask.DETAILED_SUMMARY]: "local-model",
+    [LLMTask.TAGS]: "local-model",
+    [LLMTask.CHAT]: "local-model",
+  },
+  [LLMProviderName.MOCK]: {
+    [LLMTask.SUMMARY]: "mock",
+    [LLMTask.DETAILED_SUMMARY]: "mock",
+    [LLMTask.TAGS]: "mock",
+    [LLMTask.CHAT]: "mock",
+  },
+};
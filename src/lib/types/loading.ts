@@ -30,6 +30,8 @@ export enum LoadingType {
  * Loading state interface
  */
 export interface LoadingState {
+  // Identifies the operation; the type it started with unless given
+  id: string;
   type: LoadingType;
   message?: string;
   progress?: number;
@@ -37,12 +39,36 @@ export interface LoadingState {
 }
 
 /**
- * Loading context interface
+ * Progress of a server-side operation, sent to clients as a `progress` event
  */
-export interface LoadingContextType {
+export interface LoadingProgress {
+  type: LoadingType;
+  message?: string;
+  progress?: number;
+}
+
+/**
+ * Loading context state
+ */
+export interface LoadingContextState {
   isLoading: boolean;
-  loadingState: LoadingState | null;
-  startLoading: (type: LoadingType, message?: string) => void;
-  updateLoading: (progress: number) => void;
-  stopLoading: () => void;
-} 
\ No newline at end of file
+  activeOperations: Map<string, LoadingState>;
+}
+
+/**
+ * Loading context actions. Operations are identified by `id`, which defaults
+ * to their type, so several operations of one type can run at once.
+ */
+export interface LoadingContextActions {
+  startLoading: (type: LoadingType, message?: string, id?: string) => void;
+  // `type` replaces the operation's type, e.g. as processing moves to the next stage
+  updateLoading: (type: LoadingType, progress?: number, message?: string, id?: string) => void;
+  stopLoading: (id: string) => void;
+  isOperationLoading: (id: string) => boolean;
+  getLoadingState: (id: string) => LoadingState | undefined;
+}
+
+/**
+ * Loading context interface
+ */
+export type LoadingContextType = LoadingContextState & LoadingContextActions; 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { PlaylistItemRecord, PlaylistRecord } from "@/lib/types/database";
+
+/**
+ * Identifiers of the available playlist providers
+ */
+export enum PlaylistProviderName {
+  YOUTUBE_DATA_API = "youtube-data-api",
+  FIXTURE = "fixture",
+}
+
+/**
+ * A video listed in a playlist
+ */
+export interface PlaylistVideo {
+  videoId: string;
+  title: string | null;
+}
+
+/**
+ * Playlist returned by a provider, with its videos in playlist order
+ */
+export interface PlaylistResult {
+  provider: PlaylistProviderName;
+  playlistId: string;
+  title: string;
+  videos: PlaylistVideo[];
+}
+
+/**
+ * A source that can list the videos of a YouTube playlist
+ */
+export interface PlaylistProvider {
+  readonly name: PlaylistProviderName;
+  fetchPlaylist(playlistId: string): Promise<PlaylistResult>;
+}
+
+/**
+ * A user's playlist import with its items and their summaries
+ */
+export interface PlaylistDetails extends PlaylistRecord {
+  items: PlaylistItemRecord[];
+}
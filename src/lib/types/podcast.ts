@@ -0,0 +1,39 @@
+import { VideoProcessingOptions } from "@/lib/types/storage";
+
+/**
+ * An episode listed in a podcast feed
+ */
+export interface PodcastEpisode {
+  guid: string;
+  title: string;
+  link: string | null;
+  audioUrl: string;
+  audioType: string | null;
+  publishedAt: string | null;
+}
+
+/**
+ * A podcast RSS feed, with its episodes in feed order (usually newest first)
+ */
+export interface PodcastFeed {
+  feedUrl: string;
+  title: string;
+  link: string | null;
+  episodes: PodcastEpisode[];
+}
+
+/**
+ * Downloaded episode audio
+ */
+export interface PodcastAudio {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Options for processing a podcast episode
+ */
+export interface PodcastProcessingOptions extends VideoProcessingOptions {
+  // GUID, page link or audio URL of the episode to pick from a feed; defaults to the latest
+  episode?: string;
+}
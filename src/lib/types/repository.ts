@@ -0,0 +1,95 @@
+import {
+  ChannelRecord,
+  ContentQuestionRecord,
+  ContentSummaryRecord,
+  ContentTagRecord,
+  JobRecord,
+  PlaylistItemRecord,
+  PlaylistRecord,
+  ProfileRecord,
+  SubscriptionRecord,
+  TagRecord,
+  UserSummaryRecord,
+  VideoRecord,
+} from "@/lib/types/database";
+
+/**
+ * Identifiers of the available database backends
+ */
+export enum DatabaseBackendName {
+  MEMORY = "memory",
+  SQLITE = "sqlite",
+  SUPABASE = "supabase",
+}
+
+/**
+ * Storage for every record the application keeps. Each backend returns
+ * records in the same shape: videos with their `channel`, user summaries
+ * with their `videos` and playlist items with their `summary`.
+ */
+export interface DatabaseRepository {
+  readonly name: DatabaseBackendName;
+
+  // Profiles
+  getProfile(userId: string): Promise<ProfileRecord | null>;
+  upsertProfile(profile: Omit<ProfileRecord, 'created_at'>): Promise<ProfileRecord>;
+
+  // Channels
+  findChannelById(id: string): Promise<ChannelRecord | null>;
+  upsertChannel(channel: Omit<ChannelRecord, 'created_at'>): Promise<ChannelRecord>;
+
+  // Videos
+  findVideoById(id: string): Promise<VideoRecord | null>;
+  findVideoByUrl(url: string): Promise<VideoRecord | null>;
+  upsertVideo(video: Omit<VideoRecord, 'created_at'>): Promise<VideoRecord>;
+  updateVideo(id: string, video: Partial<VideoRecord>): Promise<VideoRecord>;
+
+  // User summaries, newest first
+  getUserSummaries(userId: string): Promise<UserSummaryRecord[]>;
+  findUserSummaryById(id: string): Promise<UserSummaryRecord | null>;
+  createUserSummary(summary: Omit<UserSummaryRecord, 'id' | 'created_at' | 'updated_at'>): Promise<UserSummaryRecord>;
+  updateUserSummary(id: string, summary: Partial<UserSummaryRecord>): Promise<UserSummaryRecord>;
+  findSummaryByVideoId(videoId: string, userId: string): Promise<UserSummaryRecord | null>;
+
+  // Content summaries, one per content and prompt version
+  findContentSummary(contentId: string, promptVersion: string): Promise<ContentSummaryRecord | null>;
+  findContentSummaryById(id: string): Promise<ContentSummaryRecord | null>;
+  upsertContentSummary(
+    summary: Omit<ContentSummaryRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ContentSummaryRecord>;
+  updateContentSummary(id: string, summary: Partial<ContentSummaryRecord>): Promise<ContentSummaryRecord>;
+
+  // Tags
+  findOrCreateTag(name: string): Promise<TagRecord>;
+  addContentTag(contentTag: ContentTagRecord): Promise<void>;
+  getContentTags(contentId: string): Promise<TagRecord[]>;
+
+  // Subscriptions
+  getSubscriptions(userId: string): Promise<SubscriptionRecord[]>;
+  findSubscriptionById(id: string): Promise<SubscriptionRecord | null>;
+  addSubscription(subscription: Omit<SubscriptionRecord, 'id' | 'created_at'>): Promise<SubscriptionRecord>;
+  removeSubscription(userId: string, subscriptionId: string): Promise<void>;
+
+  // Content questions, oldest first
+  getContentQuestions(userId: string, contentId: string): Promise<ContentQuestionRecord[]>;
+  findContentQuestionById(id: string): Promise<ContentQuestionRecord | null>;
+  createContentQuestion(question: Omit<ContentQuestionRecord, 'id' | 'created_at'>): Promise<ContentQuestionRecord>;
+  deleteContentQuestion(userId: string, questionId: string): Promise<void>;
+  deleteContentQuestions(userId: string, contentId: string): Promise<void>;
+
+  // Playlists, newest first, and their items in playlist order
+  getUserPlaylists(userId: string): Promise<PlaylistRecord[]>;
+  findPlaylistById(id: string): Promise<PlaylistRecord | null>;
+  createPlaylist(playlist: Omit<PlaylistRecord, 'id' | 'created_at' | 'updated_at'>): Promise<PlaylistRecord>;
+  updatePlaylist(id: string, playlist: Partial<PlaylistRecord>): Promise<PlaylistRecord>;
+  getPlaylistItems(playlistId: string): Promise<PlaylistItemRecord[]>;
+  findPlaylistItemById(id: string): Promise<PlaylistItemRecord | null>;
+  createPlaylistItems(items: Omit<PlaylistItemRecord, 'id' | 'updated_at'>[]): Promise<PlaylistItemRecord[]>;
+  updatePlaylistItem(id: string, item: Partial<PlaylistItemRecord>): Promise<PlaylistItemRecord>;
+
+  // Processing jobs, newest first
+  getUserJobs(userId: string): Promise<JobRecord[]>;
+  findJobById(id: string): Promise<JobRecord | null>;
+  createJob(job: Omit<JobRecord, 'id' | 'created_at' | 'updated_at'>): Promise<JobRecord>;
+  updateJob(id: string, job: Partial<JobRecord>): Promise<JobRecord>;
+}
@@ -1,3 +1,7 @@
+import type { Readable } from "stream";
+import type { JobStage } from "@/lib/types/job";
+import type { LoadingProgress } from "@/lib/types/loading";
+
 /**
  * Interface representing a video record in the database
  */
@@ -23,12 +27,13 @@ export interface UserSummary {
 }
 
 /**
- * Interface representing a transcript segment
+ * Interface representing a transcript segment (times in seconds)
  */
 export interface TranscriptSegment {
   start: number;
   end: number;
   text: string;
+  lang?: string;
 }
 
 /**
@@ -58,6 +63,13 @@ export interface VideoProcessingOptions {
   refresh?: boolean;
   language?: string;
   generateSummary?: boolean;
+  onToken?: (token: string) => void;
+  // Called as processing moves from one stage to the next
+  onStage?: (stage: JobStage) => void;
+  // Called with the current stage and how far along it is
+  onProgress?: (progress: LoadingProgress) => void;
+  // Channel the video belongs to, when already known (e.g. from a channel feed)
+  channelId?: string;
 }
 
 /**
@@ -68,33 +80,24 @@ export interface DatabaseResponse<T> {
   error: Error | null;
 }
 
-// In-memory storage for transcripts
-export const transcriptStore = new Map<string, StoredTranscript>();
-
-/**
- * Store a transcript in memory
- */
-export const storeTranscript = async (videoId: string, transcript: StoredTranscript): Promise<void> => {
-  transcriptStore.set(videoId, transcript);
-};
-
 /**
- * Get a transcript from memory
+ * Identifiers of the available transcript storage backends
  */
-export const getTranscript = async (videoId: string): Promise<StoredTranscript | null> => {
-  return transcriptStore.get(videoId) || null;
-};
-
-/**
- * Delete a transcript from memory
- */
-export const deleteTranscript = async (videoId: string): Promise<void> => {
-  transcriptStore.delete(videoId);
-};
+export enum TranscriptStorageName {
+  MEMORY = "memory",
+  FILESYSTEM = "filesystem",
+  SUPABASE = "supabase",
+}
 
 /**
- * Check if a transcript exists in memory
+ * A place transcripts are kept, addressed by their `transcript_path`
  */
-export const transcriptExists = async (videoId: string): Promise<boolean> => {
-  return transcriptStore.has(videoId);
-}; 
\ No newline at end of file
+export interface TranscriptStorageBackend {
+  readonly name: TranscriptStorageName;
+  // Replace the file at `path` as a whole; readers never see a partial write
+  write(path: string, data: string): Promise<void>;
+  // Stream the file at `path`, or null when there is none
+  read(path: string): Promise<Readable | null>;
+  exists(path: string): Promise<boolean>;
+  delete(path: string): Promise<void>;
+}
@@ -0,0 +1,46 @@
+import { TranscriptSegment } from "@/lib/types/storage";
+
+/**
+ * Identifiers of the available transcript providers
+ */
+export enum TranscriptProviderName {
+  RAPID_API = "rapidapi",
+  YOUTUBE_TRANSCRIPT = "youtube-transcript",
+  WHISPER = "whisper",
+  MOCK = "mock",
+}
+
+/**
+ * Transcript returned by a provider
+ */
+export interface TranscriptResult {
+  provider: TranscriptProviderName;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * A source that can fetch the transcript of a YouTube video
+ */
+export interface TranscriptProvider {
+  readonly name: TranscriptProviderName;
+  fetchTranscript(videoId: string): Promise<TranscriptResult>;
+}
+
+/**
+ * Default order in which providers are tried
+ */
+export const DEFAULT_TRANSCRIPT_PROVIDERS: TranscriptProviderName[] = [
+  TranscriptProviderName.RAPID_API,
+  TranscriptProviderName.YOUTUBE_TRANSCRIPT,
+  TranscriptProviderName.WHISPER,
+];
+
+/**
+ * Provider recorded for transcripts imported from subtitle files
+ */
+export const SUBTITLE_FILE_PROVIDER = "subtitle-file";
+
+/**
+ * Provider recorded for transcripts extracted from web articles
+ */
+export const ARTICLE_EXTRACTOR_PROVIDER = "article-extractor";
@@ -0,0 +1,22 @@
+import { VideoProcessingOptions } from "@/lib/types/storage";
+
+// File types accepted for upload, by extension
+export const UPLOAD_EXTENSIONS = ["mp3", "m4a", "wav", "mp4"];
+
+// Largest file accepted for upload; files over the Whisper size limit are
+// transcribed in parts
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// Subtitle files accepted for import, by extension
+export const SUBTITLE_EXTENSIONS = ["srt", "vtt"];
+
+// Largest subtitle file accepted for import
+export const MAX_SUBTITLE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Options for processing an uploaded audio or video file
+ */
+export interface UploadProcessingOptions extends VideoProcessingOptions {
+  // Title shown for the upload; defaults to the file name
+  title?: string;
+}
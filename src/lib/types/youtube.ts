@@ -0,0 +1,40 @@
+/**
+ * How a channel URL identifies the channel
+ * - id: /channel/UC...
+ * - handle: /@name
+ * - custom: /c/name
+ * - user: /user/name
+ */
+export type YouTubeChannelKind = "id" | "handle" | "custom" | "user";
+
+/**
+ * A single video, optionally opened at a time or inside a playlist
+ */
+export interface YouTubeVideoUrl {
+  type: "video";
+  videoId: string;
+  startSeconds: number | null;
+  playlistId: string | null;
+}
+
+/**
+ * A playlist page or embedded playlist
+ */
+export interface YouTubePlaylistUrl {
+  type: "playlist";
+  playlistId: string;
+}
+
+/**
+ * A channel page
+ */
+export interface YouTubeChannelUrl {
+  type: "channel";
+  kind: YouTubeChannelKind;
+  value: string;
+}
+
+/**
+ * What a YouTube URL points to
+ */
+export type YouTubeUrl = YouTubeVideoUrl | YouTubePlaylistUrl | YouTubeChannelUrl;
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { extractArticle } from "./article";
+
+const PAGE_URL = "https://blog.example.com/posts/hello?utm_source=feed";
+
+function page(head: string, body = "<p>Hello there, this is the first paragraph of a reasonably long post.</p>"): string {
+  return `<html><head><title>Hello</title>${head}</head><body><article>${body}</article></body></html>`;
+}
+
+describe("extractArticle", () => {
+  it("resolves a relative canonical link against the page", () => {
+    const article = extractArticle(page('<link rel="canonical" href="/posts/hello">'), PAGE_URL);
+    expect(article.canonicalUrl).toBe("https://blog.example.com/posts/hello");
+  });
+
+  it.each([
+    "javascript:alert(document.cookie)",
+    " JavaScript:alert(1)",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+  ])("drops a canonical link to %s", href => {
+    const article = extractArticle(page(`<link rel="canonical" href="${href}">`), PAGE_URL);
+    expect(article.canonicalUrl).toBeNull();
+  });
+
+  it("decodes character references outside the Basic Multilingual Plane", () => {
+    const article = extractArticle(page("", "<p>Launch day &#128512; &#x1F680; is finally here for everyone.</p>"), PAGE_URL);
+    expect(article.paragraphs.join(" ")).toContain("Launch day 😀 🚀 is finally here");
+  });
+});
@@ -0,0 +1,192 @@
+import { ExtractedArticle } from "@/lib/types/article";
+import { toHttpUrl } from "@/lib/utils/url";
+import { codePointToString } from "@/lib/utils/xml";
+
+/**
+ * Readable-content extraction for web articles without an HTML parser.
+ * Pages are cleaned with regular expressions, so the result is a best effort:
+ * the largest `<article>` (or `<main>`, or the body) wins and short fragments
+ * such as captions and share buttons are dropped.
+ */
+
+// Elements whose contents are never part of the article text
+const REMOVED_ELEMENTS = [
+  "script", "style", "noscript", "svg", "iframe", "template", "canvas",
+  "nav", "header", "footer", "aside", "form", "button", "select",
+];
+// Elements that start a new paragraph
+const BLOCK_ELEMENTS = [
+  "p", "div", "section", "article", "main", "h[1-6]", "li", "ul", "ol", "blockquote",
+  "pre", "table", "tr", "dd", "dt", "figure", "figcaption", "br", "hr",
+];
+
+// Paragraphs shorter than this are treated as page furniture
+const MIN_PARAGRAPH_WORDS = 6;
+// A container with less text than this is passed over for the whole body
+const MIN_CONTAINER_CHARS = 500;
+
+// Query parameters that only track where a link was shared
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+};
+
+/**
+ * Decode the HTML entities common in article text
+ */
+function decodeHtml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => codePointToString(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => codePointToString(parseInt(code, 10)))
+    .replace(/&([a-z]+);/gi, (entity, name: string) => ENTITIES[name.toLowerCase()] ?? entity);
+}
+
+/**
+ * Get an attribute from a single tag, matching its name case-insensitively
+ */
+function getTagAttribute(tag: string, attribute: string): string | null {
+  const value = tag.match(new RegExp(`\\s${attribute}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return value ? decodeHtml(value[2] ?? value[3] ?? value[4]).trim() : null;
+}
+
+/**
+ * Find the content of the first `<meta>` tag whose property or name is one of `keys`,
+ * trying the keys in order
+ */
+function getMeta(html: string, keys: string[]): string | null {
+  const tags = html.match(/<meta\s[^>]*>/gi) || [];
+  for (const key of keys) {
+    for (const tag of tags) {
+      const name = (getTagAttribute(tag, "property") || getTagAttribute(tag, "name") || "").toLowerCase();
+      const content = getTagAttribute(tag, "content");
+      if (name === key && content) return content;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the raw contents of every element with the given name
+ */
+function getHtmlElements(html: string, name: string): string[] {
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, "gi");
+  const elements: string[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    elements.push(match[1]);
+  }
+  return elements;
+}
+
+/**
+ * Turn an HTML fragment into plain text, one paragraph per block element
+ */
+function toParagraphs(html: string): string[] {
+  const blockTags = new RegExp(`<\\/?(?:${BLOCK_ELEMENTS.join("|")})(?:\\s[^>]*)?\\/?>`, "gi");
+  const paragraphs = html
+    .replace(blockTags, "\n\n")
+    .replace(/<[^>]*>/g, "")
+    .split(/\n\s*\n/)
+    .map(paragraph => decodeHtml(paragraph).replace(/\s+/g, " ").trim())
+    .filter(paragraph => paragraph.split(" ").length >= MIN_PARAGRAPH_WORDS);
+
+  return paragraphs.filter((paragraph, index) => paragraph !== paragraphs[index - 1]);
+}
+
+/**
+ * Strip the parts of a page that never hold article text
+ */
+function cleanHtml(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, "");
+  for (const name of REMOVED_ELEMENTS) {
+    cleaned = cleaned
+      .replace(new RegExp(`<${name}(?:\\s[^>]*)?>[\\s\\S]*?</${name}>`, "gi"), "")
+      .replace(new RegExp(`<${name}(?:\\s[^>]*)?\\/?>`, "gi"), "");
+  }
+  return cleaned;
+}
+
+/**
+ * Pick the element most likely to hold the article: the `<article>` with
+ * the most text, then `<main>`, then the whole body
+ */
+function selectContent(html: string): string {
+  const textLength = (fragment: string) => fragment.replace(/<[^>]*>/g, "").replace(/\s+/g, " ").length;
+
+  for (const name of ["article", "main"]) {
+    const candidates = getHtmlElements(html, name).sort((a, b) => textLength(b) - textLength(a));
+    if (candidates.length > 0 && textLength(candidates[0]) >= MIN_CONTAINER_CHARS) {
+      return candidates[0];
+    }
+  }
+
+  const [body] = getHtmlElements(html, "body");
+  return body ?? html;
+}
+
+/**
+ * Extract the title, byline and readable text of an article page
+ * @param html - The page's HTML
+ * @param pageUrl - Where the page was fetched from, used for the site name fallback
+ *   and to resolve a relative canonical link
+ */
+export function extractArticle(html: string, pageUrl: string): ExtractedArticle {
+  const [documentTitle] = getHtmlElements(html, "title");
+  const [heading] = getHtmlElements(html, "h1");
+  const title =
+    getMeta(html, ["og:title", "twitter:title"]) ||
+    (documentTitle && decodeHtml(documentTitle).replace(/\s+/g, " ").trim()) ||
+    (heading && decodeHtml(heading.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim()) ||
+    "Untitled Article";
+
+  const canonicalTag = (html.match(/<link\s[^>]*>/gi) || [])
+    .find(tag => getTagAttribute(tag, "rel")?.toLowerCase() === "canonical");
+  const canonicalHref = canonicalTag && getTagAttribute(canonicalTag, "href");
+  const canonicalUrl = toHttpUrl(canonicalHref, pageUrl);
+
+  const author = getMeta(html, ["author", "article:author", "twitter:creator"]);
+  const timeTag = html.match(/<time\s[^>]*>/i);
+
+  return {
+    title,
+    siteName:
+      getMeta(html, ["og:site_name", "application-name"]) ||
+      new URL(pageUrl).hostname.replace(/^www\./, ""),
+    // article:author is often a profile URL rather than a name
+    author: author && !/^https?:\/\//.test(author) ? author : null,
+    publishedAt:
+      getMeta(html, ["article:published_time", "date", "dc.date", "pubdate"]) ||
+      (timeTag && getTagAttribute(timeTag[0], "datetime")) ||
+      null,
+    canonicalUrl,
+    paragraphs: toParagraphs(selectContent(cleanHtml(html))),
+  };
+}
+
+/**
+ * Normalize an article URL so links shared from different places map to
+ * the same article: the fragment and tracking parameters are dropped
+ */
+export function normalizeArticleUrl(input: string): string {
+  const url = new URL(input);
+  url.hash = "";
+  Array.from(url.searchParams.keys())
+    .filter(key => TRACKING_PARAMS.test(key))
+    .forEach(key => url.searchParams.delete(key));
+  return url.toString();
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { ErrorCode } from "@/lib/types/errors";
+import { canSplitAudio, splitAudio } from "./audio";
+
+// MPEG-1 Layer III at 128 kbps and 44.1 kHz: 417-byte frames of 1152 samples
+const MP3_FRAME_BYTES = 417;
+const MP3_FRAME_SECONDS = 1152 / 44100;
+
+/**
+ * Build MP3 audio of silent frames, optionally after an ID3v2 tag
+ */
+function buildMp3(frames: number, id3Bytes = 0): Buffer {
+  const frame = Buffer.alloc(MP3_FRAME_BYTES);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+
+  const parts = Array.from({ length: frames }, () => frame);
+  if (id3Bytes > 0) {
+    const tag = Buffer.alloc(10 + id3Bytes);
+    tag.write("ID3", 0, "ascii");
+    tag.set([4, 0, 0, (id3Bytes >> 21) & 0x7f, (id3Bytes >> 14) & 0x7f, (id3Bytes >> 7) & 0x7f, id3Bytes & 0x7f], 3);
+    parts.unshift(tag);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Build 16-bit mono PCM WAV audio at 16 kHz
+ */
+function buildWav(seconds: number): Buffer {
+  const samples = Buffer.alloc(seconds * 32000);
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + samples.length, 4);
+  header.write("WAVEfmt ", 8, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(16000, 24);
+  header.writeUInt32LE(32000, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(samples.length, 40);
+  return Buffer.concat([header, samples]);
+}
+
+/**
+ * Build an MP4 box from its type and contents
+ */
+function mp4Box(type: string, ...contents: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 4, "latin1");
+  const box = Buffer.concat([header, ...contents]);
+  box.writeUInt32BE(box.length, 0);
+  return box;
+}
+
+function uint32s(values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+  return buffer;
+}
+
+// AAC at 44.1 kHz: 1024 samples per MP4 sample
+const MP4_SAMPLE_SECONDS = 1024 / 44100;
+const MP4_SAMPLE_BYTES = 100;
+const MP4_SAMPLE_DESCRIPTION = mp4Box("stsd", uint32s([0, 1]), mp4Box("mp4a", Buffer.alloc(28, 7)));
+
+/**
+ * Build an MP4 file with a video track header and an audio track of
+ * `samples` samples, each filled with its index, stored in chunks of four
+ * after the movie box
+ */
+function buildMp4(samples: number): Buffer {
+  const media = Buffer.concat(Array.from({ length: samples }, (_, i) => Buffer.alloc(MP4_SAMPLE_BYTES, i)));
+  const chunks = Math.ceil(samples / 4);
+  const movie = (dataOffset: number) => mp4Box(
+    "moov",
+    mp4Box("mvhd", Buffer.alloc(100)),
+    mp4Box("trak", mp4Box("mdia", mp4Box("hdlr", uint32s([0, 0]), Buffer.from("vide", "latin1"), Buffer.alloc(13)))),
+    mp4Box(
+      "trak",
+      mp4Box(
+        "mdia",
+        mp4Box("mdhd", uint32s([0, 0, 0, 44100, samples * 1024, 0])),
+        mp4Box("hdlr", uint32s([0, 0]), Buffer.from("soun", "latin1"), Buffer.alloc(13)),
+        mp4Box(
+          "minf",
+          mp4Box(
+            "stbl",
+            MP4_SAMPLE_DESCRIPTION,
+            mp4Box("stts", uint32s([0, 1, samples, 1024])),
+            // Four samples per chunk, and the remainder in the last one
+            mp4Box("stsc", uint32s([0, 2, 1, 4, 1, chunks, samples - (chunks - 1) * 4, 1])),
+            mp4Box("stsz", uint32s([0, MP4_SAMPLE_BYTES, samples])),
+            mp4Box("stco", uint32s([0, chunks, ...Array.from({ length: chunks }, (_, i) => dataOffset + i * 4 * MP4_SAMPLE_BYTES)]))
+          )
+        )
+      )
+    )
+  );
+
+  const fileType = mp4Box("ftyp", Buffer.from("isom", "latin1"), uint32s([0x200]));
+  const dataOffset = fileType.length + movie(0).length + 8;
+  return Buffer.concat([fileType, movie(dataOffset), mp4Box("mdat", media)]);
+}
+
+/**
+ * Get the media data of an MP4 file
+ */
+function getMp4Media(data: Buffer): Buffer {
+  return data.subarray(data.indexOf("mdat", 0, "latin1") + 4);
+}
+
+describe("splitAudio", () => {
+  it("keeps audio under the limit whole", () => {
+    const data = buildMp3(3);
+    expect(splitAudio(data, "audio/mpeg", 10_000)).toEqual([{ data, duration: null }]);
+  });
+
+  it("splits MP3 audio between frames and times each chunk by its frames", () => {
+    const data = buildMp3(25);
+    const chunks = splitAudio(data, "audio/mpeg", MP3_FRAME_BYTES * 10 + 100);
+
+    expect(chunks.map(chunk => chunk.data.length)).toEqual([
+      MP3_FRAME_BYTES * 10,
+      MP3_FRAME_BYTES * 10,
+      MP3_FRAME_BYTES * 5,
+    ]);
+    expect(chunks.map(chunk => chunk.duration)).toEqual([
+      10 * MP3_FRAME_SECONDS,
+      10 * MP3_FRAME_SECONDS,
+      5 * MP3_FRAME_SECONDS,
+    ].map(seconds => expect.closeTo(seconds, 6)));
+    expect(chunks.every(chunk => chunk.data[0] === 0xff)).toBe(true);
+  });
+
+  it("keeps an ID3 tag with the first MP3 chunk without counting it as audio", () => {
+    const data = buildMp3(20, 1000);
+    const chunks = splitAudio(data, "audio/mpeg", MP3_FRAME_BYTES * 10 + 1100);
+
+    expect(chunks[0].data.subarray(0, 3).toString("ascii")).toBe("ID3");
+    expect(chunks.reduce((total, chunk) => total + (chunk.duration || 0), 0)).toBeCloseTo(20 * MP3_FRAME_SECONDS, 6);
+  });
+
+  it("splits WAV audio into playable chunks timed by the byte rate", () => {
+    const chunks = splitAudio(buildWav(5), "audio/wav", 44 + 64000);
+
+    expect(chunks.map(chunk => chunk.duration)).toEqual([2, 2, 1]);
+    expect(chunks.map(chunk => chunk.data.readUInt32LE(40))).toEqual([64000, 64000, 32000]);
+  });
+
+  it("copies the audio track of MP4 files into M4A files of whole samples", () => {
+    const data = buildMp4(30);
+    const maxBytes = 2000;
+    const chunks = splitAudio(data, "video/mp4", maxBytes);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.data.length <= maxBytes)).toBe(true);
+    expect(chunks.every(chunk => chunk.data.subarray(4, 12).toString("latin1") === "ftypM4A ")).toBe(true);
+    expect(chunks.every(chunk => chunk.data.includes(MP4_SAMPLE_DESCRIPTION))).toBe(true);
+    expect(Buffer.concat(chunks.map(chunk => getMp4Media(chunk.data)))).toEqual(getMp4Media(data));
+    expect(chunks.reduce((total, chunk) => total + (chunk.duration || 0), 0)).toBeCloseTo(30 * MP4_SAMPLE_SECONDS, 6);
+  });
+
+  it("writes MP4 chunks that can be split again", () => {
+    const [first] = splitAudio(buildMp4(30), "audio/mp4", 2000);
+    const parts = splitAudio(first.data, "audio/mp4", first.data.length - 1);
+
+    expect(parts).toHaveLength(2);
+    expect(Buffer.concat(parts.map(part => getMp4Media(part.data)))).toEqual(getMp4Media(first.data));
+    expect(parts[0].duration! + parts[1].duration!).toBeCloseTo(first.duration!, 6);
+  });
+
+  it("rejects large audio that cannot be split", () => {
+    expect(canSplitAudio("audio/mp4")).toBe(true);
+    expect(canSplitAudio("audio/ogg")).toBe(false);
+    expect(() => splitAudio(Buffer.alloc(2000), "audio/ogg", 1000)).toThrow(
+      expect.objectContaining({ code: ErrorCode.VIDEO_PROCESSING_FAILED })
+    );
+    expect(() => splitAudio(Buffer.alloc(2000), "audio/mp4", 1000)).toThrow(
+      expect.objectContaining({ code: ErrorCode.VIDEO_PROCESSING_FAILED })
+    );
+  });
+});
@@ -0,0 +1,491 @@
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+
+// Whisper rejects uploads larger than 25 MB
+export const WHISPER_MAX_FILE_SIZE = 25 * 1024 * 1024;
+
+// File extensions Whisper uses to detect the audio format
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/m4a": "m4a",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/webm": "webm",
+  "audio/flac": "flac",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+
+// Formats made of independent frames, which stay playable when cut between frames
+const FRAMED_AUDIO_TYPES = ["audio/mpeg", "audio/mp3"];
+const WAV_AUDIO_TYPES = ["audio/wav", "audio/x-wav"];
+// MP4 containers, whose audio track is copied into new files sample by sample
+const MP4_AUDIO_TYPES = ["audio/mp4", "audio/x-m4a", "audio/m4a", "video/mp4"];
+
+// MP3 bitrates in kbps by bitrate index, for MPEG-1 and for MPEG-2 and 2.5, by layer
+const MP3_BITRATES: Record<"mpeg1" | "mpeg2", Record<number, number[]>> = {
+  mpeg1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  mpeg2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+};
+
+// MP3 sample rates by sample rate index, for each version bit pattern
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000], // MPEG-2.5
+  2: [22050, 24000, 16000], // MPEG-2
+  3: [44100, 48000, 32000], // MPEG-1
+};
+
+/**
+ * A part of an audio file small enough for Whisper
+ */
+export interface AudioChunk {
+  data: Buffer;
+  // Length of the part in seconds, or null when the audio was not split
+  duration: number | null;
+}
+
+interface Mp3Frame {
+  offset: number;
+  length: number;
+  duration: number;
+}
+
+/**
+ * A box of an MP4 file: its type and where its contents start and end
+ */
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The audio track of an MP4 file, one entry per sample
+ */
+interface Mp4AudioTrack {
+  timescale: number;
+  // The sample description box, copied as is into each part
+  sampleDescription: Buffer;
+  offsets: number[];
+  sizes: number[];
+  durations: number[];
+}
+
+/**
+ * Work out the MIME type of an audio file from its Content-Type header,
+ * falling back to the extension in its URL or file name
+ */
+export function getAudioMimeType(name: string, contentType?: string | null): string | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type && AUDIO_EXTENSIONS[type]) return type;
+
+  const extension = name.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  const match = Object.keys(AUDIO_EXTENSIONS).find(key => AUDIO_EXTENSIONS[key] === extension);
+  return match || null;
+}
+
+/**
+ * Get the file extension Whisper expects for an audio MIME type
+ */
+export function getAudioExtension(mimeType: string): string {
+  return AUDIO_EXTENSIONS[mimeType] || "mp3";
+}
+
+/**
+ * Whether audio of this type can be split into parts Whisper accepts
+ */
+export function canSplitAudio(mimeType: string): boolean {
+  return [...FRAMED_AUDIO_TYPES, ...WAV_AUDIO_TYPES, ...MP4_AUDIO_TYPES].includes(mimeType);
+}
+
+/**
+ * Read the MP3 frame header at `offset`
+ * @returns The frame's length and duration, or null if no valid header starts there
+ */
+function readMp3Frame(data: Buffer, offset: number): Omit<Mp3Frame, "offset"> | null {
+  if (offset + 4 > data.length || data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (data[offset + 1] >> 3) & 0x03;
+  const layer = 4 - ((data[offset + 1] >> 1) & 0x03);
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const bitrate = MP3_BITRATES[version === 3 ? "mpeg1" : "mpeg2"][layer][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const samples = layer === 1 ? 384 : layer === 3 && version !== 3 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+
+  return { length, duration: samples / sampleRate };
+}
+
+/**
+ * Call `onFrame` for each frame of MP3 audio in order, skipping a leading
+ * ID3v2 tag and any bytes that are not part of a frame
+ */
+function forEachMp3Frame(data: Buffer, onFrame: (frame: Mp3Frame) => void): void {
+  let offset = 0;
+  if (data.toString("ascii", 0, 3) === "ID3" && data.length >= 10) {
+    // The tag size is stored in four 7-bit bytes; a footer adds another 10 bytes
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    offset = 10 + size + (data[5] & 0x10 ? 10 : 0);
+  }
+
+  let synced = false;
+  while (offset + 4 <= data.length) {
+    const frame = readMp3Frame(data, offset);
+    // After a gap, only trust a header that is followed by another frame
+    const trusted = frame && offset + frame.length <= data.length && (
+      synced || offset + frame.length === data.length || readMp3Frame(data, offset + frame.length)
+    );
+    if (frame && trusted) {
+      onFrame({ offset, ...frame });
+      offset += frame.length;
+      synced = true;
+    } else {
+      offset++;
+      synced = false;
+    }
+  }
+}
+
+/**
+ * Split MP3 audio between frames into chunks of at most `maxBytes`, adding
+ * up the duration of each chunk's frames
+ */
+function splitMp3(data: Buffer, maxBytes: number): AudioChunk[] | null {
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+  let duration = 0;
+  let frames = 0;
+
+  forEachMp3Frame(data, frame => {
+    if (frame.offset + frame.length - start > maxBytes && frame.offset > start) {
+      chunks.push({ data: data.subarray(start, frame.offset), duration });
+      start = frame.offset;
+      duration = 0;
+    }
+    duration += frame.duration;
+    frames++;
+  });
+
+  if (frames === 0) return null;
+  chunks.push({ data: data.subarray(start), duration });
+  return chunks;
+}
+
+/**
+ * Split PCM WAV audio into chunks of whole sample frames, each with its own
+ * copy of the header
+ */
+function splitWav(data: Buffer, maxBytes: number): AudioChunk[] | null {
+  if (data.toString("ascii", 0, 4) !== "RIFF" || data.toString("ascii", 8, 12) !== "WAVE") return null;
+
+  let byteRate = 0;
+  let blockAlign = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = data.toString("ascii", offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    if (id === "fmt ") {
+      byteRate = data.readUInt32LE(offset + 16);
+      blockAlign = data.readUInt16LE(offset + 20);
+    } else if (id === "data") {
+      if (!blockAlign || !byteRate) return null;
+
+      const header = data.subarray(0, offset + 8);
+      const samples = data.subarray(offset + 8, Math.min(offset + 8 + size, data.length));
+      const samplesPerChunk = Math.floor((maxBytes - header.length) / blockAlign) * blockAlign;
+      if (samplesPerChunk <= 0) return null;
+
+      const chunks: AudioChunk[] = [];
+      for (let start = 0; start < samples.length; start += samplesPerChunk) {
+        const part = samples.subarray(start, start + samplesPerChunk);
+        const chunkHeader = Buffer.from(header);
+        chunkHeader.writeUInt32LE(header.length - 8 + part.length, 4);
+        chunkHeader.writeUInt32LE(part.length, header.length - 4);
+        chunks.push({ data: Buffer.concat([chunkHeader, part]), duration: part.length / byteRate });
+      }
+      return chunks;
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * Read the boxes between `start` and `end`
+ * @returns The boxes, or null if one of them overruns the range
+ */
+function readMp4Boxes(data: Buffer, start: number, end: number): Mp4Box[] | null {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      // 64-bit size after the type
+      if (offset + 16 > end) return null;
+      size = data.readUInt32BE(offset + 8) * 0x100000000 + data.readUInt32BE(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      // The box runs to the end of its parent
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) return null;
+
+    boxes.push({ type: data.toString("latin1", offset + 4, offset + 8), start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * Find the box at `path` below `parent`, e.g. `["mdia", "minf", "stbl"]`
+ */
+function findMp4Box(data: Buffer, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let box: Mp4Box | null = parent;
+  for (const type of path) {
+    const children: Mp4Box[] | null = readMp4Boxes(data, box.start, box.end);
+    box = children?.find(child => child.type === type) || null;
+    if (!box) return null;
+  }
+  return box;
+}
+
+/**
+ * Read the sample table of the first audio track of an MP4 file
+ * @returns The track, or null if the file has none or keeps its samples in
+ * fragments
+ */
+function readMp4AudioTrack(data: Buffer): Mp4AudioTrack | null {
+  const moov = readMp4Boxes(data, 0, data.length)?.find(box => box.type === "moov");
+  const traks = moov ? readMp4Boxes(data, moov.start, moov.end)?.filter(box => box.type === "trak") : null;
+  // The handler type follows the version, flags and a reserved field
+  const trak = traks?.find(box => {
+    const hdlr = findMp4Box(data, box, ["mdia", "hdlr"]);
+    return hdlr !== null && data.toString("latin1", hdlr.start + 8, hdlr.start + 12) === "soun";
+  });
+  if (!trak) return null;
+
+  const mdhd = findMp4Box(data, trak, ["mdia", "mdhd"]);
+  const stbl = findMp4Box(data, trak, ["mdia", "minf", "stbl"]);
+  const table = stbl ? readMp4Boxes(data, stbl.start, stbl.end) : null;
+  const stsd = table?.find(box => box.type === "stsd");
+  const stts = table?.find(box => box.type === "stts");
+  const stsc = table?.find(box => box.type === "stsc");
+  const stsz = table?.find(box => box.type === "stsz");
+  const chunkOffsets = table?.find(box => box.type === "stco" || box.type === "co64");
+  if (!mdhd || !stsd || !stts || !stsc || !stsz || !chunkOffsets) return null;
+
+  // Version 1 headers use 64-bit creation and modification times
+  const timescaleOffset = mdhd.start + (data[mdhd.start] === 1 ? 20 : 12);
+  if (timescaleOffset + 4 > mdhd.end || stsz.start + 12 > stsz.end) return null;
+  const timescale = data.readUInt32BE(timescaleOffset);
+  const sampleCount = data.readUInt32BE(stsz.start + 8);
+  const fixedSize = data.readUInt32BE(stsz.start + 4);
+  const entrySize = chunkOffsets.type === "co64" ? 8 : 4;
+  const tablesFit = (fixedSize || stsz.start + 12 + sampleCount * 4 <= stsz.end) &&
+    stts.start + 8 <= stts.end && stts.start + 8 + data.readUInt32BE(stts.start + 4) * 8 <= stts.end &&
+    stsc.start + 8 <= stsc.end && stsc.start + 8 + data.readUInt32BE(stsc.start + 4) * 12 <= stsc.end &&
+    chunkOffsets.start + 8 <= chunkOffsets.end &&
+    chunkOffsets.start + 8 + data.readUInt32BE(chunkOffsets.start + 4) * entrySize <= chunkOffsets.end;
+  if (!timescale || sampleCount === 0 || !tablesFit) return null;
+
+  const sizes: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(fixedSize || data.readUInt32BE(stsz.start + 12 + i * 4));
+  }
+
+  const durations: number[] = [];
+  for (let entry = 0, entries = data.readUInt32BE(stts.start + 4); entry < entries; entry++) {
+    const count = data.readUInt32BE(stts.start + 8 + entry * 8);
+    const delta = data.readUInt32BE(stts.start + 12 + entry * 8);
+    for (let i = 0; i < count && durations.length < sampleCount; i++) durations.push(delta);
+  }
+
+  // Samples are stored in chunks; runs of chunks share a samples-per-chunk count
+  const chunkCount = data.readUInt32BE(chunkOffsets.start + 4);
+  const runs = data.readUInt32BE(stsc.start + 4);
+  const offsets: number[] = [];
+  for (let run = 0; run < runs; run++) {
+    const firstChunk = data.readUInt32BE(stsc.start + 8 + run * 12);
+    const samplesPerChunk = data.readUInt32BE(stsc.start + 12 + run * 12);
+    const nextChunk = run + 1 < runs ? data.readUInt32BE(stsc.start + 20 + run * 12) : chunkCount + 1;
+    for (let chunk = Math.max(firstChunk, 1); chunk < Math.min(nextChunk, chunkCount + 1); chunk++) {
+      const entry = chunkOffsets.start + 8 + (chunk - 1) * entrySize;
+      let offset = entrySize === 8
+        ? data.readUInt32BE(entry) * 0x100000000 + data.readUInt32BE(entry + 4)
+        : data.readUInt32BE(entry);
+      for (let i = 0; i < samplesPerChunk && offsets.length < sampleCount; i++) {
+        offsets.push(offset);
+        offset += sizes[offsets.length - 1];
+      }
+    }
+  }
+
+  const complete = offsets.length === sampleCount && durations.length === sampleCount &&
+    offsets.every((offset, i) => offset + sizes[i] <= data.length);
+  if (!complete) return null;
+
+  return {
+    timescale,
+    sampleDescription: data.subarray(stsd.start - 8, stsd.end),
+    offsets,
+    sizes,
+    durations,
+  };
+}
+
+/**
+ * Build an MP4 box from its type and contents
+ */
+function mp4Box(type: string, ...contents: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 4, "latin1");
+  const box = Buffer.concat([header, ...contents]);
+  box.writeUInt32BE(box.length, 0);
+  return box;
+}
+
+/**
+ * Encode numbers as consecutive 32-bit big-endian integers
+ */
+function uint32s(values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+  return buffer;
+}
+
+// Identity transformation matrix of movie and track headers
+const MP4_MATRIX = uint32s([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]);
+
+/**
+ * Build the movie box of an M4A file holding `samples` of `track`, stored in
+ * one chunk at `dataOffset`
+ */
+function buildMp4Movie(track: Mp4AudioTrack, samples: number[], dataOffset: number): Buffer {
+  const duration = samples.reduce((total, i) => total + track.durations[i], 0);
+
+  // Time-to-sample entries for each run of samples with the same duration
+  const timeToSample: number[] = [];
+  samples.forEach((sample, i) => {
+    const delta = track.durations[sample];
+    if (i > 0 && timeToSample[timeToSample.length - 1] === delta) {
+      timeToSample[timeToSample.length - 2]++;
+    } else {
+      timeToSample.push(1, delta);
+    }
+  });
+
+  const sampleTable = mp4Box(
+    "stbl",
+    track.sampleDescription,
+    mp4Box("stts", uint32s([0, timeToSample.length / 2, ...timeToSample])),
+    mp4Box("stsc", uint32s([0, 1, 1, samples.length, 1])),
+    mp4Box("stsz", uint32s([0, 0, samples.length, ...samples.map(i => track.sizes[i])])),
+    mp4Box("stco", uint32s([0, 1, dataOffset]))
+  );
+  const handler = Buffer.concat([uint32s([0, 0]), Buffer.from("soun", "latin1"), Buffer.alloc(12), Buffer.from("SoundHandler\0", "latin1")]);
+  const dataReference = mp4Box("dref", uint32s([0, 1]), mp4Box("url ", uint32s([1])));
+
+  return mp4Box(
+    "moov",
+    mp4Box("mvhd", uint32s([0, 0, 0, track.timescale, duration, 0x00010000]), Buffer.from([1, 0]), Buffer.alloc(10), MP4_MATRIX, Buffer.alloc(24), uint32s([2])),
+    mp4Box(
+      "trak",
+      mp4Box("tkhd", uint32s([3, 0, 0, 1, 0, duration, 0, 0, 0]), Buffer.from([1, 0, 0, 0]), MP4_MATRIX, uint32s([0, 0])),
+      mp4Box(
+        "mdia",
+        // Language "und"
+        mp4Box("mdhd", uint32s([0, 0, 0, track.timescale, duration]), Buffer.from([0x55, 0xc4, 0, 0])),
+        mp4Box("hdlr", handler),
+        mp4Box("minf", mp4Box("smhd", uint32s([0, 0])), mp4Box("dinf", dataReference), sampleTable)
+      )
+    )
+  );
+}
+
+/**
+ * Copy the audio track of an MP4 file into M4A files of at most `maxBytes`,
+ * each holding whole samples, and drop any other tracks
+ */
+function splitMp4(data: Buffer, maxBytes: number): AudioChunk[] | null {
+  const track = readMp4AudioTrack(data);
+  if (!track) return null;
+
+  const fileType = mp4Box("ftyp", Buffer.from("M4A ", "latin1"), uint32s([0x200]), Buffer.from("M4A mp42isom", "latin1"));
+  const build = (samples: number[]): AudioChunk => {
+    const headerSize = fileType.length + buildMp4Movie(track, samples, 0).length + 8;
+    const media = Buffer.concat(samples.map(i => data.subarray(track.offsets[i], track.offsets[i] + track.sizes[i])));
+    return {
+      data: Buffer.concat([fileType, buildMp4Movie(track, samples, headerSize), mp4Box("mdat", media)]),
+      duration: samples.reduce((total, i) => total + track.durations[i], 0) / track.timescale,
+    };
+  };
+
+  // Each sample adds its data and at most 12 bytes to the sample tables
+  const emptySize = fileType.length + buildMp4Movie(track, [], 0).length + 8;
+  const chunks: AudioChunk[] = [];
+  let samples: number[] = [];
+  let size = emptySize;
+  for (let i = 0; i < track.sizes.length; i++) {
+    const sampleSize = track.sizes[i] + 12;
+    if (size + sampleSize > maxBytes && samples.length > 0) {
+      chunks.push(build(samples));
+      samples = [];
+      size = emptySize;
+    }
+    if (size + sampleSize > maxBytes) return null;
+    samples.push(i);
+    size += sampleSize;
+  }
+  chunks.push(build(samples));
+  return chunks;
+}
+
+/**
+ * Split audio into chunks no larger than `maxBytes`, with the duration of
+ * each. MP3 audio is cut between frames, WAV audio between sample frames and
+ * the audio track of MP4 files between samples; other formats cannot be cut
+ * without decoding them and are rejected when they are too large.
+ */
+export function splitAudio(
+  data: Buffer,
+  mimeType: string,
+  maxBytes: number = WHISPER_MAX_FILE_SIZE
+): AudioChunk[] {
+  if (data.length <= maxBytes) return [{ data, duration: null }];
+
+  const chunks = WAV_AUDIO_TYPES.includes(mimeType)
+    ? splitWav(data, maxBytes)
+    : FRAMED_AUDIO_TYPES.includes(mimeType)
+      ? splitMp3(data, maxBytes)
+      : MP4_AUDIO_TYPES.includes(mimeType) ? splitMp4(data, maxBytes) : null;
+  if (!chunks) {
+    throw new AppError(
+      "Audio is too large to transcribe; only MP3, WAV, M4A and MP4 audio can be split",
+      ErrorCode.VIDEO_PROCESSING_FAILED,
+      HttpStatus.BAD_REQUEST,
+      { maxBytes, mimeType }
+    );
+  }
+  return chunks;
+}
@@ -0,0 +1,47 @@
+import { User } from "@supabase/supabase-js";
+import { DatabaseService } from "@/lib/services/DatabaseService";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { logger } from "@/lib/utils/logger";
+import { createServerSupabaseClient } from "@/lib/utils/supabase/server";
+
+/**
+ * Resolve the signed-in user of the current request
+ * @returns The user, or null when the request has no valid session
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const { data: { user } } = await createServerSupabaseClient().auth.getUser();
+  return user;
+}
+
+/**
+ * Resolve the signed-in user of the current request, creating their profile
+ * the first time they are seen
+ * @throws AppError with status 401 when nobody is signed in
+ */
+export async function requireUser(): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new AppError(
+      "You must be signed in",
+      ErrorCode.AUTH_UNAUTHORIZED,
+      HttpStatus.UNAUTHORIZED
+    );
+  }
+
+  await ensureProfile(user);
+  return user;
+}
+
+/**
+ * Create the profile of a user who signed in for the first time
+ */
+export async function ensureProfile(user: User): Promise<void> {
+  const db = new DatabaseService("Auth");
+  if (await db.getProfile(user.id)) return;
+
+  const name = typeof user.user_metadata?.name === "string" && user.user_metadata.name.trim()
+    ? user.user_metadata.name.trim()
+    : user.email?.split("@")[0] || null;
+  await db.upsertProfile({ id: user.id, name });
+  logger.info("Created profile", { userId: user.id });
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { ErrorCode } from "@/lib/types/errors";
+import { ConcurrencyLimiter } from "./concurrency";
+
+describe("ConcurrencyLimiter", () => {
+  it("runs nested tasks in the slot their caller holds", async () => {
+    // With no queue, a nested task that waited for a slot would be refused
+    const limiter = new ConcurrencyLimiter("test", 1, 0);
+
+    const result = await limiter.run(() => limiter.run(async () => "nested"));
+
+    expect(result).toBe("nested");
+  });
+
+  it("still limits tasks that do not hold a slot", async () => {
+    const limiter = new ConcurrencyLimiter("test", 1, 0);
+    let finish = () => {};
+    const running = limiter.run(() => new Promise<void>(resolve => (finish = resolve)));
+
+    await expect(limiter.run(async () => "other")).rejects.toMatchObject({
+      code: ErrorCode.API_QUEUE_FULL,
+    });
+
+    finish();
+    await running;
+    await expect(limiter.run(async () => "other")).resolves.toBe("other");
+  });
+});
@@ -0,0 +1,211 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { logger, Logger } from "./logger";
+
+/**
+ * Concurrency settings for transcript and LLM calls
+ */
+export interface ProcessingLimits {
+  transcriptConcurrency: number;
+  llmConcurrency: number;
+  queueDepth: number;
+}
+
+const DEFAULT_PROCESSING_LIMITS: ProcessingLimits = {
+  transcriptConcurrency: 2,
+  llmConcurrency: 4,
+  queueDepth: 50,
+};
+
+// Limiters whose slot the current task holds
+const heldSlots = new AsyncLocalStorage<Set<ConcurrencyLimiter>>();
+
+/**
+ * Runs at most `concurrency` tasks at once. Further tasks wait in a queue of
+ * at most `maxQueue`; beyond that they are rejected with a 503 so callers can
+ * try again later instead of piling up.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private logger: Logger;
+
+  constructor(
+    readonly name: string,
+    private concurrency: number,
+    private maxQueue: number
+  ) {
+    this.logger = logger.withContext({ limiter: name });
+  }
+
+  /**
+   * Run a task once a slot is free. A task that already holds a slot runs
+   * nested tasks in that slot, so it never waits for itself.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const held = heldSlots.getStore();
+    if (held?.has(this)) {
+      return task();
+    }
+
+    const release = await this.acquire();
+    try {
+      return await heldSlots.run(new Set(held).add(this), task);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Open a stream once a slot is free, holding the slot until the stream
+   * has been read to the end or abandoned
+   */
+  async runStream<T>(open: () => Promise<AsyncIterable<T>>): Promise<AsyncIterable<T>> {
+    const release = await this.acquire();
+    try {
+      return releaseWhenDone(await open(), release);
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  private acquire(): Promise<() => void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      this.logger.warn("Queue is full", { active: this.active, queued: this.queue.length });
+      return Promise.reject(
+        new AppError(
+          "The server is busy processing other requests. Please try again shortly.",
+          ErrorCode.API_QUEUE_FULL,
+          HttpStatus.SERVICE_UNAVAILABLE,
+          { limiter: this.name, queueDepth: this.maxQueue }
+        )
+      );
+    }
+
+    this.logger.info("Waiting for a free slot", { active: this.active, queued: this.queue.length + 1 });
+    return new Promise(resolve => {
+      this.queue.push(() => resolve(this.createRelease()));
+    });
+  }
+
+  // Releasing hands the slot straight to the next queued task
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+/**
+ * Yield the items of a stream, then release its slot
+ */
+async function* releaseWhenDone<T>(items: AsyncIterable<T>, release: () => void): AsyncIterable<T> {
+  try {
+    for await (const item of items) {
+      yield item;
+    }
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Shares the result of a running task with every caller that asks for the
+ * same key while it runs
+ */
+export class InFlightRequests<T> {
+  private requests = new Map<string, Promise<T>>();
+
+  /**
+   * The running task for a key, if any
+   */
+  get(key: string): Promise<T> | undefined {
+    return this.requests.get(key);
+  }
+
+  /**
+   * Run `task` for a key, or wait for the one already running
+   */
+  run(key: string, task: () => Promise<T>): Promise<T> {
+    const running = this.requests.get(key);
+    if (running) return running;
+
+    const request = task().finally(() => this.requests.delete(key));
+    this.requests.set(key, request);
+    return request;
+  }
+}
+
+/**
+ * Read the concurrency settings from the environment.
+ *
+ * `TRANSCRIPT_CONCURRENCY` and `LLM_CONCURRENCY` set how many transcript
+ * fetches and LLM requests run at once, `PROCESSING_QUEUE_DEPTH` how many of
+ * each may wait for a slot.
+ */
+export function getProcessingLimits(
+  env: Record<string, string | undefined> = process.env
+): ProcessingLimits {
+  const read = (name: string, fallback: number, min: number): number => {
+    const value = env[name];
+    if (value === undefined || value === "") return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new AppError(
+        `${name} must be a whole number of at least ${min}`,
+        ErrorCode.VALIDATION_INVALID_FORMAT,
+        HttpStatus.INTERNAL_ERROR,
+        { value }
+      );
+    }
+    return parsed;
+  };
+
+  return {
+    transcriptConcurrency: read("TRANSCRIPT_CONCURRENCY", DEFAULT_PROCESSING_LIMITS.transcriptConcurrency, 1),
+    llmConcurrency: read("LLM_CONCURRENCY", DEFAULT_PROCESSING_LIMITS.llmConcurrency, 1),
+    queueDepth: read("PROCESSING_QUEUE_DEPTH", DEFAULT_PROCESSING_LIMITS.queueDepth, 0),
+  };
+}
+
+// Shared by every request handled by this server process
+let transcriptLimiter: ConcurrencyLimiter | undefined;
+let llmLimiter: ConcurrencyLimiter | undefined;
+
+/**
+ * Limiter shared by all transcript fetches
+ */
+export function getTranscriptLimiter(): ConcurrencyLimiter {
+  if (!transcriptLimiter) {
+    const limits = getProcessingLimits();
+    transcriptLimiter = new ConcurrencyLimiter("transcripts", limits.transcriptConcurrency, limits.queueDepth);
+  }
+  return transcriptLimiter;
+}
+
+/**
+ * Limiter shared by all LLM requests
+ */
+export function getLLMLimiter(): ConcurrencyLimiter {
+  if (!llmLimiter) {
+    const limits = getProcessingLimits();
+    llmLimiter = new ConcurrencyLimiter("llm", limits.llmConcurrency, limits.queueDepth);
+  }
+  return llmLimiter;
+}
@@ -0,0 +1,105 @@
+import { ImportFormat } from "@/lib/types/import";
+import { getAttribute } from "@/lib/utils/xml";
+
+// CSV headers naming the column that holds the links
+const URL_COLUMNS = ["url", "link", "href", "address", "website", "feed", "xmlurl"];
+
+/**
+ * Split CSV text into rows of cells, handling quoted cells with commas,
+ * doubled quotes and line breaks
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+
+  return rows
+    .map(cells => cells.map(value => value.trim()))
+    .filter(cells => cells.some(value => value.length > 0));
+}
+
+/**
+ * Find the index of the link column in a CSV header row
+ */
+function findUrlColumn(header: string[]): number {
+  return header.findIndex(name => URL_COLUMNS.includes(name.toLowerCase().replace(/[\s_-]/g, "")));
+}
+
+/**
+ * Work out the format of an import from its file name, falling back to its
+ * contents: OPML documents and CSV files with a link column are recognized,
+ * anything else is a list of links
+ */
+export function detectImportFormat(content: string, fileName?: string): ImportFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "opml" || /^\s*(<\?xml[^>]*>\s*)?<opml[\s>]/i.test(content)) return "opml";
+  if (extension === "csv") return "csv";
+
+  const [header] = parseCsv(content.split("\n")[0] || "");
+  return header && header.length > 1 && findUrlColumn(header) !== -1 ? "csv" : "list";
+}
+
+/**
+ * Pull the links out of pasted text or an imported file
+ * @param content - Newline-separated links, a CSV file or an OPML document
+ * @param fileName - Name of the imported file, if any, to tell its format
+ * @returns The links as written, in order; they still need to be validated
+ */
+export function parseImportedLinks(
+  content: string,
+  fileName?: string
+): { format: ImportFormat; links: string[] } {
+  const text = content.replace(/^\uFEFF/, "");
+  const format = detectImportFormat(text, fileName);
+
+  if (format === "opml") {
+    // Feeds are listed as <outline xmlUrl="..."/>, plain links as <outline type="link" url="..."/>
+    const links = (text.match(/<outline\s[^>]*>/gi) || [])
+      .map(tag => getAttribute(tag, "outline", "xmlUrl") || getAttribute(tag, "outline", "url"))
+      .filter((link): link is string => !!link);
+    return { format, links };
+  }
+
+  if (format === "csv") {
+    const rows = parseCsv(text);
+    const column = rows.length > 0 ? findUrlColumn(rows[0]) : -1;
+    // Without a recognized header, take the first cell that looks like a link
+    const links = column !== -1
+      ? rows.slice(1).map(cells => cells[column] || "")
+      : rows.map(cells => cells.find(value => /^(https?:\/\/|www\.)/i.test(value)) || cells[0]);
+    return { format, links: links.filter(link => link.length > 0) };
+  }
+
+  const links = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith("#"));
+  return { format, links };
+}
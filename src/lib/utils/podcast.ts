@@ -0,0 +1,25 @@
+import { isYouTubeHost } from "@/lib/utils/youtube";
+
+/**
+ * Parse a link to a podcast feed, episode page or episode audio file, or an
+ * article. Any http(s) URL outside YouTube qualifies; what it points to is
+ * only known once it is fetched. The scheme may be omitted.
+ * @returns The normalized URL, or null
+ */
+export function parsePodcastUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+  // Hostnames without a dot are not public sites
+  if (!url.hostname.includes(".") || isYouTubeHost(url.hostname)) return null;
+
+  return url.toString();
+}
@@ -0,0 +1,48 @@
+import { Tables } from "@/lib/types/database";
+
+type TableName = keyof Tables;
+
+/**
+ * Columns of each table, as in `Database`. Fields outside this list, such as
+ * the joined `channel` of a video, are never written to a table.
+ */
+export const TABLE_COLUMNS: { [Table in TableName]: (keyof Tables[Table]['Row'])[] } = {
+  profiles: ["id", "name", "created_at"],
+  channels: ["id", "name", "url", "subscriber_count", "created_at"],
+  videos: [
+    "id", "channel_id", "content_type", "unique_identifier", "title", "url", "transcript_path",
+    "transcript_provider", "language", "metadata", "published_at", "last_updated", "created_at",
+  ],
+  user_summaries: [
+    "id", "user_id", "video_id", "summary", "detailed_summary", "tags", "content_summary_id",
+    "created_at", "updated_at",
+  ],
+  content_summaries: [
+    "id", "content_id", "prompt_version", "summary", "detailed_summary", "tags", "created_at", "updated_at",
+  ],
+  playlists: [
+    "id", "user_id", "playlist_id", "title", "url", "provider", "status", "synthesis", "created_at", "updated_at",
+  ],
+  playlist_items: ["id", "playlist_id", "video_id", "title", "position", "status", "summary_id", "error", "updated_at"],
+  jobs: [
+    "id", "user_id", "type", "input", "status", "stage", "error", "result_id", "heartbeat_at", "created_at", "updated_at",
+  ],
+  tags: ["id", "name"],
+  content_tags: ["content_id", "tag_id", "content_type"],
+  subscriptions: ["id", "user_id", "subscription_type", "subscription_id", "created_at"],
+  content_questions: ["id", "user_id", "content_id", "question", "response", "citations", "created_at"],
+};
+
+/**
+ * Keep only the fields of a record that are columns of `table`, dropping
+ * joined records and undefined values
+ */
+export function pickColumns(table: TableName, record: object): Record<string, unknown> {
+  const values = record as Record<string, unknown>;
+  const columns = TABLE_COLUMNS[table] as string[];
+  return Object.fromEntries(
+    columns
+      .filter(column => values[column] !== undefined)
+      .map(column => [column, values[column]])
+  );
+}
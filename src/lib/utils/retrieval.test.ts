@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { buildTranscriptChunks, retrieveChunks, TranscriptChunk } from "./retrieval";
+
+const chunk = (index: number, text: string): TranscriptChunk => ({ start: index * 10, end: index * 10 + 10, text });
+
+// Filler shared by every chunk, so that only the topic words set them apart
+const FILLER = "we talk about the weather and then move on";
+
+const chunks = [
+  chunk(0, `${FILLER} introduction to the show`),
+  chunk(1, `${FILLER} bread baking needs flour water and yeast`),
+  chunk(2, `${FILLER} gardening tips for tomatoes`),
+  chunk(3, `${FILLER} sourdough bread uses a starter instead of yeast, sourdough sourdough`),
+  chunk(4, `${FILLER} a short history of bicycles`),
+  chunk(5, `${FILLER} cycling uphill`),
+  chunk(6, `${FILLER} closing remarks`),
+];
+
+describe("buildTranscriptChunks", () => {
+  it("groups segments in time order into chunks within the token budget", () => {
+    const result = buildTranscriptChunks(
+      [
+        { start: 10, end: 20, text: " second part " },
+        { start: 0, end: 10, text: "first part" },
+        { start: 20, end: 30, text: "x".repeat(40) },
+      ],
+      8
+    );
+
+    expect(result).toEqual([
+      { start: 0, end: 20, text: "first part second part" },
+      { start: 20, end: 30, text: "x".repeat(40) },
+    ]);
+  });
+});
+
+describe("retrieveChunks", () => {
+  it("returns every chunk when there are no more than the limit", () => {
+    expect(retrieveChunks(chunks.slice(0, 3), "anything", 3)).toEqual(chunks.slice(0, 3));
+  });
+
+  it("returns the best matching chunks in transcript order", () => {
+    const result = retrieveChunks(chunks, "How do I make sourdough bread?", 2);
+
+    expect(result).toEqual([chunks[1], chunks[3]]);
+  });
+
+  it("ranks rare and repeated terms above common ones", () => {
+    // "bread" appears in two chunks, "sourdough" only in one, three times
+    expect(retrieveChunks(chunks, "sourdough bread", 1)).toEqual([chunks[3]]);
+    // A term found in every chunk does not tell them apart
+    expect(retrieveChunks(chunks, "weather bicycles", 1)).toEqual([chunks[4]]);
+  });
+
+  it("ignores case, punctuation and stop words", () => {
+    expect(retrieveChunks(chunks, "What is THE history of... BICYCLES?", 1)).toEqual([chunks[4]]);
+  });
+
+  it("spreads chunks across the transcript when nothing matches", () => {
+    const result = retrieveChunks(chunks, "What is this?", 3);
+
+    expect(result.map(found => found.start)).toEqual([0, 20, 40]);
+  });
+});
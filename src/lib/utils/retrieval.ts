@@ -0,0 +1,113 @@
+import { TranscriptSegment } from "@/lib/types/storage";
+import { estimateTokens } from "./tokens";
+import { sortSegments } from "./transcript";
+
+/**
+ * A window of consecutive transcript segments used as a retrieval unit
+ */
+export interface TranscriptChunk {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "did", "do", "does", "for",
+  "from", "how", "i", "in", "is", "it", "of", "on", "or", "so", "that", "the", "this",
+  "to", "was", "what", "when", "where", "which", "who", "why", "with", "you",
+]);
+
+// BM25 parameters
+const K1 = 1.5;
+const B = 0.75;
+
+/**
+ * Split text into lowercase search terms, dropping stop words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Group transcript segments into chunks of roughly `maxTokens` tokens
+ */
+export function buildTranscriptChunks(segments: TranscriptSegment[], maxTokens = 300): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptSegment[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map(segment => segment.text.trim()).join(" "),
+    });
+    current = [];
+    tokens = 0;
+  };
+
+  for (const segment of sortSegments(segments)) {
+    const segmentTokens = estimateTokens(segment.text);
+    if (tokens + segmentTokens > maxTokens) flush();
+    current.push(segment);
+    tokens += segmentTokens;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Rank chunks against a query with BM25 and return the best matches in
+ * transcript order. When nothing matches (e.g. "what is this about?"),
+ * chunks spread evenly across the transcript are returned instead.
+ */
+export function retrieveChunks(chunks: TranscriptChunk[], query: string, limit = 5): TranscriptChunk[] {
+  if (chunks.length <= limit) return chunks;
+
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const documents = chunks.map(chunk => tokenize(chunk.text));
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of Array.from(new Set(terms))) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const scored = documents.map((terms, index) => {
+    const termFrequency = new Map<string, number>();
+    for (const term of terms) {
+      termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = termFrequency.get(term);
+      if (!frequency) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += idf * ((frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + B * (terms.length / averageLength))));
+    }
+
+    return { index, score };
+  });
+
+  const matches = scored
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.index);
+
+  const indexes = matches.length > 0
+    ? matches
+    : Array.from({ length: limit }, (_, i) => Math.floor((i * chunks.length) / limit));
+
+  return indexes.sort((a, b) => a - b).map(index => chunks[index]);
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ErrorCode } from "@/lib/types/errors";
+import { isPrivateAddress, publicLookup, safeFetch } from "./safeFetch";
+
+// Resolve every host to whatever address the test sets
+const resolved = vi.hoisted(() => ({ address: "93.184.216.34" }));
+vi.mock("dns", async importOriginal => {
+  const dns = await importOriginal<typeof import("dns")>();
+  return {
+    ...dns,
+    lookup: (_hostname: string, _options: object, callback: Function) =>
+      callback(null, [{ address: resolved.address, family: resolved.address.includes(":") ? 6 : 4 }]),
+  };
+});
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "169.254.169.254",
+    "::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "fd00::1",
+    "2002:7f00:1::",
+    "2002:a9fe:a9fe::1",
+    "2002::1",
+  ])("refuses %s", address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "2606:2800:220:1::1", "2002:5db8:d822::1"])("allows %s", address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("publicLookup", () => {
+  afterEach(() => {
+    resolved.address = "93.184.216.34";
+  });
+
+  it("passes on public addresses in the form asked for", () => {
+    const callback = vi.fn();
+    publicLookup("example.com", {}, callback);
+    expect(callback).toHaveBeenCalledWith(null, "93.184.216.34", 4);
+
+    publicLookup("example.com", { all: true }, callback);
+    expect(callback).toHaveBeenLastCalledWith(null, [{ address: "93.184.216.34", family: 4 }]);
+  });
+
+  it("refuses hosts that resolve to private addresses", () => {
+    resolved.address = "10.0.0.5";
+    const callback = vi.fn();
+    publicLookup("internal.example.com", {}, callback);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ code: ErrorCode.FETCH_FORBIDDEN_URL }), []);
+  });
+});
+
+describe("safeFetch", () => {
+  afterEach(() => {
+    resolved.address = "93.184.216.34";
+  });
+
+  it("refuses private IP addresses without connecting", async () => {
+    await expect(safeFetch("http://169.254.169.254/latest/meta-data")).rejects.toMatchObject({
+      code: ErrorCode.FETCH_FORBIDDEN_URL,
+    });
+  });
+
+  it("refuses a host when the address it connects to is private", async () => {
+    resolved.address = "127.0.0.1";
+    await expect(safeFetch("http://rebinding.example.com/")).rejects.toMatchObject({
+      code: ErrorCode.FETCH_FORBIDDEN_URL,
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { lookup, LookupAddress, LookupOptions } from "dns";
+import { isIP } from "net";
+import { Agent, fetch as undiciFetch } from "undici";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+
+/**
+ * Options for fetching a user-supplied URL
+ */
+export interface SafeFetchOptions {
+  // Time allowed for the whole request, including reading the body
+  timeoutMs?: number;
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Only the default web ports are fetched
+const ALLOWED_PORTS = ["", "80", "443"];
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+/**
+ * Check whether an IPv4 address is loopback, private, link-local, shared,
+ * reserved or multicast
+ */
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/**
+ * Read the IPv4 address held in two hex groups of an IPv6 address
+ */
+function groupsToIPv4(highGroup: string, lowGroup: string): string {
+  const high = parseInt(highGroup, 16);
+  const low = parseInt(lowGroup, 16);
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+}
+
+/**
+ * Check whether an IP address is not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+
+  const ip = address.toLowerCase();
+  // IPv4-mapped addresses, written either way: ::ffff:127.0.0.1 or ::ffff:7f00:1
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) return isPrivateIPv4(groupsToIPv4(mappedHex[1], mappedHex[2]));
+  // 6to4 addresses carry an IPv4 address in their second and third groups;
+  // an empty group there is part of a "::" and so zero
+  if (ip.startsWith("2002:")) {
+    const groups = ip.split(":");
+    return isPrivateIPv4(groupsToIPv4(groups[1] || "0", groups[2] || "0"));
+  }
+
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd]/.test(ip) || // unique local
+    /^fe[89ab]/.test(ip) || // link-local
+    /^ff/.test(ip) || // multicast
+    ip.startsWith("64:ff9b:") // NAT64 can reach IPv4 private ranges
+  );
+}
+
+/**
+ * Error for a URL that safeFetch refuses to fetch
+ */
+function forbiddenUrl(url: string, reason: string): AppError {
+  return new AppError(
+    "This URL cannot be fetched",
+    ErrorCode.FETCH_FORBIDDEN_URL,
+    HttpStatus.BAD_REQUEST,
+    { url, reason }
+  );
+}
+
+/**
+ * Refuse URLs that could reach this server's network: other schemes,
+ * credentials, unusual ports, internal host names and non-public IP
+ * addresses. Host names are checked when they are resolved, by `agent`.
+ */
+function assertPublicUrl(url: URL): void {
+  const forbidden = (reason: string) => forbiddenUrl(url.toString(), reason);
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw forbidden("scheme");
+  if (url.username || url.password) throw forbidden("credentials");
+  if (!ALLOWED_PORTS.includes(url.port)) throw forbidden("port");
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || INTERNAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    throw forbidden("internal host");
+  }
+  if (isIP(host) && isPrivateAddress(host)) throw forbidden("private address");
+}
+
+/**
+ * Resolve a host name for a connection, refusing it if any of its addresses
+ * is not public. The connection is made to the address checked here, so a
+ * DNS server cannot answer differently between the check and the request.
+ */
+export function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error || addresses.length === 0) {
+      callback(
+        new AppError(
+          "Could not resolve host",
+          ErrorCode.FETCH_FAILED,
+          HttpStatus.BAD_REQUEST,
+          { host: hostname }
+        ),
+        []
+      );
+      return;
+    }
+    if (addresses.some(result => isPrivateAddress(result.address))) {
+      callback(forbiddenUrl(hostname, "private address"), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// Connections for user-supplied URLs, resolved through publicLookup
+const agent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Fetch a user-supplied URL without letting it reach private networks.
+ * Every redirect is checked before it is followed, and the request is
+ * aborted once `timeoutMs` has passed, even while the body is being read.
+ */
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, maxRedirects = DEFAULT_MAX_REDIRECTS, headers } = options;
+
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new AppError(
+      "Invalid URL",
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      HttpStatus.BAD_REQUEST,
+      { url: input }
+    );
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  // The timer keeps running while the caller reads the body; it must not keep the process alive
+  timer.unref?.();
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      assertPublicUrl(url);
+      // undici's Response is the one global fetch returns, typed separately
+      const response = (await undiciFetch(url.toString(), {
+        redirect: "manual",
+        signal: controller.signal,
+        headers,
+        dispatcher: agent,
+      })) as unknown as Response;
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      if (redirects >= maxRedirects) {
+        throw new AppError(
+          "Too many redirects",
+          ErrorCode.FETCH_FAILED,
+          HttpStatus.BAD_REQUEST,
+          { url: url.toString() }
+        );
+      }
+      url = new URL(location, url);
+    }
+  } catch (error) {
+    clearTimeout(timer);
+    if (error instanceof AppError) throw error;
+    // Refusals from publicLookup surface as the cause of a failed connection
+    if (error instanceof Error && error.cause instanceof AppError) throw error.cause;
+    if (controller.signal.aborted) {
+      throw new AppError(
+        "Timed out fetching URL",
+        ErrorCode.FETCH_TIMEOUT,
+        HttpStatus.GATEWAY_TIMEOUT,
+        { url: url.toString(), timeoutMs }
+      );
+    }
+    throw new AppError(
+      "Failed to fetch URL",
+      ErrorCode.FETCH_FAILED,
+      HttpStatus.SERVICE_UNAVAILABLE,
+      { url: url.toString(), details: String(error) }
+    );
+  }
+}
+
+/**
+ * Read a response body, refusing bodies over `maxBytes`
+ * @param description - What is being read, for the error message
+ */
+export async function readLimitedBody(
+  response: Response,
+  maxBytes: number,
+  description: string = "Response"
+): Promise<Buffer> {
+  const tooLarge = new AppError(
+    `${description} is too large`,
+    ErrorCode.FETCH_TOO_LARGE,
+    HttpStatus.BAD_REQUEST,
+    { maxBytes }
+  );
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge;
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge;
+      }
+      chunks.push(Buffer.from(value));
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    const timedOut = error instanceof Error && error.name === "AbortError";
+    throw new AppError(
+      timedOut ? "Timed out fetching URL" : "Failed to read response",
+      timedOut ? ErrorCode.FETCH_TIMEOUT : ErrorCode.FETCH_FAILED,
+      timedOut ? HttpStatus.GATEWAY_TIMEOUT : HttpStatus.SERVICE_UNAVAILABLE,
+      { url: response.url }
+    );
+  }
+
+  return Buffer.concat(chunks);
+}
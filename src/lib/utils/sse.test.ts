@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest";
+import { createEventStream } from "./sse";
+
+describe("createEventStream", () => {
+  it("ignores events sent after the client disconnects", async () => {
+    let disconnect = () => {};
+    const disconnected = new Promise<void>(resolve => (disconnect = resolve));
+    const onError = vi.fn();
+    let finished = false;
+
+    const stream = createEventStream(async send => {
+      send("token", { text: "before" });
+      await disconnected;
+      send("token", { text: "after" });
+      send("summary", {});
+      finished = true;
+    }, onError);
+
+    const reader = stream.getReader();
+    expect(new TextDecoder().decode((await reader.read()).value)).toContain("before");
+    await reader.cancel();
+    disconnect();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(finished).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+/**
+ * Function used by stream handlers to emit an event
+ */
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Response headers for server-sent event streams
+ */
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+/**
+ * Create a server-sent event stream driven by an async handler.
+ * The stream closes when the handler settles; a thrown error is
+ * passed to `onError` so it can be reported as a final event. Once the
+ * client disconnects, `send` does nothing, so the handler can run to the end.
+ */
+export function createEventStream(
+  handler: (send: SendEvent) => Promise<void>,
+  onError: (error: unknown, send: SendEvent) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // The stream was closed underneath us
+          closed = true;
+        }
+      };
+
+      try {
+        await handler(send);
+      } catch (error) {
+        onError(error, send);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
+
+/**
+ * Create a parser that splits server-sent event text into events. Text can be
+ * pushed in arbitrary pieces; call `flush` once the stream has ended.
+ * @param onEvent - Called for each complete event, in order
+ */
+export function createEventParser(onEvent: (event: ServerSentEvent) => void): {
+  push: (text: string) => void;
+  flush: () => void;
+} {
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (dataLines.length > 0) {
+      onEvent({ event, data: JSON.parse(dataLines.join("\n")) });
+    }
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+    },
+    flush() {
+      if (buffer.trim()) {
+        dispatch(buffer);
+      }
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * Read a server-sent event stream from a fetch response
+ * @param response - Response with a text/event-stream body
+ * @param onEvent - Called for each event, in order
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createEventParser(onEvent);
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+
+  parser.flush();
+}
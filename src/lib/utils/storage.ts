@@ -1,26 +1,64 @@
-import { StoredTranscript } from "@/lib/types/storage";
+import { StoredTranscript, TranscriptStorageBackend } from "@/lib/types/storage";
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+import { createTranscriptStorage } from "@/lib/services/TranscriptStorageService";
 
-// In-memory storage for transcripts
-const transcriptStore = new Map<string, StoredTranscript>();
+// Created on first use so that a misconfigured backend only fails the requests that need it
+let storage: TranscriptStorageBackend | null = null;
+
+const getStorage = (): TranscriptStorageBackend => {
+  storage = storage || createTranscriptStorage();
+  return storage;
+};
+
+/**
+ * Path a video's transcript is stored at, as recorded in `transcript_path`
+ */
+export const getTranscriptPath = (videoId: string): string => `transcripts/${videoId}.json`;
 
 /**
- * Store a transcript in memory
+ * Store a transcript at its transcript path, replacing any earlier version
  */
 export const storeTranscript = async (videoId: string, transcript: StoredTranscript): Promise<void> => {
-  transcriptStore.set(videoId, transcript);
+  await getStorage().write(getTranscriptPath(videoId), JSON.stringify(transcript));
 };
 
 /**
- * Retrieve a transcript from memory
+ * Retrieve a transcript from storage
  */
 export const getTranscript = async (videoId: string): Promise<StoredTranscript | null> => {
-  return transcriptStore.get(videoId) || null;
+  const stream = await getStorage().read(getTranscriptPath(videoId));
+  if (!stream) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  try {
+    const transcript = JSON.parse(Buffer.concat(chunks).toString("utf8")) as StoredTranscript;
+    // Dates are stored as ISO strings
+    transcript.metadata.last_updated = new Date(transcript.metadata.last_updated);
+    return transcript;
+  } catch (error) {
+    throw new AppError(
+      "Stored transcript is corrupted",
+      ErrorCode.STORAGE_DOWNLOAD_FAILED,
+      HttpStatus.INTERNAL_ERROR,
+      { videoId, details: String(error) }
+    );
+  }
 };
 
 /**
- * Check if a transcript exists in memory
+ * Check if a transcript exists in storage
  */
 export const transcriptExists = async (videoId: string): Promise<boolean> => {
-  return transcriptStore.has(videoId);
-};
\ No newline at end of file
+  return getStorage().exists(getTranscriptPath(videoId));
+};
+
+/**
+ * Delete a transcript from storage
+ */
+export const deleteTranscript = async (videoId: string): Promise<void> => {
+  await getStorage().delete(getTranscriptPath(videoId));
+};
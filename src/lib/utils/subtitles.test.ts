@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parseSubtitles } from "./subtitles";
+
+describe("parseSubtitles", () => {
+  it("reads SRT cue numbers, timings and multi-line text", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:04,500",
+      "Never gonna give you up,",
+      "never gonna let you down",
+      "",
+      "2",
+      "01:02:03,250 --> 01:02:05,000",
+      "Never gonna run around",
+      "",
+    ].join("\r\n");
+
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1, end: 4.5, text: "Never gonna give you up, never gonna let you down" },
+      { start: 3723.25, end: 3725, text: "Never gonna run around" },
+    ]);
+  });
+
+  it("reads WebVTT timings with and without hours, skipping the header, notes and cue settings", () => {
+    const vtt = `\uFEFFWEBVTT - Example
+
+NOTE This cue is
+about styling
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.500 --> 00:03.000 align:start position:10%
+Hello
+
+00:00:03.000 --> 00:00:05.250
+World
+`;
+
+    expect(parseSubtitles(vtt)).toEqual([
+      { start: 1.5, end: 3, text: "Hello" },
+      { start: 3, end: 5.25, text: "World" },
+    ]);
+  });
+
+  it("strips styling tags, karaoke timestamps and ASS overrides, and keeps voice names", () => {
+    const vtt = `WEBVTT
+
+00:00.000 --> 00:02.000
+<v.loud Roger Bingham><i>We</i> <00:00:01.000><c.highlight>are</c> <font color="red">here</font>
+
+00:02.000 --> 00:04.000
+{\\an8}<b>Up</b> top
+`;
+
+    expect(parseSubtitles(vtt).map(segment => segment.text)).toEqual(["Roger Bingham: We are here", "Up top"]);
+  });
+
+  it("decodes named, decimal and hex character references once", () => {
+    const srt = `1
+00:00:00,000 --> 00:00:01,000
+Tom &amp; Jerry &lt;3 &quot;caf&#233;&quot; &#x1F600; &#X41;&nbsp;&amp;#65;
+`;
+
+    expect(parseSubtitles(srt)[0].text).toBe('Tom & Jerry <3 "café" \u{1F600} A &#65;');
+  });
+
+  it("merges repeated rolling captions and orders cues by start time", () => {
+    const srt = `2
+00:00:05,000 --> 00:00:06,000
+Later
+
+1
+00:00:01,000 --> 00:00:02,000
+Rolling
+
+1b
+00:00:02,000 --> 00:00:03,000
+Rolling
+
+3
+00:00:03,000 --> 00:00:04,000
+<i></i>
+`;
+
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1, end: 3, text: "Rolling" },
+      { start: 5, end: 6, text: "Later" },
+    ]);
+  });
+});
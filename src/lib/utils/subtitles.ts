@@ -0,0 +1,88 @@
+import { TranscriptSegment } from "@/lib/types/storage";
+import { sortSegments } from "@/lib/utils/transcript";
+import { codePointToString } from "@/lib/utils/xml";
+
+// Cue timing line shared by SRT (00:00:01,000) and WebVTT (00:01.000), with optional VTT cue settings after it
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  lrm: "",
+  rlm: "",
+};
+
+/**
+ * Parse a cue time such as `00:01:02,500` or `01:02.500` into seconds
+ */
+function parseCueTime(value: string): number {
+  const [clock, fraction] = value.replace(",", ".").split(".");
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction || 0}`);
+}
+
+/**
+ * Strip styling from cue text and join its lines. WebVTT voice spans are
+ * kept as a "Speaker: " prefix.
+ */
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(" ")
+    // WebVTT karaoke timestamps, e.g. <00:00:01.500>
+    .replace(/<(?:\d+:)?\d{1,2}:\d{2}\.\d{1,3}>/g, "")
+    .replace(/<v(?:\.[^\s>]+)*\s+([^>]+)>/g, "$1: ")
+    // <i>, <b>, <u>, <c.class>, <font color=...>, <ruby>, <lang en>...
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    // ASS override tags some SRT files carry, e.g. {\an8}
+    .replace(/\{\\[^}]*\}/g, "")
+    // Named, decimal and hex references in one pass, so "&amp;#65;" stays "&#65;"
+    .replace(
+      /&(?:#[xX]([0-9a-fA-F]+)|#(\d+)|(amp|lt|gt|quot|apos|nbsp|lrm|rlm));/g,
+      (_, hex: string | undefined, code: string | undefined, name: string) =>
+        hex ? codePointToString(parseInt(hex, 16))
+          : code ? codePointToString(parseInt(code, 10)) : ENTITIES[name]
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse an SRT or WebVTT subtitle file into transcript segments.
+ * Cue numbers and identifiers, the WebVTT header and NOTE, STYLE and REGION
+ * blocks are skipped; multi-line cues are joined and styling tags removed.
+ * A cue repeating the previous cue's text, as in rolling captions, is merged
+ * into it.
+ */
+export function parseSubtitles(content: string): TranscriptSegment[] {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .trim()
+    .split(/\n(?:[ \t]*\n)+/);
+
+  const segments: TranscriptSegment[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n").map(line => line.trim());
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+    // The timing follows at most one line (the cue number or identifier)
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_PATTERN) || [];
+    const text = cleanCueText(lines.slice(timingIndex + 1).filter(line => line.length > 0));
+    if (!text) continue;
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.text === text) {
+      previous.end = Math.max(previous.end, parseCueTime(end));
+      continue;
+    }
+
+    segments.push({ start: parseCueTime(start), end: parseCueTime(end), text });
+  }
+
+  return sortSegments(segments);
+}
@@ -0,0 +1,26 @@
+import { createBrowserSupabaseClient, isAuthConfigured } from "@/lib/utils/supabase/client";
+
+// Prefix of the localStorage keys summaries are cached under, one per user
+const SUMMARIES_CACHE_PREFIX = "video-summaries-cache";
+
+/**
+ * Get the localStorage key of the signed-in user's cached summaries, so that
+ * people sharing a browser never see each other's summaries
+ * @returns The key, or null when nobody is signed in
+ */
+export async function getSummariesCacheKey(): Promise<string | null> {
+  if (!isAuthConfigured()) return null;
+
+  const { data } = await createBrowserSupabaseClient().auth.getUser();
+  return data.user ? `${SUMMARIES_CACHE_PREFIX}:${data.user.id}` : null;
+}
+
+/**
+ * Remove every user's cached summaries, and the single shared cache earlier
+ * versions kept
+ */
+export function clearSummariesCache(): void {
+  Object.keys(localStorage)
+    .filter(key => key === SUMMARIES_CACHE_PREFIX || key.startsWith(`${SUMMARIES_CACHE_PREFIX}:`))
+    .forEach(key => localStorage.removeItem(key));
+}
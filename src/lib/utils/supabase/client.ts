@@ -0,0 +1,21 @@
+import { createBrowserClient } from "@supabase/ssr";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+/**
+ * Whether Supabase Auth is configured for the browser
+ */
+export const isAuthConfigured = (): boolean => !!(supabaseUrl && supabaseAnonKey);
+
+/**
+ * Create a Supabase client for client components. The session is kept in
+ * cookies, so route handlers see the same user.
+ */
+export function createBrowserSupabaseClient(): SupabaseClient {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY must be set to sign in");
+  }
+  return createBrowserClient(supabaseUrl, supabaseAnonKey);
+}
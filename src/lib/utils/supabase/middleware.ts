@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { User } from "@supabase/supabase-js";
+
+/**
+ * Refresh the session of a request, passing renewed cookies on to both the
+ * route it reaches and the browser
+ * @returns The response to continue with and the signed-in user, if any
+ */
+export async function updateSession(request: NextRequest): Promise<{ response: NextResponse; user: User | null }> {
+  let response = NextResponse.next({ request });
+
+  const client = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+        },
+      },
+    }
+  );
+
+  // getUser checks the token with Supabase Auth, and refreshes it when it has expired
+  const { data: { user } } = await client.auth.getUser();
+  return { response, user };
+}
@@ -0,0 +1,43 @@
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
+
+/**
+ * Supabase URL and anon key used for authentication
+ * @throws AppError when they are not set
+ */
+export function getSupabaseAuthConfig(): { url: string; anonKey: string } {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    throw new AppError(
+      "NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY must be set for authentication",
+      ErrorCode.AUTH_NOT_CONFIGURED,
+      HttpStatus.INTERNAL_ERROR
+    );
+  }
+  return { url, anonKey };
+}
+
+/**
+ * Create a Supabase client for route handlers and server components, reading
+ * the session from the request cookies
+ */
+export function createServerSupabaseClient(): SupabaseClient {
+  const { url, anonKey } = getSupabaseAuthConfig();
+  const cookieStore = cookies();
+
+  return createServerClient(url, anonKey, {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {
+          // Server components cannot set cookies; the middleware refreshes the session instead
+        }
+      },
+    },
+  });
+}
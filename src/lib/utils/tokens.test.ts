@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { chunkText, estimateTokens, getChunkOptions } from "./tokens";
+
+// "wordNNN " is two tokens
+const words = (count: number) => Array.from({ length: count }, (_, index) => `word${String(index).padStart(3, "0")}`);
+
+describe("chunkText", () => {
+  it("keeps text that fits in one chunk whole", () => {
+    expect(chunkText("  one two\nthree  ", { chunkTokens: 100, overlapTokens: 10 })).toEqual(["one two three"]);
+    expect(chunkText("", { chunkTokens: 100, overlapTokens: 10 })).toEqual([]);
+  });
+
+  it("splits on word boundaries within the token budget", () => {
+    const chunks = chunkText(words(100).join(" "), { chunkTokens: 20, overlapTokens: 0 });
+
+    expect(chunks).toHaveLength(10);
+    expect(chunks[0]).toBe(words(10).join(" "));
+    expect(chunks.join(" ")).toBe(words(100).join(" "));
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(20);
+    }
+  });
+
+  it("repeats the end of each chunk at the start of the next", () => {
+    const chunks = chunkText(words(30).join(" "), { chunkTokens: 20, overlapTokens: 4 });
+
+    expect(chunks[0].split(" ").slice(-2)).toEqual(chunks[1].split(" ").slice(0, 2));
+    expect(chunks[chunks.length - 1].endsWith("word029")).toBe(true);
+  });
+
+  it("makes progress on words larger than a chunk", () => {
+    const long = "x".repeat(200);
+
+    expect(chunkText(`${long} ${long} end`, { chunkTokens: 10, overlapTokens: 5 })).toEqual([long, long, "end"]);
+  });
+});
+
+describe("getChunkOptions", () => {
+  it("sizes chunks from the model's context window", () => {
+    expect(getChunkOptions("gpt-3.5-turbo", 700)).toEqual({ chunkTokens: 12548, overlapTokens: 627 });
+    // Unknown models get a conservative window, and chunks are never tiny
+    expect(getChunkOptions("unknown", 700).chunkTokens).toBe(2716);
+    expect(getChunkOptions("unknown", 10_000).chunkTokens).toBe(256);
+  });
+});
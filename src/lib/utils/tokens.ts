@@ -0,0 +1,93 @@
+/**
+ * Context window sizes (in tokens) of the models we use
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-3.5-turbo": 16385,
+  "gpt-4o-mini": 128000,
+  "gpt-4o": 128000,
+  "llama-3.1-8b-instant": 131072,
+  "llama-3.3-70b-versatile": 131072,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Rough average for English text with OpenAI tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Options for splitting text into token-bounded chunks
+ */
+export interface ChunkOptions {
+  chunkTokens: number;
+  overlapTokens: number;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Get the context window of a model, falling back to a conservative default
+ */
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Derive chunk size and overlap from a model's context window
+ * @param model - The model the chunks will be sent to
+ * @param reservedTokens - Tokens needed for the prompt and the completion
+ */
+export function getChunkOptions(model: string, reservedTokens: number): ChunkOptions {
+  // Leave headroom for estimation error
+  const chunkTokens = Math.max(
+    256,
+    Math.floor((getContextWindow(model) - reservedTokens) * 0.8)
+  );
+
+  return {
+    chunkTokens,
+    overlapTokens: Math.floor(chunkTokens * 0.05),
+  };
+}
+
+/**
+ * Split text into chunks of roughly `chunkTokens` tokens on word boundaries,
+ * repeating the last `overlapTokens` tokens of each chunk at the start of the next
+ */
+export function chunkText(text: string, { chunkTokens, overlapTokens }: ChunkOptions): string[] {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < words.length) {
+    let end = start;
+    let tokens = 0;
+
+    while (end < words.length) {
+      const wordTokens = estimateTokens(words[end] + " ");
+      if (tokens + wordTokens > chunkTokens && end > start) break;
+      tokens += wordTokens;
+      end++;
+    }
+
+    chunks.push(words.slice(start, end).join(" "));
+    if (end >= words.length) break;
+
+    // Step back to create the overlap, but always make progress
+    let overlapStart = end;
+    let overlap = 0;
+    while (overlapStart > start + 1) {
+      const wordTokens = estimateTokens(words[overlapStart - 1] + " ");
+      if (overlap + wordTokens > overlapTokens) break;
+      overlap += wordTokens;
+      overlapStart--;
+    }
+    start = overlapStart;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,43 @@
+import { TranscriptSegment } from "@/lib/types/storage";
+
+/**
+ * Sort segments by start time
+ */
+export function sortSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return [...segments].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Join transcript segments into plain text for summarization
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return sortSegments(segments)
+    .map(segment => segment.text.trim())
+    .filter(text => text.length > 0)
+    .join(" ");
+}
+
+/**
+ * Format a time in seconds as m:ss or h:mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Parse a m:ss or h:mm:ss timestamp into seconds
+ */
+export function parseTimestamp(timestamp: string): number | null {
+  const parts = timestamp.split(":").map(part => Number(part));
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => !Number.isInteger(part) || part < 0)) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
@@ -0,0 +1,63 @@
+import { createEventParser, ServerSentEvent } from "@/lib/utils/sse";
+
+/**
+ * Callbacks for an upload that responds with a server-sent event stream
+ */
+export interface UploadCallbacks {
+  onUploadProgress?: (loaded: number, total: number) => void;
+  onEvent: (event: ServerSentEvent) => void;
+}
+
+/**
+ * POST form data and read the server-sent event stream sent back, reporting
+ * how much of the request body has been sent. fetch cannot report upload
+ * progress, so this uses XMLHttpRequest.
+ * @throws Error with the server's message when the request is rejected
+ */
+export function uploadWithProgress(
+  url: string,
+  form: FormData,
+  { onUploadProgress, onEvent }: UploadCallbacks
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const parser = createEventParser(onEvent);
+    let received = 0;
+
+    // Error responses are JSON and read once complete
+    const readEvents = () => {
+      if (xhr.status >= 400) return;
+      parser.push(xhr.responseText.slice(received));
+      received = xhr.responseText.length;
+    };
+
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onUploadProgress?.(event.loaded, event.total);
+    };
+    xhr.onprogress = readEvents;
+    xhr.onload = () => {
+      if (xhr.status >= 400) {
+        let message = "Upload failed";
+        try {
+          message = JSON.parse(xhr.responseText).error?.message || message;
+        } catch {
+          // Keep the generic message
+        }
+        reject(new Error(message));
+        return;
+      }
+
+      try {
+        readEvents();
+        parser.flush();
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed"));
+    xhr.send(form);
+  });
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { getSafeNextPath } from "./url";
+
+const ORIGIN = "https://summaries.example.com";
+
+describe("getSafeNextPath", () => {
+  it.each([
+    ["/summaries", "/summaries"],
+    ["/summaries?tag=ai#top", "/summaries?tag=ai#top"],
+    ["/playlists/../summaries", "/summaries"],
+    // An encoded backslash stays part of the path
+    ["/%5Cevil.example", "/%5Cevil.example"],
+  ])("follows paths on the site: %s", (next, expected) => {
+    expect(getSafeNextPath(next, ORIGIN)).toBe(expected);
+  });
+
+  it.each([
+    null,
+    "",
+    "summaries",
+    "https://evil.example",
+    "//evil.example",
+    "/\\evil.example",
+    "/\\/evil.example",
+    "/\t/evil.example",
+  ])("falls back to the home page for %j", next => {
+    expect(getSafeNextPath(next, ORIGIN)).toBe("/");
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Resolve a link read from fetched content to an absolute http(s) URL.
+ * Stored URLs are rendered as links for every user, so links with any other
+ * scheme, such as `javascript:` or `data:`, are dropped.
+ * @param value - The link, which may be relative to `base`
+ * @param base - Where the content was fetched from
+ * @returns The absolute URL, or null when it is missing, malformed or not http(s)
+ */
+export function toHttpUrl(value: string | null | undefined, base?: string): string | null {
+  if (!value) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value.trim(), base);
+  } catch {
+    return null;
+  }
+
+  return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+}
+
+/**
+ * Check a `next` parameter before redirecting to it after sign-in. Only paths
+ * on `origin` are followed: the value is resolved against it, so that
+ * protocol-relative (`//host`) and backslash (`/\host`) forms, which
+ * browsers treat as other hosts, are refused.
+ * @param next - The requested path, e.g. `/summaries?tag=ai`
+ * @param origin - The site's origin, e.g. `https://example.com`
+ * @returns The path with its query and hash, or `/` when it leaves the site
+ */
+export function getSafeNextPath(next: string | null | undefined, origin: string): string {
+  if (!next || !next.startsWith("/") || next.includes("\\")) return "/";
+
+  let url: URL;
+  try {
+    url = new URL(next, origin);
+  } catch {
+    return "/";
+  }
+
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal helpers for reading feeds (Atom, RSS) without an XML parser.
+ * They handle the flat, well-formed documents feeds are made of; nested
+ * elements with the same name as their parent are not supported.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Turn the code point of a numeric character reference such as `&#128512;`
+ * into text; references that are not valid characters become U+FFFD
+ */
+export function codePointToString(code: number): string {
+  const valid = code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+  return String.fromCodePoint(valid ? code : 0xfffd);
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Decode XML entities and unwrap CDATA sections
+ */
+export function decodeXmlText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => codePointToString(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => codePointToString(parseInt(code, 10)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => ENTITIES[name])
+    .trim();
+}
+
+/**
+ * Get the raw contents of every element with the given (possibly prefixed) name
+ */
+export function getElements(xml: string, name: string): string[] {
+  const tag = escapeRegExp(name);
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g");
+  const elements: string[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    elements.push(match[1]);
+  }
+  return elements;
+}
+
+/**
+ * Get the decoded text of the first element with the given name
+ */
+export function getElementText(xml: string, name: string): string | null {
+  const [element] = getElements(xml, name);
+  return element === undefined ? null : decodeXmlText(element);
+}
+
+/**
+ * Get an attribute of the first element with the given name, including
+ * self-closing elements such as `<link href="..."/>`
+ */
+export function getAttribute(xml: string, name: string, attribute: string): string | null {
+  const tag = escapeRegExp(name);
+  const element = xml.match(new RegExp(`<${tag}\\s[^>]*>`));
+  if (!element) return null;
+
+  const value = element[0].match(new RegExp(`\\s${escapeRegExp(attribute)}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return value ? decodeXmlText(value[2] ?? value[3]) : null;
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ErrorCode } from "@/lib/types/errors";
+import type { YouTubeUrl } from "@/lib/types/youtube";
+import urlFixtures from "../../../fixtures/youtube/urls.json";
+import { extractVideoInfo, fetchChannelId, parseYouTubeUrl } from "./youtube";
+
+interface UrlFixture {
+  name: string;
+  input: string;
+  expected: YouTubeUrl | null;
+}
+
+describe("parseYouTubeUrl", () => {
+  it.each(urlFixtures as UrlFixture[])("parses $name", ({ input, expected }) => {
+    expect(parseYouTubeUrl(input)).toEqual(expected);
+  });
+});
+
+describe("extractVideoInfo", () => {
+  it("returns the video of a video URL", () => {
+    expect(extractVideoInfo("https://youtu.be/dQw4w9WgXcQ?ab_channel=RickAstley")).toEqual({
+      videoId: "dQw4w9WgXcQ",
+    });
+  });
+
+  it("returns nothing for playlist and channel URLs", () => {
+    const empty = { videoId: null };
+    expect(extractVideoInfo("https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf")).toEqual(empty);
+    expect(extractVideoInfo("https://www.youtube.com/@RickAstleyYT")).toEqual(empty);
+  });
+});
+
+describe("fetchChannelId", () => {
+  const CHANNEL_ID = "UCuAXFkgsw1L7xaCfnd5JJOw";
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns channel IDs without a request", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(fetchChannelId({ type: "channel", kind: "id", value: CHANNEL_ID })).resolves.toBe(CHANNEL_ID);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reads the channel ID from the channel page", async () => {
+    const fetch = vi.fn(async () => new Response(`{"externalId":"${CHANNEL_ID}"}`));
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(fetchChannelId({ type: "channel", kind: "handle", value: "RickAstleyYT" })).resolves.toBe(CHANNEL_ID);
+    expect(fetch).toHaveBeenCalledWith("https://www.youtube.com/@RickAstleyYT");
+  });
+
+  it("rejects channels that cannot be resolved", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("<html></html>")));
+    await expect(fetchChannelId({ type: "channel", kind: "user", value: "nobody" })).rejects.toMatchObject({
+      code: ErrorCode.CHANNEL_NOT_FOUND,
+    });
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 404 })));
+    await expect(fetchChannelId({ type: "channel", kind: "custom", value: "gone" })).rejects.toMatchObject({
+      code: ErrorCode.CHANNEL_NOT_FOUND,
+    });
+  });
+});
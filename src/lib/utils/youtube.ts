@@ -1,107 +1,259 @@
 import { AppError, ErrorCode, HttpStatus } from "@/lib/types/errors";
-
-interface TranscriptSegment {
-  text: string;
-  offset: string;
-  duration: number;
-  lang?: string;
-}
+import { YouTubeChannelKind, YouTubeChannelUrl, YouTubeUrl, YouTubeVideoUrl } from "@/lib/types/youtube";
 
 interface VideoInfo {
   videoId: string | null;
-  channelId: string | null;
 }
 
+const YOUTUBE_HOSTS = [
+  "youtube.com",
+  "www.youtube.com",
+  "m.youtube.com",
+  "music.youtube.com",
+  "youtube-nocookie.com",
+  "www.youtube-nocookie.com",
+];
+const SHORT_HOSTS = ["youtu.be", "www.youtu.be"];
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]{2,}$/;
+const CHANNEL_ID_PATTERN = /^UC[A-Za-z0-9_-]{22}$/;
+const CHANNEL_NAME_PATTERN = /^[A-Za-z0-9_.\-]+$/;
+const START_TIME_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/;
+
+// Where a channel page states its own channel ID
+const CHANNEL_PAGE_ID_PATTERNS = [
+  /<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[A-Za-z0-9_-]{22})"/,
+  /<meta itemprop="(?:channelId|identifier)" content="(UC[A-Za-z0-9_-]{22})"/,
+  /"externalId":"(UC[A-Za-z0-9_-]{22})"/,
+];
+
+// Path prefixes followed by a video ID
+const VIDEO_PATHS = ["shorts", "live", "embed", "v"];
+
+// Path prefixes followed by a channel name, by how they identify it
+const CHANNEL_PATHS: Record<string, YouTubeChannelKind> = {
+  channel: "id",
+  c: "custom",
+  user: "user",
+};
+
 /**
- * Extract video ID and channel info from YouTube URL
+ * Parse a start time such as `90`, `90s` or `1h2m3s` into seconds
  */
-export function extractVideoInfo(url: string): VideoInfo {
+function parseStartTime(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.match(START_TIME_PATTERN);
+  if (!match || match[0] === "") return null;
+
+  const [, hours, minutes, seconds] = match;
+  return Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+}
+
+/**
+ * Build the result for a video URL if the ID is well formed
+ */
+function toVideo(videoId: string | undefined, url: URL): YouTubeVideoUrl | null {
+  if (!videoId || !VIDEO_ID_PATTERN.test(videoId)) return null;
+
+  const hashParams = new URLSearchParams(url.hash.slice(1));
+  const playlistId = url.searchParams.get("list");
+
+  return {
+    type: "video",
+    videoId,
+    startSeconds: parseStartTime(
+      url.searchParams.get("t") || url.searchParams.get("start") || hashParams.get("t")
+    ),
+    playlistId: playlistId && PLAYLIST_ID_PATTERN.test(playlistId) ? playlistId : null,
+  };
+}
+
+/**
+ * Check whether a hostname belongs to YouTube
+ */
+export function isYouTubeHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return YOUTUBE_HOSTS.includes(host) || SHORT_HOSTS.includes(host);
+}
+
+/**
+ * Parse a YouTube URL into the video, playlist or channel it points to.
+ * The scheme may be omitted. Returns null for anything else.
+ */
+export function parseYouTubeUrl(input: string): YouTubeUrl | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  let url: URL;
   try {
-    const urlObj = new URL(url);
-    let videoId = "";
-    let channelId = urlObj.searchParams.get("ab_channel") || null;
-
-    if (urlObj.hostname.includes("youtube.com")) {
-      videoId = urlObj.searchParams.get("v") || "";
-    } else if (urlObj.hostname === "youtu.be") {
-      videoId = urlObj.pathname.slice(1);
-    }
-
-    return {
-      videoId: videoId || null,
-      channelId
-    };
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
   } catch {
-    return {
-      videoId: null,
-      channelId: null
-    };
+    return null;
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split("/").filter(segment => segment.length > 0);
+
+  if (SHORT_HOSTS.includes(host)) {
+    return toVideo(segments[0], url);
+  }
+
+  if (!YOUTUBE_HOSTS.includes(host)) return null;
+
+  const [first, second] = segments;
+
+  if (first === "watch") {
+    const video = toVideo(url.searchParams.get("v") || undefined, url);
+    if (video) return video;
+  }
+
+  // "videoseries" happens to look like a video ID
+  if (first && VIDEO_PATHS.includes(first) && second !== "videoseries") {
+    const video = toVideo(second, url);
+    if (video) return video;
   }
+
+  // Playlist pages, embedded playlists and watch links without a video
+  const playlistId = url.searchParams.get("list");
+  if (
+    playlistId &&
+    PLAYLIST_ID_PATTERN.test(playlistId) &&
+    (first === "playlist" || first === "watch" || (first === "embed" && second === "videoseries"))
+  ) {
+    return { type: "playlist", playlistId };
+  }
+
+  if (first?.startsWith("@") && first.length > 1) {
+    const handle = decodeURIComponent(first.slice(1));
+    return CHANNEL_NAME_PATTERN.test(handle) ? { type: "channel", kind: "handle", value: handle } : null;
+  }
+
+  const kind = first ? CHANNEL_PATHS[first] : undefined;
+  if (kind && second) {
+    const valid = kind === "id" ? CHANNEL_ID_PATTERN.test(second) : CHANNEL_NAME_PATTERN.test(second);
+    return valid ? { type: "channel", kind, value: second } : null;
+  }
+
+  return null;
 }
 
 /**
- * Fetch transcript from RapidAPI
+ * Build the canonical watch URL of a video
  */
-export async function fetchTranscript(videoId: string): Promise<string> {
-  const response = await fetch(
-    `https://youtube-transcript3.p.rapidapi.com/api/transcript?videoId=${videoId}`,
-    {
-      headers: {
-        "x-rapidapi-host": "youtube-transcript3.p.rapidapi.com",
-        "x-rapidapi-key": "5230d7b76fmsheb407ac6cb96efap1c703cjsnd3f8f5715b27",
-      },
-    }
-  );
+export function buildVideoUrl(videoId: string): string {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-
-    if (response.status === 404) {
-      throw new AppError(
-        "No transcript available for this video",
-        ErrorCode.VIDEO_NOT_FOUND,
-        HttpStatus.NOT_FOUND
-      );
-    }
-
-    if (response.status === 429) {
-      throw new AppError(
-        "Rate limit exceeded for transcript service",
-        ErrorCode.API_RATE_LIMIT,
-        HttpStatus.TOO_MANY_REQUESTS
-      );
-    }
+/**
+ * Build the canonical URL of a playlist
+ */
+export function buildPlaylistUrl(playlistId: string): string {
+  return `https://www.youtube.com/playlist?list=${playlistId}`;
+}
 
-    throw new AppError(
-      errorData.message || "Failed to fetch transcript",
-      ErrorCode.API_SERVICE_UNAVAILABLE,
-      response.status
-    );
+/**
+ * Build the canonical URL of a channel from its ID
+ */
+export function buildChannelUrl(channelId: string): string {
+  return `https://www.youtube.com/channel/${channelId}`;
+}
+
+/**
+ * Build the canonical URL of a channel page however the channel is identified
+ */
+export function buildChannelPageUrl({ kind, value }: Pick<YouTubeChannelUrl, "kind" | "value">): string {
+  switch (kind) {
+    case "id":
+      return buildChannelUrl(value);
+    case "handle":
+      return `https://www.youtube.com/@${value}`;
+    case "custom":
+      return `https://www.youtube.com/c/${value}`;
+    case "user":
+      return `https://www.youtube.com/user/${value}`;
   }
+}
+
+/**
+ * Extract the video ID from a YouTube URL. The channel is not taken from the
+ * URL; see `fetchChannelId`.
+ */
+export function extractVideoInfo(url: string): VideoInfo {
+  const parsed = parseYouTubeUrl(url);
+  return {
+    videoId: parsed?.type === "video" ? parsed.videoId : null
+  };
+}
 
-  const data = await response.json();
-  
-  // Check for the specific RapidAPI response format
-  if (!data || !data.transcript || !Array.isArray(data.transcript)) {
+/**
+ * Video metadata returned by YouTube's oEmbed endpoint
+ */
+export interface VideoMetadata {
+  title?: string;
+  author_name?: string;
+  author_url?: string;
+  thumbnail_url?: string;
+}
+
+/**
+ * Fetch video title and channel information from YouTube oEmbed
+ */
+export async function fetchVideoMetadata(url: string): Promise<VideoMetadata> {
+  const response = await fetch(
+    `https://www.youtube.com/oembed?url=${encodeURIComponent(url)}&format=json`
+  );
+  if (!response.ok) {
     throw new AppError(
-      "Invalid transcript format received",
-      ErrorCode.API_INVALID_RESPONSE,
+      "Failed to fetch video metadata",
+      ErrorCode.API_SERVICE_UNAVAILABLE,
       HttpStatus.INTERNAL_ERROR
     );
   }
+  return response.json();
+}
 
-  // Combine all transcript segments into a single text
-  const segments = data.transcript as TranscriptSegment[];
-  if (segments.length === 0) {
+/**
+ * Get the channel ID behind a channel URL. Handles, custom URLs and
+ * usernames are resolved from the channel page.
+ */
+export async function fetchChannelId(channel: YouTubeChannelUrl): Promise<string> {
+  if (channel.kind === "id") return channel.value;
+
+  const response = await fetch(buildChannelPageUrl(channel));
+  if (!response.ok) {
     throw new AppError(
-      "No transcript content available",
-      ErrorCode.VIDEO_NOT_FOUND,
+      "Channel not found",
+      ErrorCode.CHANNEL_NOT_FOUND,
       HttpStatus.NOT_FOUND
     );
   }
 
-  return segments
-    .sort((a, b) => parseFloat(a.offset) - parseFloat(b.offset)) // Sort by offset
-    .map(segment => segment.text)
-    .join(" ");
-} 
\ No newline at end of file
+  const html = await response.text();
+  for (const pattern of CHANNEL_PAGE_ID_PATTERNS) {
+    const match = html.match(pattern);
+    if (match && CHANNEL_ID_PATTERN.test(match[1])) return match[1];
+  }
+
+  throw new AppError(
+    "Could not resolve channel",
+    ErrorCode.CHANNEL_NOT_FOUND,
+    HttpStatus.NOT_FOUND,
+    { channel: channel.value }
+  );
+}
+
+/**
+ * Build a link that opens a YouTube video at the given time
+ */
+export function buildTimestampUrl(url: string, seconds: number): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.searchParams.set("t", `${Math.max(0, Math.floor(seconds))}s`);
+    return urlObj.toString();
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateSession } from "@/lib/utils/supabase/middleware";
+
+// Pages that can be visited without signing in
+const PUBLIC_PATHS = ["/login", "/signup", "/auth"];
+
+/**
+ * Keep the Supabase session fresh on every request and send signed-out
+ * visitors to the sign-in page. API routes answer 401 themselves.
+ */
+export async function middleware(request: NextRequest): Promise<NextResponse> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    return NextResponse.next();
+  }
+
+  const { response, user } = await updateSession(request);
+  const { pathname, search } = request.nextUrl;
+  const isPublic = pathname.startsWith("/api/") ||
+    PUBLIC_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`));
+
+  if (!user && !isPublic) {
+    const loginUrl = request.nextUrl.clone();
+    loginUrl.pathname = "/login";
+    loginUrl.search = `?next=${encodeURIComponent(pathname + search)}`;
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return response;
+}
+
+export const config = {
+  // Skip static assets and images
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)"],
+};
@@ -0,0 +1,132 @@
+-- Tables used by SupabaseRepository (DATABASE_BACKEND=supabase)
+
+create table if not exists profiles (
+  id text primary key,
+  name text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists channels (
+  id text primary key,
+  name text not null,
+  url text not null,
+  subscriber_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists videos (
+  id text primary key,
+  channel_id text not null references channels (id),
+  content_type text not null default 'video'
+    check (content_type in ('video', 'podcast', 'upload', 'article')),
+  unique_identifier text not null,
+  title text not null,
+  url text not null,
+  transcript_path text not null,
+  transcript_provider text,
+  language text not null,
+  metadata jsonb,
+  published_at timestamptz not null,
+  last_updated timestamptz not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists videos_url on videos (url);
+create index if not exists videos_unique_identifier on videos (unique_identifier);
+create index if not exists videos_feed_url on videos ((metadata ->> 'feed_url'));
+
+create table if not exists content_summaries (
+  id text primary key,
+  content_id text not null references videos (id) on delete cascade,
+  prompt_version text not null,
+  summary text not null,
+  detailed_summary text,
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (content_id, prompt_version)
+);
+
+create table if not exists user_summaries (
+  id text primary key,
+  user_id text not null,
+  video_id text not null references videos (id) on delete cascade,
+  summary text not null,
+  detailed_summary text,
+  tags text[] not null default '{}',
+  content_summary_id text references content_summaries (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+create index if not exists user_summaries_user on user_summaries (user_id, created_at desc);
+
+create table if not exists tags (
+  id text primary key,
+  name text not null unique
+);
+
+create table if not exists content_tags (
+  content_id text not null,
+  tag_id text not null references tags (id) on delete cascade,
+  content_type text not null
+);
+create index if not exists content_tags_content on content_tags (content_id);
+
+create table if not exists subscriptions (
+  id text primary key,
+  user_id text not null,
+  subscription_type text not null,
+  subscription_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists content_questions (
+  id text primary key,
+  user_id text not null,
+  content_id text not null,
+  question text not null,
+  response text,
+  citations jsonb,
+  created_at timestamptz not null default now()
+);
+create index if not exists content_questions_user on content_questions (user_id, content_id);
+
+create table if not exists playlists (
+  id text primary key,
+  user_id text not null,
+  playlist_id text not null,
+  title text not null,
+  url text not null,
+  provider text not null,
+  status text not null,
+  synthesis text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists playlist_items (
+  id text primary key,
+  playlist_id text not null references playlists (id) on delete cascade,
+  video_id text not null,
+  title text,
+  position integer not null,
+  status text not null,
+  summary_id text references user_summaries (id) on delete set null,
+  error text,
+  updated_at timestamptz not null default now()
+);
+create index if not exists playlist_items_playlist on playlist_items (playlist_id, position);
+
+-- The server connects with the service role key, which bypasses row level
+-- security. Without policies, the anon and authenticated roles the browser
+-- client uses can read and write none of these tables.
+alter table profiles enable row level security;
+alter table channels enable row level security;
+alter table videos enable row level security;
+alter table content_summaries enable row level security;
+alter table user_summaries enable row level security;
+alter table tags enable row level security;
+alter table content_tags enable row level security;
+alter table subscriptions enable row level security;
+alter table content_questions enable row level security;
+alter table playlists enable row level security;
+alter table playlist_items enable row level security;
@@ -0,0 +1,20 @@
+-- Background processing jobs (see JobService)
+
+create table if not exists jobs (
+  id text primary key,
+  user_id text not null,
+  type text not null check (type in ('video', 'playlist', 'channel', 'import')),
+  input jsonb not null,
+  status text not null check (status in ('pending', 'processing', 'completed', 'failed')),
+  stage text check (stage in ('transcript', 'summary', 'tags', 'persist')),
+  error text,
+  result_id text references user_summaries (id) on delete set null,
+  -- Refreshed by the worker while the job runs; a stale heartbeat means it was interrupted
+  heartbeat_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+create index if not exists jobs_user on jobs (user_id, created_at desc);
+
+-- Like the other tables, reachable only with the service role key
+alter table jobs enable row level security;
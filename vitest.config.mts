@@ -0,0 +1,21 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Tests run offline against in-memory storage and the mock providers
+    env: {
+      DATABASE_BACKEND: "memory",
+      TRANSCRIPT_STORAGE: "memory",
+      TRANSCRIPT_PROVIDERS: "mock",
+      LLM_PROVIDER: "mock",
+    },
+  },
+});